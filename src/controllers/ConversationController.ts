@@ -127,7 +127,7 @@ export async function getConversation(
       return
     }
 
-    const conversation = this.conversationService.getConversation(conversationId)
+    const conversation = await this.conversationService.getConversation(conversationId)
     
     if (!conversation) {
       reply.code(404).send({
@@ -158,7 +158,7 @@ export async function getConversations(
   try {
     const query = GetConversationsSchema.parse(request.query)
     
-    const conversations = this.conversationService.getConversations(
+    const conversations = await this.conversationService.getConversations(
       query.workspace_id,
       query.user_id
     )
@@ -214,7 +214,7 @@ export async function getConversationMessages(
       return
     }
 
-    const conversation = this.conversationService.getConversation(conversationId)
+    const conversation = await this.conversationService.getConversation(conversationId)
     
     if (!conversation) {
       reply.code(404).send({
@@ -271,7 +271,7 @@ export async function getActiveWorkflows(
       return
     }
 
-    const conversation = this.conversationService.getConversation(conversationId)
+    const conversation = await this.conversationService.getConversation(conversationId)
     
     if (!conversation) {
       reply.code(404).send({
@@ -304,7 +304,7 @@ export async function getConversationEvents(
 ) {
   try {
     const { conversationId } = request.params as { conversationId: string }
-    const query = request.query as { limit?: string }
+    const query = request.query as { limit?: string, after?: string }
     
     if (!conversationId) {
       reply.code(400).send({
@@ -315,7 +315,12 @@ export async function getConversationEvents(
     }
 
     const limit = Math.min(parseInt(query.limit || '50'), 100)
-    const events = this.conversationService.getConversationEvents(conversationId, limit)
+    const after = query.after !== undefined ? parseInt(query.after) : undefined
+    const events = await this.conversationService.getConversationEvents(
+      conversationId,
+      limit,
+      after !== undefined && !isNaN(after) ? after : undefined
+    )
 
     reply.send({
       success: true,
@@ -351,7 +356,7 @@ export async function streamConversationEvents(
     }
 
     // Verify conversation exists
-    const conversation = this.conversationService.getConversation(conversationId)
+    const conversation = await this.conversationService.getConversation(conversationId)
     if (!conversation) {
       reply.code(404).send({
         success: false,
@@ -360,27 +365,48 @@ export async function streamConversationEvents(
       return
     }
 
+    // Resume point - EventSource sends Last-Event-ID on reconnect; the query
+    // parameter covers clients that cannot set headers
+    const query = request.query as { last_event_id?: string }
+    const lastEventId = request.headers['last-event-id'] || query.last_event_id
+    const resumeFrom = lastEventId !== undefined ? parseInt(String(lastEventId)) : NaN
+
     // Set up Server-Sent Events
     reply.raw.writeHead(200, {
       'Content-Type': 'text/event-stream',
       'Cache-Control': 'no-cache',
       'Connection': 'keep-alive',
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Headers': 'Cache-Control'
+      'Access-Control-Allow-Headers': 'Cache-Control, Last-Event-ID'
     })
 
-    const eventStream = this.conversationService.createEventStream(conversationId)
+    const eventStream = this.conversationService.createEventStream(
+      conversationId,
+      isNaN(resumeFrom) ? undefined : resumeFrom
+    )
     
     // Send initial connection event
     reply.raw.write(`data: ${JSON.stringify({
       type: 'connected',
       conversation_id: conversationId,
+      resumed_from: isNaN(resumeFrom) ? null : resumeFrom,
       timestamp: new Date().toISOString()
     })}\n\n`)
 
-    // Handle events
+    // Handle events - the id field lets the browser send Last-Event-ID on reconnect
     eventStream.on('event', (event) => {
-      reply.raw.write(`data: ${JSON.stringify(event)}\n\n`)
+      const idField = event.sequence !== undefined ? `id: ${event.sequence}\n` : ''
+      reply.raw.write(`${idField}data: ${JSON.stringify(event)}\n\n`)
+    })
+
+    // Tells the client whether the replay covered everything it missed
+    eventStream.on('replay_complete', (summary) => {
+      reply.raw.write(`data: ${JSON.stringify({
+        type: 'replay_complete',
+        conversation_id: conversationId,
+        ...summary,
+        timestamp: new Date().toISOString()
+      })}\n\n`)
     })
 
     // Clean up on client disconnect
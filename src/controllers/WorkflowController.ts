@@ -0,0 +1,1360 @@
+import { FastifyRequest, FastifyReply } from 'fastify'
+import { ConversationService } from '../services/ConversationService'
+import { WorkflowEngine } from '../workflows/WorkflowEngine'
+import { WorkflowScheduler } from '../workflows/WorkflowScheduler'
+import { WorkflowWebhookReceiver } from '../workflows/WorkflowWebhookReceiver'
+import { getWorkflowSchemas } from '../workflows/WorkflowSchemas'
+import { DIAGRAM_FORMATS, getStepStates, renderWorkflowDiagram } from '../workflows/WorkflowDiagram'
+import { ResourceBlueprintCatalog, ResourceBlueprintSchema } from '../workflows/ResourceBlueprints'
+import { Approver, WatsonError, WorkflowDefinition, WorkflowError, WorkflowExecution, WorkflowExecutionStatus, WorkflowSchemaError, WorkflowValidationError } from '../types'
+import { z } from 'zod'
+
+const ApprovalDecisionSchema = z.object({
+  comment: z.string().max(2000).optional()
+})
+
+const CreateScheduleSchema = z.object({
+  workflow_id: z.string().min(1),
+  workspace_id: z.string().min(1),
+  cron: z.string().min(1),
+  timezone: z.string().optional(),
+  input: z.record(z.any()).optional(),
+  missed_run_policy: z.enum(['skip', 'run_once', 'run_all']).optional()
+})
+
+const ListSchedulesSchema = z.object({
+  workspace_id: z.string().optional(),
+  workflow_id: z.string().optional(),
+  status: z.enum(['active', 'paused']).optional(),
+  upcoming: z.coerce.number().int().min(0).max(50).default(5)
+})
+
+const ListDeliveriesSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+})
+
+const EXECUTION_STATUSES: WorkflowExecutionStatus[] = [
+  'pending', 'running', 'waiting_approval', 'waiting_input', 'completed', 'failed', 'cancelled', 'timeout', 'interrupted'
+]
+
+const ListWorkflowsSchema = z.object({
+  tag: z.string().optional()
+})
+
+const SimulatedResponseSchema = z.object({
+  service: z.enum(['atlas', 'hermes', 'phoenix', 'neptune']).optional(),
+  tool: z.string().min(1),
+  result: z.any().optional(),
+  error: z.string().optional(),
+  effect: z.enum(['read', 'provision', 'change', 'delete']).optional()
+})
+
+const ExecuteWorkflowSchema = z.object({
+  input: z.record(z.any()).default({}),
+  priority: z.enum(['critical', 'high', 'normal', 'low']).optional(),
+  workspace_id: z.string().min(1).optional(),
+  conversation_id: z.string().min(1).optional(),
+  // Simulate instead of calling Atlas, Hermes, Phoenix and Neptune
+  dry_run: z.boolean().default(false),
+  simulated_responses: z.array(SimulatedResponseSchema).optional()
+})
+
+const ListExecutionsSchema = z.object({
+  // Comma-separated, e.g. `running,waiting_input`
+  status: z.string()
+    .transform(value => value.split(',').map(status => status.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(EXECUTION_STATUSES as [WorkflowExecutionStatus, ...WorkflowExecutionStatus[]])))
+    .optional(),
+  workspace_id: z.string().optional(),
+  workflow_id: z.string().optional(),
+  conversation_id: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0)
+})
+
+const ResumeExecutionSchema = z.object({
+  input: z.any().default({})
+})
+
+const DiagramQuerySchema = z.object({
+  format: z.enum(DIAGRAM_FORMATS).default('mermaid')
+})
+
+const BlueprintPreviewSchema = z.object({
+  technologies: z.array(z.string().min(1)).default([]),
+  provider: z.string().min(1).default('digitalocean'),
+  environment: z.string().min(1).default('development'),
+  tier: z.enum(['minimal', 'standard', 'performance']).default('standard')
+})
+
+interface WorkflowController {
+  workflowEngine: WorkflowEngine
+  workflowScheduler: WorkflowScheduler
+  webhookReceiver: WorkflowWebhookReceiver
+  blueprintCatalog: ResourceBlueprintCatalog
+}
+
+export function createWorkflowController(conversationService: ConversationService): WorkflowController {
+  return {
+    workflowEngine: conversationService.getWorkflowEngine(),
+    workflowScheduler: conversationService.getWorkflowScheduler(),
+    webhookReceiver: conversationService.getWebhookReceiver(),
+    blueprintCatalog: conversationService.getBlueprintCatalog()
+  }
+}
+
+export async function createWorkflowDefinition(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const body = request.body as any
+
+    // The caller's workspace owns the definition and the caller authors it
+    const caller = await callerFromRequest(request)
+    const workspaceId = caller?.workspace_id || body?.workspace_id
+    if (!caller || !workspaceId || (body?.workspace_id && body.workspace_id !== workspaceId) ||
+        !await callerInWorkspace(request, workspaceId)) {
+      reply.code(403).send({
+        success: false,
+        error: caller ? 'Cannot create workflows in another workspace' : 'Authentication required to create workflows'
+      })
+      return
+    }
+
+    // Ids are namespaced by workspace, so an id taken in another workspace
+    // neither collides nor shows up in a conflict
+    const workflowId = typeof body?.id === 'string' && !body.id.startsWith(`${workspaceId}.`)
+      ? `${workspaceId}.${body.id}`
+      : body?.id
+    if (workflowId && this.workflowEngine.getWorkflow(workflowId)) {
+      reply.code(409).send({
+        success: false,
+        error: `Workflow ${workflowId} already exists`
+      })
+      return
+    }
+
+    const workflow = await this.workflowEngine.saveWorkflowDefinition(
+      ownedDefinition({ ...body, id: workflowId }, workspaceId, caller.user_id)
+    )
+
+    reply.code(201).send({
+      success: true,
+      data: workflow
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to create workflow')
+  }
+}
+
+export async function updateWorkflowDefinition(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { workflowId } = request.params as { workflowId: string }
+    const body = request.body as any
+
+    const existing = this.workflowEngine.getWorkflow(workflowId)
+    if (!existing || !await callerCanSeeDefinition(request, existing)) {
+      reply.code(404).send({
+        success: false,
+        error: 'Workflow not found'
+      })
+      return
+    }
+
+    if (body?.id && body.id !== workflowId) {
+      reply.code(400).send({
+        success: false,
+        error: 'Workflow id in body does not match the URL'
+      })
+      return
+    }
+
+    if (this.workflowEngine.getWorkflowSource(workflowId) === 'built_in') {
+      throw new WorkflowError(`Built-in workflow ${workflowId} cannot be replaced`, workflowId)
+    }
+
+    if (!await callerCanEditDefinition(request, existing)) {
+      reply.code(403).send({
+        success: false,
+        error: 'Only the workflow author or a workspace admin can change it'
+      })
+      return
+    }
+
+    // Ownership stays with the original workspace and author
+    const workflow = await this.workflowEngine.saveWorkflowDefinition(
+      ownedDefinition({ ...body, id: workflowId }, existing.workspace_id!, existing.author)
+    )
+
+    reply.send({
+      success: true,
+      data: workflow
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to update workflow')
+  }
+}
+
+export async function deleteWorkflowDefinition(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { workflowId } = request.params as { workflowId: string }
+
+    const existing = this.workflowEngine.getWorkflow(workflowId)
+    if (!existing || !await callerCanSeeDefinition(request, existing)) {
+      reply.code(404).send({
+        success: false,
+        error: 'Workflow not found'
+      })
+      return
+    }
+
+    if (this.workflowEngine.getWorkflowSource(workflowId) !== 'built_in' && !await callerCanEditDefinition(request, existing)) {
+      reply.code(403).send({
+        success: false,
+        error: 'Only the workflow author or a workspace admin can delete it'
+      })
+      return
+    }
+
+    const deleted = await this.workflowEngine.deleteWorkflowDefinition(workflowId)
+    if (!deleted) {
+      reply.code(404).send({
+        success: false,
+        error: 'Workflow not found'
+      })
+      return
+    }
+
+    reply.code(204).send()
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to delete workflow')
+  }
+}
+
+export async function getWorkflowDefinitions(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const query = ListWorkflowsSchema.parse(request.query || {})
+
+    const caller = await callerFromRequest(request)
+    const allWorkspaces = await callerInWorkspace(request)
+    const workflows = this.workflowEngine.getAvailableWorkflows()
+      .filter(workflow => !workflow.workspace_id || allWorkspaces || workflow.workspace_id === caller?.workspace_id)
+      .filter(workflow => !query.tag || workflow.tags.includes(query.tag))
+      .map(workflow => ({
+        id: workflow.id,
+        name: workflow.name,
+        description: workflow.description,
+        version: workflow.version,
+        tags: workflow.tags,
+        workspace_id: workflow.workspace_id,
+        source: this.workflowEngine.getWorkflowSource(workflow.id),
+        trigger_types: Array.from(new Set(workflow.triggers.map(trigger => trigger.type))),
+        step_count: workflow.steps.length,
+        input_schema: workflow.input_schema,
+        updated_at: workflow.updated_at
+      }))
+
+    reply.send({
+      success: true,
+      data: {
+        workflows,
+        count: workflows.length
+      }
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to list workflows')
+  }
+}
+
+export async function getWorkflowDefinition(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { workflowId } = request.params as { workflowId: string }
+
+    const workflow = this.workflowEngine.getWorkflow(workflowId)
+    if (!workflow || !await callerCanSeeDefinition(request, workflow)) {
+      reply.code(404).send({
+        success: false,
+        error: 'Workflow not found'
+      })
+      return
+    }
+
+    reply.send({
+      success: true,
+      data: {
+        ...withoutTriggerSecrets(workflow),
+        source: this.workflowEngine.getWorkflowSource(workflow.id)
+      }
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to get workflow')
+  }
+}
+
+/**
+ * JSON Schemas for launching the workflow and answering its
+ * `wait_for_input` steps
+ */
+export async function getWorkflowDefinitionSchemas(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { workflowId } = request.params as { workflowId: string }
+
+    const workflow = this.workflowEngine.getWorkflow(workflowId)
+    if (!workflow || !await callerCanSeeDefinition(request, workflow)) {
+      reply.code(404).send({
+        success: false,
+        error: 'Workflow not found'
+      })
+      return
+    }
+
+    reply.send({
+      success: true,
+      data: getWorkflowSchemas(workflow)
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to get workflow schemas')
+  }
+}
+
+/**
+ * Start a workflow directly, outside of a conversation. The caller's token
+ * supplies the user and, unless the body names one, the workspace. Input
+ * that does not match the workflow's `input_schema` is a 400 with field errors.
+ */
+export async function executeWorkflow(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { workflowId } = request.params as { workflowId: string }
+    const body = ExecuteWorkflowSchema.parse(request.body || {})
+
+    const workflow = this.workflowEngine.getWorkflow(workflowId)
+    if (!workflow || !await callerCanSeeDefinition(request, workflow)) {
+      reply.code(404).send({
+        success: false,
+        error: 'Workflow not found'
+      })
+      return
+    }
+
+    const caller = await callerFromRequest(request)
+    const workspaceId = body.workspace_id || caller?.workspace_id
+    if (!await callerInWorkspace(request, workspaceId)) {
+      reply.code(403).send({
+        success: false,
+        error: 'Cannot start workflows in another workspace'
+      })
+      return
+    }
+
+    const execution = await this.workflowEngine.startWorkflow(workflow.id, {
+      ...body.input,
+      user_id: caller?.user_id,
+      workspace_id: workspaceId,
+      conversation_id: body.conversation_id,
+      trigger: { type: 'api', user_id: caller?.user_id }
+    }, { priority: body.priority, dryRun: body.dry_run, simulatedResponses: body.simulated_responses })
+
+    reply.code(202).send({
+      success: true,
+      data: execution
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to start workflow')
+  }
+}
+
+export async function getWorkflowExecutions(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const query = ListExecutionsSchema.parse(request.query || {})
+
+    const caller = await callerFromRequest(request)
+    const workspaceId = query.workspace_id || caller?.workspace_id
+    if (!await callerInWorkspace(request, workspaceId)) {
+      reply.code(403).send({
+        success: false,
+        error: 'Cannot list executions of another workspace'
+      })
+      return
+    }
+
+    const filter = {
+      statuses: query.status,
+      workspace_id: workspaceId,
+      workflow_id: query.workflow_id,
+      conversation_id: query.conversation_id
+    }
+    const [executions, total] = await Promise.all([
+      this.workflowEngine.listExecutions({ ...filter, limit: query.limit, offset: query.offset }),
+      this.workflowEngine.countExecutions(filter)
+    ])
+
+    reply.send({
+      success: true,
+      data: {
+        executions: executions.map(summarizeExecution),
+        pagination: {
+          total,
+          limit: query.limit,
+          offset: query.offset,
+          has_more: query.offset + query.limit < total
+        }
+      }
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to list workflow executions')
+  }
+}
+
+/**
+ * Running and pending executions against the concurrency limits. Callers
+ * bound to a workspace only see their own queue entries.
+ */
+export async function getWorkflowQueue(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const caller = await callerFromRequest(request)
+    const workspaceId = caller?.workspace_id
+    if (!workspaceId && !await callerInWorkspace(request)) {
+      reply.code(403).send({
+        success: false,
+        error: 'Workspace required'
+      })
+      return
+    }
+
+    const status = await this.workflowEngine.getQueueStatus()
+
+    reply.send({
+      success: true,
+      data: workspaceId
+        ? {
+            ...status,
+            running_by_workspace: { [workspaceId]: status.running_by_workspace[workspaceId] || 0 },
+            pending: status.pending.filter(entry => entry.workspace_id === workspaceId)
+          }
+        : status
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to get workflow queue')
+  }
+}
+
+export async function getWorkflowExecution(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { executionId } = request.params as { executionId: string }
+
+    const execution = await this.workflowEngine.loadExecution(executionId)
+    if (!execution || !await callerCanAccess(request, execution)) {
+      reply.code(404).send({
+        success: false,
+        error: 'Workflow execution not found'
+      })
+      return
+    }
+
+    reply.send({
+      success: true,
+      data: execution
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to get workflow execution')
+  }
+}
+
+/**
+ * What a dry run would have provisioned, changed or deleted, and its cost
+ */
+export async function getWorkflowExecutionSimulation(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { executionId } = request.params as { executionId: string }
+
+    const execution = await this.workflowEngine.loadExecution(executionId)
+    if (!execution || !await callerCanAccess(request, execution)) {
+      reply.code(404).send({
+        success: false,
+        error: 'Workflow execution not found'
+      })
+      return
+    }
+
+    if (!execution.dry_run || !execution.simulation) {
+      reply.code(404).send({
+        success: false,
+        error: 'Workflow execution is not a dry run'
+      })
+      return
+    }
+
+    reply.send({
+      success: true,
+      data: {
+        execution_id: execution.id,
+        workflow_id: execution.workflow_id,
+        status: execution.status,
+        ...execution.simulation.report
+      }
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to get workflow execution simulation')
+  }
+}
+
+export async function cancelWorkflowExecution(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { executionId } = request.params as { executionId: string }
+
+    const execution = await this.workflowEngine.loadExecution(executionId)
+    if (!execution || !await callerCanAccess(request, execution)) {
+      reply.code(404).send({
+        success: false,
+        error: 'Workflow execution not found'
+      })
+      return
+    }
+
+    if (!await this.workflowEngine.cancelExecution(executionId)) {
+      reply.code(409).send({
+        success: false,
+        error: ['running', 'waiting_input', 'waiting_approval'].includes(execution.status)
+          ? 'Workflow execution is running on another instance'
+          : `Workflow execution is already ${execution.status}`
+      })
+      return
+    }
+
+    reply.send({
+      success: true,
+      data: await this.workflowEngine.loadExecution(executionId)
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to cancel workflow execution')
+  }
+}
+
+/**
+ * Answer the `wait_for_input` step an execution is paused on
+ */
+export async function resumeWorkflowExecution(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { executionId } = request.params as { executionId: string }
+    const body = ResumeExecutionSchema.parse(request.body || {})
+
+    const execution = await this.workflowEngine.loadExecution(executionId)
+    if (!execution || !await callerCanAccess(request, execution)) {
+      reply.code(404).send({
+        success: false,
+        error: 'Workflow execution not found'
+      })
+      return
+    }
+
+    if (!await this.workflowEngine.resumeExecution(executionId, body.input)) {
+      reply.code(409).send({
+        success: false,
+        error: execution.status === 'waiting_input'
+          ? 'Workflow execution is being resumed elsewhere'
+          : `Workflow execution is ${execution.status}, not waiting for input`
+      })
+      return
+    }
+
+    reply.send({
+      success: true,
+      data: await this.workflowEngine.loadExecution(executionId)
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to resume workflow execution')
+  }
+}
+
+export async function approveWorkflowExecution(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  await decideWorkflowApproval.call(this, request, reply, 'approved')
+}
+
+export async function rejectWorkflowExecution(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  await decideWorkflowApproval.call(this, request, reply, 'rejected')
+}
+
+export async function getWorkflowExecutionApprovals(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { executionId } = request.params as { executionId: string }
+
+    const execution = await this.workflowEngine.loadExecution(executionId)
+    if (!execution || !await callerCanAccess(request, execution)) {
+      reply.code(404).send({
+        success: false,
+        error: 'Workflow execution not found'
+      })
+      return
+    }
+
+    reply.send({
+      success: true,
+      data: {
+        execution_id: execution.id,
+        status: execution.status,
+        pending: execution.status === 'waiting_approval' ? execution.outputs['approval_request'] : null,
+        approvals: execution.approvals || []
+      }
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to get approvals')
+  }
+}
+
+/**
+ * The execution with its sub-workflow children; a child's node links back
+ * to its parent
+ */
+export async function getWorkflowExecutionTree(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { executionId } = request.params as { executionId: string }
+
+    // Children run in their parent's workspace, so the root decides access
+    const execution = await this.workflowEngine.loadExecution(executionId)
+    const tree = execution && await callerCanAccess(request, execution)
+      ? await this.workflowEngine.getExecutionTree(executionId)
+      : undefined
+    if (!tree) {
+      reply.code(404).send({
+        success: false,
+        error: 'Workflow execution not found'
+      })
+      return
+    }
+
+    reply.send({
+      success: true,
+      data: tree
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to get execution tree')
+  }
+}
+
+export async function getWorkflowDiagram(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { workflowId } = request.params as { workflowId: string }
+    const { format } = DiagramQuerySchema.parse(request.query || {})
+
+    const workflow = this.workflowEngine.getWorkflow(workflowId)
+    if (!workflow || !await callerCanSeeDefinition(request, workflow)) {
+      reply.code(404).send({
+        success: false,
+        error: 'Workflow not found'
+      })
+      return
+    }
+
+    reply.send({
+      success: true,
+      data: {
+        workflow_id: workflow.id,
+        format,
+        diagram: renderWorkflowDiagram(format, workflow)
+      }
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to render workflow diagram')
+  }
+}
+
+export async function getWorkflowExecutionDiagram(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { executionId } = request.params as { executionId: string }
+    const { format } = DiagramQuerySchema.parse(request.query || {})
+
+    const execution = await this.workflowEngine.loadExecution(executionId)
+    if (!execution || !await callerCanAccess(request, execution)) {
+      reply.code(404).send({
+        success: false,
+        error: 'Workflow execution not found'
+      })
+      return
+    }
+
+    const workflow = this.workflowEngine.getWorkflow(execution.workflow_id)
+    if (!workflow) {
+      reply.code(404).send({
+        success: false,
+        error: `Workflow ${execution.workflow_id} is no longer defined`
+      })
+      return
+    }
+
+    reply.send({
+      success: true,
+      data: {
+        workflow_id: workflow.id,
+        execution_id: execution.id,
+        status: execution.status,
+        steps: getStepStates(workflow, execution),
+        format,
+        diagram: renderWorkflowDiagram(format, workflow, execution)
+      }
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to render execution diagram')
+  }
+}
+
+async function decideWorkflowApproval(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  decision: 'approved' | 'rejected'
+) {
+  try {
+    const { executionId } = request.params as { executionId: string }
+    const body = ApprovalDecisionSchema.parse(request.body || {})
+
+    const approver = await callerFromRequest(request)
+    if (!approver) {
+      reply.code(401).send({
+        success: false,
+        error: 'Approver identity required'
+      })
+      return
+    }
+
+    const execution = decision === 'approved'
+      ? await this.workflowEngine.approveExecution(executionId, approver, body.comment)
+      : await this.workflowEngine.rejectExecution(executionId, approver, body.comment)
+
+    reply.send({
+      success: true,
+      data: {
+        execution_id: execution.id,
+        status: execution.status,
+        approval: execution.approvals?.[execution.approvals.length - 1]
+      }
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, `Failed to record ${decision === 'approved' ? 'approval' : 'rejection'}`)
+  }
+}
+
+export async function createWorkflowSchedule(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const body = CreateScheduleSchema.parse(request.body)
+    if (!await callerInWorkspace(request, body.workspace_id)) {
+      reply.code(403).send({
+        success: false,
+        error: 'Cannot schedule workflows in another workspace'
+      })
+      return
+    }
+
+    const workflow = this.workflowEngine.getWorkflow(body.workflow_id)
+    if (workflow?.workspace_id && workflow.workspace_id !== body.workspace_id) {
+      reply.code(404).send({
+        success: false,
+        error: 'Workflow not found'
+      })
+      return
+    }
+
+    // Scheduled runs act as whoever created the schedule
+    const caller = await callerFromRequest(request)
+    const schedule = await this.workflowScheduler.createSchedule({ ...body, user_id: caller?.user_id })
+
+    reply.code(201).send({
+      success: true,
+      data: {
+        ...schedule,
+        upcoming_runs: this.workflowScheduler.getUpcomingRuns(schedule, 5)
+      }
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to create schedule')
+  }
+}
+
+export async function getWorkflowSchedules(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { upcoming, ...filter } = ListSchedulesSchema.parse(request.query)
+
+    const caller = await callerFromRequest(request)
+    if (!caller?.workspace_id && !await callerInWorkspace(request, filter.workspace_id)) {
+      reply.code(403).send({
+        success: false,
+        error: 'Workspace required'
+      })
+      return
+    }
+    if (caller?.workspace_id) {
+      if (filter.workspace_id && filter.workspace_id !== caller.workspace_id) {
+        reply.code(403).send({
+          success: false,
+          error: 'Cannot list schedules of another workspace'
+        })
+        return
+      }
+      filter.workspace_id = caller.workspace_id
+    }
+
+    const schedules = await this.workflowScheduler.listSchedules(filter)
+
+    reply.send({
+      success: true,
+      data: schedules.map(schedule => ({
+        ...schedule,
+        upcoming_runs: this.workflowScheduler.getUpcomingRuns(schedule, upcoming)
+      })),
+      count: schedules.length
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to list schedules')
+  }
+}
+
+export async function getWorkflowSchedule(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { scheduleId } = request.params as { scheduleId: string }
+
+    const schedule = await this.workflowScheduler.getSchedule(scheduleId)
+    if (!schedule || !await callerInWorkspace(request, schedule.workspace_id)) {
+      reply.code(404).send({
+        success: false,
+        error: 'Schedule not found'
+      })
+      return
+    }
+
+    reply.send({
+      success: true,
+      data: {
+        ...schedule,
+        upcoming_runs: this.workflowScheduler.getUpcomingRuns(schedule, 5)
+      }
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to get schedule')
+  }
+}
+
+export async function deleteWorkflowSchedule(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { scheduleId } = request.params as { scheduleId: string }
+
+    const schedule = await this.workflowScheduler.getSchedule(scheduleId)
+    if (!schedule || !await callerInWorkspace(request, schedule.workspace_id) ||
+        !await this.workflowScheduler.deleteSchedule(scheduleId)) {
+      reply.code(404).send({
+        success: false,
+        error: 'Schedule not found'
+      })
+      return
+    }
+
+    reply.code(204).send()
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to delete schedule')
+  }
+}
+
+export async function pauseWorkflowSchedule(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  await setWorkflowScheduleStatus.call(this, request, reply, 'paused')
+}
+
+export async function resumeWorkflowSchedule(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  await setWorkflowScheduleStatus.call(this, request, reply, 'active')
+}
+
+async function setWorkflowScheduleStatus(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  status: 'active' | 'paused'
+) {
+  try {
+    const { scheduleId } = request.params as { scheduleId: string }
+
+    const existing = await this.workflowScheduler.getSchedule(scheduleId)
+    if (!existing || !await callerInWorkspace(request, existing.workspace_id)) {
+      reply.code(404).send({
+        success: false,
+        error: 'Schedule not found'
+      })
+      return
+    }
+
+    const schedule = status === 'paused'
+      ? await this.workflowScheduler.pauseSchedule(scheduleId)
+      : await this.workflowScheduler.resumeSchedule(scheduleId)
+
+    if (!schedule) {
+      reply.code(404).send({
+        success: false,
+        error: 'Schedule not found'
+      })
+      return
+    }
+
+    reply.send({
+      success: true,
+      data: {
+        ...schedule,
+        upcoming_runs: this.workflowScheduler.getUpcomingRuns(schedule, 5)
+      }
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, `Failed to ${status === 'paused' ? 'pause' : 'resume'} schedule`)
+  }
+}
+
+/**
+ * Public endpoint for webhook triggers. Expects the raw request body as a
+ * string so the signature can be checked over the exact bytes sent.
+ */
+export async function receiveWorkflowWebhook(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { triggerId } = request.params as { triggerId: string }
+
+    const delivery = await this.webhookReceiver.receive({
+      triggerId,
+      rawBody: typeof request.body === 'string' ? request.body : '',
+      headers: request.headers,
+      query: request.query as Record<string, any>,
+      log: request.log
+    })
+
+    reply.code(delivery.status_code).send({
+      success: delivery.status === 'accepted' || delivery.status === 'ignored' || delivery.status === 'duplicate',
+      data: {
+        delivery_id: delivery.id,
+        status: delivery.status,
+        execution_id: delivery.execution_id
+      },
+      error: delivery.error
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to process webhook')
+  }
+}
+
+export async function getWebhookTriggers(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const caller = await callerFromRequest(request)
+    const allWorkspaces = await callerInWorkspace(request)
+    const triggers = this.webhookReceiver.listTriggers()
+      .filter(trigger => allWorkspaces || trigger.workspace_id === caller?.workspace_id)
+
+    reply.send({
+      success: true,
+      data: triggers,
+      count: triggers.length
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to list webhook triggers')
+  }
+}
+
+export async function getWebhookDeliveries(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { triggerId } = request.params as { triggerId: string }
+    const { limit } = ListDeliveriesSchema.parse(request.query)
+
+    const binding = this.workflowEngine.findWebhookTrigger(triggerId)
+    if (!binding || !await callerInWorkspace(request, binding.trigger.config.workspace_id)) {
+      reply.code(404).send({
+        success: false,
+        error: 'Webhook trigger not found'
+      })
+      return
+    }
+
+    const deliveries = await this.webhookReceiver.getDeliveries(triggerId, limit)
+
+    reply.send({
+      success: true,
+      data: deliveries,
+      count: deliveries.length
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to get webhook deliveries')
+  }
+}
+
+export async function getWorkspaceBlueprints(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { workspaceId } = request.params as { workspaceId: string }
+    if (!await callerInWorkspace(request, workspaceId)) {
+      reply.code(403).send({ success: false, error: 'Blueprints belong to another workspace' })
+      return
+    }
+
+    const blueprints = await this.blueprintCatalog.list(workspaceId)
+
+    reply.send({
+      success: true,
+      data: blueprints,
+      count: blueprints.length
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to list resource blueprints')
+  }
+}
+
+export async function saveWorkspaceBlueprint(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { workspaceId, blueprintId } = request.params as { workspaceId: string; blueprintId: string }
+    if (!await callerIsWorkspaceAdmin(request, workspaceId)) {
+      reply.code(403).send({ success: false, error: 'Only workspace admins can change resource blueprints' })
+      return
+    }
+
+    // The URL names the blueprint
+    const body = ResourceBlueprintSchema.omit({ id: true }).parse(request.body || {})
+    const blueprint = await this.blueprintCatalog.save(workspaceId, { ...body, id: blueprintId })
+
+    reply.send({
+      success: true,
+      data: blueprint
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to save resource blueprint')
+  }
+}
+
+export async function deleteWorkspaceBlueprint(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { workspaceId, blueprintId } = request.params as { workspaceId: string; blueprintId: string }
+    if (!await callerIsWorkspaceAdmin(request, workspaceId)) {
+      reply.code(403).send({ success: false, error: 'Only workspace admins can change resource blueprints' })
+      return
+    }
+
+    if (!await this.blueprintCatalog.delete(workspaceId, blueprintId)) {
+      reply.code(404).send({
+        success: false,
+        error: 'Workspace blueprint not found'
+      })
+      return
+    }
+
+    reply.send({
+      success: true,
+      message: `Blueprint ${blueprintId} deleted`
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to delete resource blueprint')
+  }
+}
+
+/**
+ * The resources a stack would get in this workspace, without creating anything
+ */
+export async function previewWorkspaceBlueprints(
+  this: WorkflowController,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const { workspaceId } = request.params as { workspaceId: string }
+    if (!await callerInWorkspace(request, workspaceId)) {
+      reply.code(403).send({ success: false, error: 'Blueprints belong to another workspace' })
+      return
+    }
+
+    const body = BlueprintPreviewSchema.parse(request.body || {})
+    const plan = await this.blueprintCatalog.resolve(workspaceId, body)
+
+    reply.send({
+      success: true,
+      data: plan
+    })
+  } catch (error) {
+    sendWorkflowError(request, reply, error, 'Failed to preview resource blueprints')
+  }
+}
+
+/**
+ * Resolve the approver from JWT claims - Auth tokens carry either
+ * `{ user: { userId, workspaceId } }` or flat `user_id`/`sub` claims
+ */
+export function approverFromClaims(claims: any): Approver | null {
+  const user = claims?.user || claims
+  const userId = user?.userId || user?.user_id || user?.sub
+  if (!userId) return null
+
+  return {
+    user_id: String(userId),
+    email: user.email,
+    workspace_id: user.workspaceId || user.workspace_id
+  }
+}
+
+async function callerFromRequest(request: FastifyRequest): Promise<Approver | null> {
+  return approverFromClaims((request as any).user || await request.jwtVerify().catch(() => null))
+}
+
+/**
+ * A caller reaches its token's workspace only. Tokens without a workspace
+ * reach every workspace when they carry a `service` or `admin` role or
+ * scope, and none otherwise. Without `workspaceId` the question is whether
+ * the caller may act across all workspaces.
+ */
+async function callerInWorkspace(request: FastifyRequest, workspaceId?: string): Promise<boolean> {
+  const caller = await callerFromRequest(request)
+  if (caller?.workspace_id) return caller.workspace_id === workspaceId
+  return callerIsCrossWorkspace(request)
+}
+
+async function callerIsCrossWorkspace(request: FastifyRequest): Promise<boolean> {
+  const claims = (request as any).user || await request.jwtVerify().catch(() => null)
+  const caller = approverFromClaims(claims)
+  if (!caller || caller.workspace_id) return false
+
+  const user = claims?.user || claims
+  const scopes = typeof user?.scope === 'string' ? user.scope.split(' ') : user?.scope
+  const roles = [user?.role, user?.roles, scopes].flat().filter(Boolean)
+  return roles.includes('service') || roles.includes('admin')
+}
+
+/**
+ * Workspace admins carry `admin` in their `role`, `roles` or `workspace_role` claim
+ */
+async function callerIsWorkspaceAdmin(request: FastifyRequest, workspaceId: string): Promise<boolean> {
+  const claims = (request as any).user || await request.jwtVerify().catch(() => null)
+  const caller = approverFromClaims(claims)
+  if (!caller || caller.workspace_id !== workspaceId) return false
+
+  const user = claims?.user || claims
+  const roles = [user?.role, user?.roles, user?.workspace_role, user?.workspaceRole].flat().filter(Boolean)
+  return roles.includes('admin')
+}
+
+/**
+ * Shared definitions are visible to everyone, authored ones to their workspace
+ */
+async function callerCanSeeDefinition(request: FastifyRequest, workflow: WorkflowDefinition): Promise<boolean> {
+  return !workflow.workspace_id || callerInWorkspace(request, workflow.workspace_id)
+}
+
+/**
+ * Authored definitions can be changed by their author and the workspace's
+ * admins. Shared ones only change with a deploy of the definitions directory.
+ */
+async function callerCanEditDefinition(request: FastifyRequest, workflow: WorkflowDefinition): Promise<boolean> {
+  if (!workflow.workspace_id) return false
+
+  const caller = await callerFromRequest(request)
+  if (caller?.workspace_id === workflow.workspace_id && caller.user_id === workflow.author) return true
+  return callerIsWorkspaceAdmin(request, workflow.workspace_id)
+}
+
+/**
+ * An API-saved definition under its owner. Schedule and webhook triggers
+ * start runs as the author, whatever user the body names.
+ */
+function ownedDefinition(body: any, workspaceId: string, author?: string) {
+  return {
+    ...body,
+    workspace_id: workspaceId,
+    author,
+    triggers: Array.isArray(body?.triggers)
+      ? body.triggers.map((trigger: any) => ['schedule', 'webhook'].includes(trigger?.type)
+        ? { ...trigger, config: { ...trigger.config, user_id: author } }
+        : trigger)
+      : body?.triggers
+  }
+}
+
+/**
+ * Executions are only visible to callers from their workspace. One without
+ * a workspace is visible to the user who started it.
+ */
+async function callerCanAccess(request: FastifyRequest, execution: WorkflowExecution): Promise<boolean> {
+  if (execution.context.workspace_id) return callerInWorkspace(request, execution.context.workspace_id)
+
+  const caller = await callerFromRequest(request)
+  return (!!caller && caller.user_id === execution.context.user_id) || callerIsCrossWorkspace(request)
+}
+
+/**
+ * Definitions are readable by any workspace member; webhook signing
+ * secrets are not
+ */
+function withoutTriggerSecrets(workflow: WorkflowDefinition): WorkflowDefinition {
+  return {
+    ...workflow,
+    triggers: workflow.triggers.map(trigger => {
+      if (trigger.type !== 'webhook' || !trigger.config?.secret) return trigger
+      const { secret, ...config } = trigger.config
+      return { ...trigger, config }
+    })
+  }
+}
+
+function summarizeExecution(execution: WorkflowExecution) {
+  return {
+    id: execution.id,
+    workflow_id: execution.workflow_id,
+    conversation_id: execution.conversation_id,
+    workspace_id: execution.context.workspace_id,
+    status: execution.status,
+    dry_run: execution.dry_run || false,
+    parent_execution_id: execution.parent_execution_id,
+    progress: execution.progress,
+    error_message: execution.error_message,
+    started_at: execution.started_at,
+    completed_at: execution.completed_at,
+    duration_ms: execution.duration_ms
+  }
+}
+
+function sendWorkflowError(request: FastifyRequest, reply: FastifyReply, error: unknown, fallback: string) {
+  if (error instanceof WorkflowValidationError) {
+    reply.code(400).send({
+      success: false,
+      error: 'Validation error',
+      details: error.errors,
+      ...(error instanceof WorkflowSchemaError && { fields: error.fields })
+    })
+  } else if (error instanceof z.ZodError) {
+    reply.code(400).send({
+      success: false,
+      error: 'Validation error',
+      details: error.errors
+    })
+  } else if (error instanceof WorkflowError) {
+    reply.code(409).send({
+      success: false,
+      error: error.message
+    })
+  } else if (error instanceof WatsonError && error.statusCode < 500) {
+    reply.code(error.statusCode).send({
+      success: false,
+      error: error.message,
+      code: error.code
+    })
+  } else {
+    request.log.error(error, fallback)
+    reply.code(500).send({
+      success: false,
+      error: fallback
+    })
+  }
+}
@@ -5,6 +5,7 @@ import jwt from '@fastify/jwt'
 import dotenv from 'dotenv'
 import { registerRoutes } from './routes'
 import { WatsonConfig } from './types'
+import { closeRedisClients } from './stores'
 
 dotenv.config()
 
@@ -21,11 +22,18 @@ const config: WatsonConfig = {
   phoenix_url: process.env.PHOENIX_URL,
   sherlock_url: process.env.SHERLOCK_URL,
   
+  redis_url: process.env.REDIS_URL,
+  redis_key_prefix: process.env.REDIS_KEY_PREFIX || 'watson',
+  
   openai_api_key: process.env.OPENAI_API_KEY,
   enable_ai_assistance: process.env.ENABLE_AI_ASSISTANCE === 'true',
   
   max_concurrent_workflows: parseInt(process.env.MAX_CONCURRENT_WORKFLOWS || '10'),
+  max_concurrent_workflows_per_workspace: parseInt(process.env.MAX_CONCURRENT_WORKFLOWS_PER_WORKSPACE || '5'),
   workflow_timeout_minutes: parseInt(process.env.WORKFLOW_TIMEOUT_MINUTES || '30'),
+  max_parallel_steps: parseInt(process.env.MAX_PARALLEL_STEPS || '4'),
+  workflow_definitions_dir: process.env.WORKFLOW_DEFINITIONS_DIR,
+  simulation_responses_file: process.env.SIMULATION_RESPONSES_FILE,
   
   enable_websockets: process.env.ENABLE_WEBSOCKETS !== 'false',
   websocket_heartbeat_interval: parseInt(process.env.WEBSOCKET_HEARTBEAT_INTERVAL || '30000'),
@@ -70,7 +78,7 @@ async function start() {
 
     server.addHook('preHandler', async (request, reply) => {
       const publicPaths = ['/health', '/ws', '/test']
-      const publicPrefixes = ['/api/v1/deploy', '/api/v1/unified']
+      const publicPrefixes = ['/api/v1/deploy', '/api/v1/unified', '/api/v1/hooks']
       const requestPath = request.routeOptions.url || ''
       
       if (publicPaths.includes(requestPath) || publicPrefixes.some(prefix => requestPath.startsWith(prefix))) {
@@ -119,9 +127,10 @@ async function start() {
     server.log.info('Configuration:')
     server.log.info(`- Context Manager: ${config.context_manager_url}`)
     server.log.info(`- Atlas: ${config.atlas_url}`)
+    server.log.info(`- Persistence: ${config.redis_url ? 'redis' : 'in-memory'}`)
     server.log.info(`- WebSockets: ${config.enable_websockets ? 'enabled' : 'disabled'}`)
     server.log.info(`- AI Assistant: ${config.enable_ai_assistance ? 'enabled' : 'disabled'}`)
-    server.log.info(`- Max Concurrent Workflows: ${config.max_concurrent_workflows}`)
+    server.log.info(`- Max Concurrent Workflows: ${config.max_concurrent_workflows} (${config.max_concurrent_workflows_per_workspace} per workspace)`)
 
   } catch (error) {
     server.log.error(error, 'Failed to start Watson server')
@@ -133,6 +142,7 @@ process.on('SIGINT', async () => {
   server.log.info('Received SIGINT, gracefully shutting down...')
   try {
     await server.close()
+    await closeRedisClients()
     process.exit(0)
   } catch (error) {
     server.log.error(error, 'Error during graceful shutdown')
@@ -144,6 +154,7 @@ process.on('SIGTERM', async () => {
   server.log.info('Received SIGTERM, gracefully shutting down...')
   try {
     await server.close()
+    await closeRedisClients()
     process.exit(0)
   } catch (error) {
     server.log.error(error, 'Error during graceful shutdown')
@@ -1,10 +1,28 @@
 import * as natural from 'natural'
 import nlp from 'compromise'
 import { Intent, Entity, IntentType, EntityType, IntentParsingError } from '../types'
+import { IntentClassifier } from './IntentClassifier'
+
+// Below this the classifier is unsure and the regex patterns decide
+const CLASSIFIER_MIN_CONFIDENCE = 0.7
+
+// Parsed intents at or above this confidence are acted on without the LLM
+export const INTENT_ROUTING_CONFIDENCE = 0.9
+
+// The classifier posterior is overconfident and the patterns alone misfire on
+// loose matches, so an intent only one of them picks stays under the routing
+// threshold. Run `npm run eval:intents` for the precision of routed intents.
+const UNCONFIRMED_MAX_CONFIDENCE = 0.85
+
+export interface ConversationParserOptions {
+  // Defaults to one trained on the shipped corpus; null uses only the patterns
+  classifier?: IntentClassifier | null
+}
 
 export class ConversationParser {
   private stemmer: any
   private tokenizer: any
+  private classifier: IntentClassifier | null
   
   // Intent patterns and keywords
   private intentPatterns: Record<IntentType, RegExp[]> = {
@@ -85,6 +103,24 @@ export class ConversationParser {
       /(?:safe|protected|compliant)/i
     ],
     
+    manage_dns: [
+      /(?:add|create|update|change|point|set\s+up)\s+(?:an?\s+|the\s+|my\s+)?(?:a|aaaa|cname|mx|txt|ns)?\s*(?:dns\s+)?records?/i,
+      /(?:point|map)\s+(?:my\s+)?(?:domain\s+)?(\S+\.\w{2,})\s+(?:to|at)/i,
+      /(?:manage|configure)\s+(?:my\s+)?(?:dns|domain)/i
+    ],
+
+    verify_dns: [
+      /(?:has|is)\s+(?:the\s+|my\s+)?dns\s+(?:propagated|updated|working|resolving)/i,
+      /(?:check|verify|test)\s+(?:the\s+|my\s+)?(?:dns|propagation)/i,
+      /dns\s+propagation/i
+    ],
+
+    setup_ssl_dns: [
+      /(?:ssl|tls|https)\s+(?:dns\s+)?(?:validation|verification|challenge)/i,
+      /(?:set\s+up|setup|enable|add|configure)\s+(?:an?\s+)?(?:ssl|tls|https)(?:\s+certificate)?/i,
+      /dns-01|acme\s+challenge/i
+    ],
+
     general_question: [
       /(?:what\s+is|how\s+(?:does|do)|can\s+(?:you|i)|tell\s+me)/i,
       /(?:explain|help|information|about)/i,
@@ -155,9 +191,10 @@ export class ConversationParser {
     ]
   }
 
-  constructor() {
+  constructor(options: ConversationParserOptions = {}) {
     this.stemmer = natural.PorterStemmer
     this.tokenizer = new natural.WordTokenizer()
+    this.classifier = options.classifier === undefined ? new IntentClassifier() : options.classifier
   }
 
   /**
@@ -187,17 +224,48 @@ export class ConversationParser {
   }
 
   /**
-   * Extract intent from input
+   * Extract intent from input - the trained classifier when it is confident,
+   * otherwise the patterns. Only when the classifier and the patterns pick
+   * the same intent can it reach INTENT_ROUTING_CONFIDENCE.
    */
   private extractIntent(input: string): Intent {
+    const matched = this.extractIntentByPatterns(input)
+    if (!this.classifier) {
+      return matched
+    }
+
+    const classified = this.classifier.classify(input)
+    if (classified.confidence < CLASSIFIER_MIN_CONFIDENCE) {
+      return { ...matched, confidence: Math.min(matched.confidence, UNCONFIRMED_MAX_CONFIDENCE) }
+    }
+
+    if (matched.name === classified.intent) {
+      return { ...matched, confidence: Math.max(classified.confidence, matched.confidence) }
+    }
+
+    // Another intent's patterns match better; take parameters from this one's
+    const own = this.extractIntentByPatterns(input, classified.intent)
+    return {
+      name: classified.intent,
+      confidence: Math.min(classified.confidence, UNCONFIRMED_MAX_CONFIDENCE),
+      parameters: own.name === classified.intent ? own.parameters : {}
+    }
+  }
+
+  /**
+   * Extract intent with the regex patterns, optionally only those of one intent
+   */
+  private extractIntentByPatterns(input: string, only?: IntentType): Intent {
     let bestMatch: { intent: IntentType; confidence: number; parameters: any } = {
       intent: 'unknown',
       confidence: 0,
       parameters: {}
     }
+    let runnerUp = 0 // Best confidence of any other intent
 
     for (const [intentType, patterns] of Object.entries(this.intentPatterns)) {
       const intent = intentType as IntentType
+      if (only && intent !== only) continue
       
       for (const pattern of patterns) {
         const match = input.match(pattern)
@@ -217,12 +285,20 @@ export class ConversationParser {
           }
           
           if (confidence > bestMatch.confidence) {
+            if (intent !== bestMatch.intent) runnerUp = Math.max(runnerUp, bestMatch.confidence)
             bestMatch = { intent, confidence: Math.min(confidence, 1.0), parameters }
+          } else if (intent !== bestMatch.intent) {
+            runnerUp = Math.max(runnerUp, confidence)
           }
         }
       }
     }
 
+    // Patterns of another intent matching too make the message ambiguous
+    if (runnerUp > 0 && bestMatch.intent !== 'greeting') {
+      bestMatch.confidence -= runnerUp / 2
+    }
+
     // Special handling for greetings (should have high confidence if matched)
     if (bestMatch.intent === 'greeting') {
       bestMatch.confidence = 0.95
@@ -262,6 +338,9 @@ export class ConversationParser {
       get_recommendations: ['recommend', 'suggest', 'advice', 'best', 'optimize'],
       manage_costs: ['reduce', 'save', 'cheaper', 'optimization', 'budget'],
       security_review: ['security', 'secure', 'safe', 'vulnerability', 'audit'],
+      manage_dns: ['dns', 'record', 'cname', 'domain', 'point'],
+      verify_dns: ['propagation', 'propagated', 'resolve', 'nameserver', 'dig'],
+      setup_ssl_dns: ['ssl', 'tls', 'https', 'certificate', 'letsencrypt'],
       general_question: ['what', 'how', 'why', 'when', 'question', 'help'],
       greeting: ['hello', 'hi', 'hey', 'good'],
       unknown: []
@@ -0,0 +1,64 @@
+import * as natural from 'natural'
+import { IntentType } from '../types'
+import corpus from './intent-corpus.json'
+
+/**
+ * Naive Bayes intent classifier trained from the labeled corpus in
+ * `intent-corpus.json`. Bump the corpus `version` whenever examples change,
+ * and run `npm run eval:intents` before and after to compare.
+ */
+
+export interface LabeledUtterance {
+  text: string
+  intent: IntentType
+}
+
+export interface IntentCorpus {
+  version: number
+  examples: LabeledUtterance[]
+}
+
+export interface IntentClassification {
+  intent: IntentType
+  confidence: number // Posterior probability among the trained intents
+  scores: Array<{ intent: IntentType; confidence: number }>
+}
+
+export const INTENT_CORPUS = corpus as IntentCorpus
+
+// Weight of a word never seen with an intent. natural's default of 1 counts
+// it as if seen once, which flattens every prediction on a small corpus.
+const UNSEEN_WORD_SMOOTHING = 0.1
+
+export class IntentClassifier {
+  readonly corpusVersion: number
+  private classifier: natural.BayesClassifier
+
+  constructor(trainingCorpus: IntentCorpus = INTENT_CORPUS) {
+    this.corpusVersion = trainingCorpus.version
+    this.classifier = new natural.BayesClassifier(natural.PorterStemmer, UNSEEN_WORD_SMOOTHING)
+    // "what is", "how is it going" - stop words carry much of the intent
+    this.classifier.setOptions({ keepStops: true })
+
+    for (const example of trainingCorpus.examples) {
+      this.classifier.addDocument(example.text, example.intent)
+    }
+    this.classifier.train()
+  }
+
+  /**
+   * Intents by probability. A message with no words from the corpus gets
+   * roughly the prior of each intent, i.e. a low confidence.
+   */
+  classify(text: string): IntentClassification {
+    const classifications = this.classifier.getClassifications(text)
+    const total = classifications.reduce((sum, classification) => sum + classification.value, 0)
+
+    const scores = classifications.map(classification => ({
+      intent: classification.label as IntentType,
+      confidence: total > 0 ? classification.value / total : 0
+    }))
+
+    return { intent: scores[0]?.intent || 'unknown', confidence: scores[0]?.confidence || 0, scores }
+  }
+}
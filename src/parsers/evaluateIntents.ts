@@ -0,0 +1,180 @@
+/**
+ * Intent understanding report - k-fold cross-validation over the labeled
+ * corpus, for the classifier with regex fallback (what ConversationParser
+ * runs) and for the regex patterns alone. Routing precision counts only the
+ * intents confident enough to be acted on without the LLM.
+ *
+ *   npm run eval:intents                 text report
+ *   npm run eval:intents -- --folds 10   more folds
+ *   npm run eval:intents -- --json       machine-readable report
+ */
+
+import { IntentType } from '../types'
+import { ConversationParser, INTENT_ROUTING_CONFIDENCE } from './ConversationParser'
+import { INTENT_CORPUS, IntentClassifier, IntentCorpus, LabeledUtterance } from './IntentClassifier'
+
+export interface IntentMetrics {
+  intent: IntentType
+  precision: number
+  recall: number
+  f1: number
+  support: number
+}
+
+export interface RoutingMetrics {
+  threshold: number
+  routed: number // Predictions at or above the threshold
+  precision: number
+  coverage: number // Share of all examples routed
+}
+
+export interface IntentEvaluation {
+  corpus_version: number
+  examples: number
+  folds: number
+  accuracy: number
+  baseline_accuracy: number // Regex patterns only
+  routing: RoutingMetrics
+  baseline_routing: RoutingMetrics
+  intents: IntentMetrics[]
+  confusion: Record<string, Record<string, number>> // Expected -> predicted -> count
+  errors: Array<LabeledUtterance & { predicted: IntentType }>
+  routing_errors: Array<LabeledUtterance & { predicted: IntentType; confidence: number }>
+}
+
+export function evaluateIntents(corpus: IntentCorpus = INTENT_CORPUS, folds = 5): IntentEvaluation {
+  const examples = corpus.examples
+  const predictions: IntentType[] = new Array(examples.length)
+  const confidences: number[] = new Array(examples.length)
+  const baseline = new ConversationParser({ classifier: null })
+
+  // Example i is held out in fold i % folds; the corpus is grouped by intent,
+  // so every fold sees every intent
+  for (let fold = 0; fold < folds; fold++) {
+    const training = examples.filter((_, index) => index % folds !== fold)
+    const parser = new ConversationParser({
+      classifier: new IntentClassifier({ version: corpus.version, examples: training })
+    })
+
+    examples.forEach((example, index) => {
+      if (index % folds === fold) {
+        const intent = parser.parseInput(example.text).intent
+        predictions[index] = intent.name
+        confidences[index] = intent.confidence
+      }
+    })
+  }
+
+  const baselineIntents = examples.map(example => baseline.parseInput(example.text).intent)
+  const baselineCorrect = examples.filter((example, index) => baselineIntents[index].name === example.intent).length
+  const labels = [...new Set([...examples.map(example => example.intent), ...predictions])]
+
+  const confusion: IntentEvaluation['confusion'] = {}
+  for (const expected of labels) {
+    confusion[expected] = Object.fromEntries(labels.map(predicted => [predicted, 0]))
+  }
+  examples.forEach((example, index) => confusion[example.intent][predictions[index]]++)
+
+  const intents = labels
+    .filter(intent => examples.some(example => example.intent === intent))
+    .map(intent => {
+      const truePositives = confusion[intent][intent]
+      const predicted = labels.reduce((count, expected) => count + confusion[expected][intent], 0)
+      const support = Object.values(confusion[intent]).reduce((count, value) => count + value, 0)
+      const precision = predicted > 0 ? truePositives / predicted : 0
+      const recall = support > 0 ? truePositives / support : 0
+      const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0
+      return { intent, precision, recall, f1, support }
+    })
+
+  return {
+    corpus_version: corpus.version,
+    examples: examples.length,
+    folds,
+    accuracy: examples.filter((example, index) => predictions[index] === example.intent).length / examples.length,
+    baseline_accuracy: baselineCorrect / examples.length,
+    routing: routingMetrics(examples, predictions, confidences),
+    baseline_routing: routingMetrics(
+      examples,
+      baselineIntents.map(intent => intent.name),
+      baselineIntents.map(intent => intent.confidence)
+    ),
+    intents,
+    confusion,
+    errors: examples
+      .map((example, index) => ({ ...example, predicted: predictions[index] }))
+      .filter(example => example.predicted !== example.intent),
+    routing_errors: examples
+      .map((example, index) => ({ ...example, predicted: predictions[index], confidence: confidences[index] }))
+      .filter(example => example.confidence >= INTENT_ROUTING_CONFIDENCE && example.predicted !== example.intent)
+  }
+}
+
+function routingMetrics(examples: LabeledUtterance[], predictions: IntentType[], confidences: number[]): RoutingMetrics {
+  const routed = examples
+    .map((example, index) => ({ example, index }))
+    .filter(({ index }) => confidences[index] >= INTENT_ROUTING_CONFIDENCE)
+  const correct = routed.filter(({ example, index }) => predictions[index] === example.intent).length
+  return {
+    threshold: INTENT_ROUTING_CONFIDENCE,
+    routed: routed.length,
+    precision: routed.length > 0 ? correct / routed.length : 0,
+    coverage: examples.length > 0 ? routed.length / examples.length : 0
+  }
+}
+
+export function formatIntentEvaluation(evaluation: IntentEvaluation): string {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7)
+  const width = Math.max(...Object.keys(evaluation.confusion).map(intent => intent.length))
+  const labels = Object.keys(evaluation.confusion)
+
+  const lines = [
+    `Intent corpus v${evaluation.corpus_version}: ${evaluation.examples} examples, ${evaluation.folds}-fold cross-validation`,
+    '',
+    `Accuracy   classifier + fallback ${percent(evaluation.accuracy)}   regex only ${percent(evaluation.baseline_accuracy)}`,
+    `Routed at confidence >= ${evaluation.routing.threshold}`,
+    `  precision  classifier + fallback ${percent(evaluation.routing.precision)}   regex only ${percent(evaluation.baseline_routing.precision)}`,
+    `  coverage   classifier + fallback ${percent(evaluation.routing.coverage)}   regex only ${percent(evaluation.baseline_routing.coverage)}`,
+    '',
+    `${'intent'.padEnd(width)}  precision   recall       f1  support`,
+    ...evaluation.intents.map(metrics =>
+      `${metrics.intent.padEnd(width)}  ${percent(metrics.precision).padStart(9)}  ${percent(metrics.recall)}  ${percent(metrics.f1)}  ${String(metrics.support).padStart(7)}`
+    ),
+    '',
+    'Confusion (rows expected, columns predicted)',
+    `${''.padEnd(width + 4)}${labels.map((_, index) => String(index + 1).padStart(3)).join('')}`,
+    ...labels.map((expected, row) =>
+      `${String(row + 1).padStart(2)}. ${expected.padEnd(width)}` +
+      labels.map(predicted => String(evaluation.confusion[expected][predicted] || '.').padStart(3)).join('')
+    )
+  ]
+
+  if (evaluation.errors.length > 0) {
+    lines.push('', 'Misclassified')
+    for (const error of evaluation.errors) {
+      lines.push(`  "${error.text}" - expected ${error.intent}, got ${error.predicted}`)
+    }
+  }
+
+  if (evaluation.routing_errors.length > 0) {
+    lines.push('', 'Routed wrongly')
+    for (const error of evaluation.routing_errors) {
+      lines.push(`  "${error.text}" - expected ${error.intent}, got ${error.predicted} at ${error.confidence.toFixed(2)}`)
+    }
+  }
+
+  return lines.join('\n')
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2)
+  const foldsArg = args.indexOf('--folds')
+  const folds = foldsArg === -1 ? 5 : Number(args[foldsArg + 1])
+  if (!Number.isInteger(folds) || folds < 2) {
+    console.error('--folds must be an integer of at least 2')
+    process.exit(1)
+  }
+
+  const evaluation = evaluateIntents(INTENT_CORPUS, folds)
+  console.log(args.includes('--json') ? JSON.stringify(evaluation, null, 2) : formatIntentEvaluation(evaluation))
+}
@@ -13,11 +13,47 @@ import {
   getNotificationStats,
   healthCheck
 } from '../controllers/ConversationController'
+import {
+  createWorkflowController,
+  getWorkflowDefinitions,
+  getWorkflowDefinition,
+  getWorkflowDefinitionSchemas,
+  createWorkflowDefinition,
+  updateWorkflowDefinition,
+  deleteWorkflowDefinition,
+  executeWorkflow,
+  getWorkflowExecutions,
+  getWorkflowQueue,
+  getWorkflowExecution,
+  getWorkflowExecutionSimulation,
+  cancelWorkflowExecution,
+  resumeWorkflowExecution,
+  approveWorkflowExecution,
+  rejectWorkflowExecution,
+  getWorkflowExecutionApprovals,
+  getWorkflowExecutionTree,
+  getWorkflowExecutionDiagram,
+  getWorkflowDiagram,
+  approverFromClaims,
+  createWorkflowSchedule,
+  getWorkflowSchedules,
+  getWorkflowSchedule,
+  deleteWorkflowSchedule,
+  pauseWorkflowSchedule,
+  resumeWorkflowSchedule,
+  receiveWorkflowWebhook,
+  getWebhookTriggers,
+  getWebhookDeliveries,
+  getWorkspaceBlueprints,
+  saveWorkspaceBlueprint,
+  deleteWorkspaceBlueprint,
+  previewWorkspaceBlueprints
+} from '../controllers/WorkflowController'
 import { statusRoutes } from './status'
 import { validationRoutes } from './validation'
 import { deploymentRoutes } from './deployment'
 import { unifiedDeploymentRoutes } from './unified-deployment'
-import { WatsonConfig } from '../types'
+import { WatsonConfig, WatsonEvent } from '../types'
 import { registerMCPRoutes } from '../mcp/routes'
 import { WatsonMCPHandler } from '../mcp/handler'
 import { MCPService } from '../services/MCPService'
@@ -48,6 +84,7 @@ function createWatsonMCPHandler(config: WatsonConfig): WatsonMCPHandler {
 
 export async function registerRoutes(fastify: FastifyInstance, config: WatsonConfig) {
   const controller = createConversationController(config)
+  const workflowController = createWorkflowController(controller.conversationService)
   const mcpHandler = createWatsonMCPHandler(config)
 
   fastify.get('/health', {
@@ -123,6 +160,143 @@ export async function registerRoutes(fastify: FastifyInstance, config: WatsonCon
     handler: streamConversationEvents.bind(controller)
   })
 
+  fastify.get('/api/workflows', {
+    handler: getWorkflowDefinitions.bind(workflowController)
+  })
+
+  fastify.get('/api/workflows/:workflowId', {
+    handler: getWorkflowDefinition.bind(workflowController)
+  })
+
+  fastify.get('/api/workflows/:workflowId/schemas', {
+    handler: getWorkflowDefinitionSchemas.bind(workflowController)
+  })
+
+  fastify.post('/api/workflows', {
+    handler: createWorkflowDefinition.bind(workflowController)
+  })
+
+  fastify.put('/api/workflows/:workflowId', {
+    handler: updateWorkflowDefinition.bind(workflowController)
+  })
+
+  fastify.delete('/api/workflows/:workflowId', {
+    handler: deleteWorkflowDefinition.bind(workflowController)
+  })
+
+  fastify.post('/api/workflows/:workflowId/execute', {
+    handler: executeWorkflow.bind(workflowController)
+  })
+
+  fastify.get('/api/workflow-executions', {
+    handler: getWorkflowExecutions.bind(workflowController)
+  })
+
+  fastify.get('/api/workflow-executions/queue', {
+    handler: getWorkflowQueue.bind(workflowController)
+  })
+
+  fastify.get('/api/workflow-executions/:executionId', {
+    handler: getWorkflowExecution.bind(workflowController)
+  })
+
+  fastify.get('/api/workflow-executions/:executionId/simulation', {
+    handler: getWorkflowExecutionSimulation.bind(workflowController)
+  })
+
+  fastify.post('/api/workflow-executions/:executionId/cancel', {
+    handler: cancelWorkflowExecution.bind(workflowController)
+  })
+
+  fastify.post('/api/workflow-executions/:executionId/resume', {
+    handler: resumeWorkflowExecution.bind(workflowController)
+  })
+
+  fastify.post('/api/workflow-executions/:executionId/approve', {
+    handler: approveWorkflowExecution.bind(workflowController)
+  })
+
+  fastify.post('/api/workflow-executions/:executionId/reject', {
+    handler: rejectWorkflowExecution.bind(workflowController)
+  })
+
+  fastify.get('/api/workflow-executions/:executionId/approvals', {
+    handler: getWorkflowExecutionApprovals.bind(workflowController)
+  })
+
+  fastify.get('/api/workflow-executions/:executionId/tree', {
+    handler: getWorkflowExecutionTree.bind(workflowController)
+  })
+
+  fastify.get('/api/workflow-executions/:executionId/diagram', {
+    handler: getWorkflowExecutionDiagram.bind(workflowController)
+  })
+
+  fastify.get('/api/workflows/:workflowId/diagram', {
+    handler: getWorkflowDiagram.bind(workflowController)
+  })
+
+  fastify.get('/api/workflows/schedules', {
+    handler: getWorkflowSchedules.bind(workflowController)
+  })
+
+  fastify.post('/api/workflows/schedules', {
+    handler: createWorkflowSchedule.bind(workflowController)
+  })
+
+  fastify.get('/api/workflows/schedules/:scheduleId', {
+    handler: getWorkflowSchedule.bind(workflowController)
+  })
+
+  fastify.delete('/api/workflows/schedules/:scheduleId', {
+    handler: deleteWorkflowSchedule.bind(workflowController)
+  })
+
+  fastify.post('/api/workflows/schedules/:scheduleId/pause', {
+    handler: pauseWorkflowSchedule.bind(workflowController)
+  })
+
+  fastify.post('/api/workflows/schedules/:scheduleId/resume', {
+    handler: resumeWorkflowSchedule.bind(workflowController)
+  })
+
+  fastify.get('/api/workflows/hooks', {
+    handler: getWebhookTriggers.bind(workflowController)
+  })
+
+  fastify.get('/api/workflows/hooks/:triggerId/deliveries', {
+    handler: getWebhookDeliveries.bind(workflowController)
+  })
+
+  fastify.get('/api/workspaces/:workspaceId/blueprints', {
+    handler: getWorkspaceBlueprints.bind(workflowController)
+  })
+
+  fastify.post('/api/workspaces/:workspaceId/blueprints/preview', {
+    handler: previewWorkspaceBlueprints.bind(workflowController)
+  })
+
+  fastify.put('/api/workspaces/:workspaceId/blueprints/:blueprintId', {
+    handler: saveWorkspaceBlueprint.bind(workflowController)
+  })
+
+  fastify.delete('/api/workspaces/:workspaceId/blueprints/:blueprintId', {
+    handler: deleteWorkspaceBlueprint.bind(workflowController)
+  })
+
+  // Webhook triggers verify signatures over the exact bytes received, so
+  // bodies are kept as raw strings in this scope
+  fastify.register(async (hooks) => {
+    hooks.removeAllContentTypeParsers()
+    hooks.addContentTypeParser('*', { parseAs: 'string' }, (_request, body, done) => {
+      done(null, body)
+    })
+
+    hooks.post('/api/v1/hooks/:triggerId', {
+      handler: receiveWorkflowWebhook.bind(workflowController)
+    })
+  })
+
   fastify.get('/api/notifications/stats', {
     handler: getNotificationStats.bind(controller)
   })
@@ -193,6 +367,7 @@ export async function registerRoutes(fastify: FastifyInstance, config: WatsonCon
     fastify.register(async function (fastify) {
       fastify.get('/ws', { websocket: true } as any, async (connection: any, request: any) => {
         // Validate JWT token on WebSocket connection
+        let claims: any
         try {
           const token = request.query?.token as string
           if (!token) {
@@ -201,7 +376,7 @@ export async function registerRoutes(fastify: FastifyInstance, config: WatsonCon
           }
           
           // Verify the JWT token
-          await fastify.jwt.verify(token)
+          claims = await fastify.jwt.verify(token)
           console.log('WebSocket connection authenticated successfully')
         } catch (error) {
           console.log('WebSocket authentication failed:', error)
@@ -209,6 +384,37 @@ export async function registerRoutes(fastify: FastifyInstance, config: WatsonCon
           return
         }
 
+        // Cluster-wide WatsonEvents for the subscribed conversation, replayed
+        // from the event log when the client resumes after a disconnect
+        let eventStream: any = null
+        const openEventStream = (conversationId: string, resumeFrom?: number) => {
+          eventStream?.emit('close')
+          eventStream = controller.notificationService.createEventStream(conversationId, undefined, resumeFrom)
+
+          eventStream.on('event', (event: WatsonEvent) => {
+            if (connection.socket.readyState === 1) {
+              connection.socket.send(JSON.stringify({
+                type: 'watson_event',
+                event,
+                timestamp: new Date().toISOString()
+              }))
+            }
+          })
+
+          eventStream.on('replay_complete', (summary: { replayed: number; last_sequence: number; truncated: boolean }) => {
+            if (connection.socket.readyState === 1) {
+              connection.socket.send(JSON.stringify({
+                type: 'replay_complete',
+                conversation_id: conversationId,
+                replayed: summary.replayed,
+                last_sequence: summary.last_sequence,
+                truncated: summary.truncated,
+                timestamp: new Date().toISOString()
+              }))
+            }
+          })
+        }
+
         connection.socket.on('message', async (message: any) => {
           try {
             console.log('WebSocket received message:', message.toString())
@@ -218,6 +424,10 @@ export async function registerRoutes(fastify: FastifyInstance, config: WatsonCon
             if (data.type === 'subscribe') {
               console.log('WebSocket subscribing to conversation:', data.conversation_id)
               ;(connection.socket as any).conversationId = data.conversation_id
+              openEventStream(
+                data.conversation_id,
+                Number.isInteger(data.resume_from) ? data.resume_from : undefined
+              )
             } else if (data.type === 'user_message') {
               // Send typing indicator
               connection.socket.send(JSON.stringify({
@@ -256,6 +466,7 @@ export async function registerRoutes(fastify: FastifyInstance, config: WatsonCon
                   
                   // Update the connection's conversation ID
                   ;(connection.socket as any).conversationId = newConversation.id
+                  openEventStream(newConversation.id)
                   
                   // Retry with new conversation
                   response = await controller.conversationService.processMessage(
@@ -354,6 +565,37 @@ export async function registerRoutes(fastify: FastifyInstance, config: WatsonCon
                 data: response,
                 timestamp: new Date().toISOString()
               }))
+            } else if (data.type === 'approve_workflow' || data.type === 'reject_workflow') {
+              const decision = data.type === 'approve_workflow' ? 'approved' : 'rejected'
+              const approver = approverFromClaims(claims)
+
+              try {
+                if (!approver) {
+                  throw new Error('Approver identity required')
+                }
+
+                const execution = decision === 'approved'
+                  ? await workflowController.workflowEngine.approveExecution(data.execution_id, approver, data.comment)
+                  : await workflowController.workflowEngine.rejectExecution(data.execution_id, approver, data.comment)
+
+                connection.socket.send(JSON.stringify({
+                  type: 'approval_result',
+                  success: true,
+                  execution_id: execution.id,
+                  decision,
+                  status: execution.status,
+                  timestamp: new Date().toISOString()
+                }))
+              } catch (error) {
+                connection.socket.send(JSON.stringify({
+                  type: 'approval_result',
+                  success: false,
+                  execution_id: data.execution_id,
+                  decision,
+                  error: error instanceof Error ? error.message : 'Failed to record decision',
+                  timestamp: new Date().toISOString()
+                }))
+              }
             } else if (data.type === 'ping') {
               // Respond to heartbeat ping with pong
               console.log('Received ping, sending pong')
@@ -377,6 +619,7 @@ export async function registerRoutes(fastify: FastifyInstance, config: WatsonCon
         })
 
         connection.socket.on('close', () => {
+          eventStream?.emit('close')
           fastify.log.info('WebSocket connection closed')
         })
 
@@ -1,46 +1,124 @@
-import { ConversationMessage, Conversation, ConversationStatus, WatsonResponse, ResponseType, WorkflowExecution, WatsonConfig, InfrastructureContext, ConversationContext } from '../types'
-import { WorkflowEngine } from '../workflows/WorkflowEngine'
+import { ConversationMessage, Conversation, ConversationStatus, WatsonResponse, ResponseType, WorkflowExecution, WorkflowSchemaError, WatsonConfig, InfrastructureContext, ConversationContext, SimulationReport, IntentType, Entity, PendingWorkflowStart } from '../types'
+import { WorkflowEngine, TriggerMatch } from '../workflows/WorkflowEngine'
+import { WorkflowScheduler } from '../workflows/WorkflowScheduler'
+import { WorkflowWebhookReceiver } from '../workflows/WorkflowWebhookReceiver'
+import { getStepStates, renderWorkflowMermaid, renderWorkflowDot } from '../workflows/WorkflowDiagram'
+import { ResourceBlueprintCatalog } from '../workflows/ResourceBlueprints'
 import { NotificationService } from './NotificationService'
+import { createEventTransport } from './EventTransport'
 import { MCPService } from './MCPService'
 import { LLMService, LLMMessage } from './LLMService'
 import { ExecutionPlanService, ExecutionPlan, ExecutionStep } from './ExecutionPlanService'
 import { ExecutorService } from './ExecutorService'
 import { ErrorRecoveryService } from './ErrorRecoveryService'
+import { ConversationParser, INTENT_ROUTING_CONFIDENCE } from '../parsers/ConversationParser'
+import { ConversationStore, createConversationStore, createWorkflowExecutionStore, createEventLogStore, createScheduleStore, createWebhookDeliveryStore, createBlueprintStore, createExecutionSlotStore, createWorkflowDefinitionStore } from '../stores'
 import { v4 as uuidv4 } from 'uuid'
 import axios from 'axios'
 import EventEmitter from 'eventemitter3'
 
+// Only an explicit "dry run" / "--dry-run" makes a chat request a dry run -
+// words like "simulate" are too common in real requests
+const DRY_RUN_PHRASE = /(^|\s)--dry-run\b|\b((as|in)\s+an?\s+|in\s+)?dry[\s-]run\b:?/i
+
 export class ConversationService extends EventEmitter {
-  private conversations: Map<string, Conversation> = new Map()
+  private store: ConversationStore
   private workflowEngine: WorkflowEngine
+  private workflowScheduler: WorkflowScheduler
+  private webhookReceiver: WorkflowWebhookReceiver
+  private blueprintCatalog: ResourceBlueprintCatalog
   private notificationService: NotificationService
   private mcpService: MCPService
   private llmService: LLMService
   private executionPlanService: ExecutionPlanService
   private executorService: ExecutorService
   private errorRecoveryService: ErrorRecoveryService
+  private parser: ConversationParser
   private config: WatsonConfig
 
-  constructor(config: WatsonConfig) {
+  constructor(config: WatsonConfig, store?: ConversationStore) {
     super()
     this.config = config
-    this.workflowEngine = new WorkflowEngine(config)
-    this.notificationService = new NotificationService()
+    this.store = store || createConversationStore(config)
     this.mcpService = new MCPService(config)
+    this.blueprintCatalog = new ResourceBlueprintCatalog({ store: createBlueprintStore(config) })
+    this.parser = new ConversationParser()
+    this.workflowEngine = new WorkflowEngine(undefined, undefined, {
+      store: createWorkflowExecutionStore(config),
+      maxParallelSteps: config.max_parallel_steps,
+      maxConcurrentWorkflows: config.max_concurrent_workflows,
+      maxConcurrentWorkflowsPerWorkspace: config.max_concurrent_workflows_per_workspace,
+      slotStore: createExecutionSlotStore(config),
+      workflowTimeoutMinutes: config.workflow_timeout_minutes,
+      definitionsDir: config.workflow_definitions_dir,
+      definitionStore: createWorkflowDefinitionStore(config),
+      mcpService: this.mcpService,
+      blueprintCatalog: this.blueprintCatalog
+    })
+    this.notificationService = new NotificationService(createEventTransport(config), createEventLogStore(config))
     this.llmService = new LLMService(config, this.mcpService)
     this.executionPlanService = new ExecutionPlanService()
     this.executorService = new ExecutorService(this.llmService, this.mcpService)
     this.errorRecoveryService = new ErrorRecoveryService(this.llmService, this.mcpService)
     
-    this.workflowEngine.on('workflow_progress', (execution: WorkflowExecution) => {
-      this.handleWorkflowProgress(execution)
+    const workflowEvents = [
+      'workflow.started',
+      'workflow.queued',
+      'workflow.progress',
+      'workflow.waiting_input',
+      'workflow.waiting_approval',
+      'workflow.completed',
+      'workflow.failed',
+      'workflow.cancelled',
+      'workflow.timeout',
+      'workflow.interrupted',
+      'workflow.rolled_back'
+    ]
+
+    for (const eventName of workflowEvents) {
+      this.workflowEngine.on(eventName, (execution: WorkflowExecution) => {
+        this.handleWorkflowProgress(execution).catch(error => {
+          console.error('[Watson] Failed to persist workflow progress:', error)
+        })
+      })
+
+      // Connect notification service to workflow events
+      this.workflowEngine.on(eventName, (execution: WorkflowExecution) => {
+        this.notificationService.sendWorkflowProgress(execution)
+      })
+    }
+
+    this.workflowEngine.on('workflow.waiting_approval', (execution: WorkflowExecution) => {
+      this.notificationService.sendApprovalRequired(execution, execution.outputs['approval_request'])
     })
 
-    // Connect notification service to workflow events
-    this.workflowEngine.on('workflow_progress', (execution: WorkflowExecution) => {
-      this.notificationService.sendWorkflowProgress(execution)
+    // A finished dry run reports what it would have done
+    for (const eventName of ['workflow.completed', 'workflow.failed', 'workflow.cancelled', 'workflow.timeout']) {
+      this.workflowEngine.on(eventName, (execution: WorkflowExecution) => {
+        if (!execution.dry_run || !execution.simulation || execution.parent_execution_id || !execution.conversation_id) return
+
+        const workflow = this.workflowEngine.getWorkflow(execution.workflow_id)
+        this.sendExecutionUpdate(
+          execution.conversation_id,
+          this.describeSimulation(execution.simulation.report, `${workflow?.name || execution.workflow_id} (${execution.status})`)
+        )
+      })
+    }
+
+    // Pick up executions left unfinished by a previous instance, once the
+    // definitions they run are loaded
+    this.workflowEngine.loadStoredDefinitions().then(
+      () => this.workflowEngine.recoverExecutions()
+    ).then(recovered => {
+      console.log(`[Watson] Workflow recovery: ${recovered.resumed.length} resumed, ${recovered.queued.length} queued, ${recovered.restored.length} awaiting user, ${recovered.interrupted.length} interrupted`)
+    }).catch(error => {
+      console.error('[Watson] Workflow recovery failed:', error)
     })
 
+    this.workflowScheduler = new WorkflowScheduler(this.workflowEngine, { store: createScheduleStore(config) })
+    this.workflowScheduler.start()
+    this.webhookReceiver = new WorkflowWebhookReceiver(this.workflowEngine, { store: createWebhookDeliveryStore(config) })
+
     // Connect LLM service tool error events to emit for WebSocket
     this.llmService.on('tool_error', (errorData: any) => {
       this.emit('tool_error', errorData)
@@ -71,6 +149,9 @@ export class ConversationService extends EventEmitter {
     })
     this.executorService.on('plan_completed', (data: any) => {
       this.emit('execution_completed', data)
+      if (data.simulation) {
+        this.sendExecutionUpdate(data.conversation_id, this.describeSimulation(data.simulation, `deployment plan (${data.status})`))
+      }
     })
 
     // Connect LLM service agent status events to emit for WebSocket
@@ -131,12 +212,12 @@ export class ConversationService extends EventEmitter {
       last_activity_at: now
     }
 
-    this.conversations.set(conversationId, conversation)
+    await this.store.save(conversation)
     return conversation
   }
 
   async processMessage(conversationId: string, userInput: string, jwtToken?: string): Promise<WatsonResponse> {
-    const conversation = this.conversations.get(conversationId)
+    const conversation = await this.store.get(conversationId)
     if (!conversation) {
       throw new Error(`Conversation ${conversationId} not found`)
     }
@@ -144,18 +225,20 @@ export class ConversationService extends EventEmitter {
     const messageId = uuidv4()
     const timestamp = new Date().toISOString()
 
+    const parsed = this.parseMessage(userInput)
     const userMessage: ConversationMessage = {
       id: messageId,
       conversation_id: conversationId,
       role: 'user',
       content: userInput,
       timestamp,
-      jwt_token: jwtToken
+      jwt_token: jwtToken,
+      ...(parsed && { intent: parsed.intent, entities: parsed.entities, confidence: parsed.intent.confidence })
     }
 
-    conversation.messages.push(userMessage)
     conversation.last_activity_at = timestamp
-    this.conversations.set(conversationId, conversation)
+    await this.store.update(conversationId, { last_activity_at: timestamp })
+    await this.addMessage(conversation, userMessage)
 
     // Check if there's an active plan waiting for approval
     const activePlan = this.executionPlanService.getActivePlan(conversationId)
@@ -163,16 +246,64 @@ export class ConversationService extends EventEmitter {
       return await this.handlePlanApproval(conversationId, userInput, activePlan, jwtToken)
     }
 
+    // "Yes" / "no" to starting the workflow an intent matched
+    const pendingWorkflow = this.pendingWorkflowStart(conversation)
+    if (pendingWorkflow) {
+      const confirmation = await this.handleWorkflowConfirmation(conversation, userInput, pendingWorkflow, messageId, jwtToken)
+      if (confirmation) {
+        return confirmation
+      }
+    }
+
+    // "Where is my deployment at?" - answered from the latest workflow execution
+    if (this.isExecutionStatusQuestion(userInput)) {
+      const statusResponse = await this.describeLatestExecution(conversation)
+      if (statusResponse) {
+        return statusResponse
+      }
+    }
+
+    // "Dry run ..." / "... --dry-run" - the rest of the message is routed as
+    // usual, but Atlas, Hermes, Phoenix and Neptune calls are simulated
+    const dryRun = this.isDryRunRequest(userInput)
+    const command = dryRun ? this.withoutDryRunPhrase(userInput) : userInput
+
+    // Greetings and status checks need no LLM round-trip
+    const intent = parsed && parsed.intent.confidence >= INTENT_ROUTING_CONFIDENCE ? parsed.intent : undefined
+    if (intent && !dryRun) {
+      const fastResponse = await this.respondToIntent(conversation, intent.name, parsed!.entities)
+      if (fastResponse) {
+        return fastResponse
+      }
+    }
+
     // Check if this is an execute command
-    if (this.isExecuteCommand(userInput)) {
-      return await this.handleExecuteCommand(conversationId, userInput, conversation, jwtToken)
+    if (this.isExecuteCommand(command)) {
+      return await this.handleExecuteCommand(conversationId, userInput, conversation, jwtToken, dryRun)
+    }
+
+    // Keyword and pattern triggers bind phrases directly to workflows, and
+    // intent triggers bind confidently parsed intents. An intent-triggered
+    // workflow gets the message's entities as input, for parse_requirements.
+    const triggered = this.workflowEngine.findWorkflowForMessage(
+      command,
+      intent && { ...intent, parameters: { entities: parsed!.entities } },
+      conversation.workspace_id
+    )
+    if (triggered) {
+      // A parsed intent is a guess - ask before changing anything. Dry runs
+      // change nothing, and authored phrases bind explicitly.
+      if (triggered.trigger_type === 'intent' && !dryRun) {
+        return await this.confirmTriggeredWorkflow(conversation, triggered)
+      }
+      return await this.startTriggeredWorkflow(conversation, triggered, messageId, dryRun)
     }
 
     // Check if this is a deployment or infrastructure request
-    const isDeploymentRequest = this.isDeploymentRequest(userInput)
+    const isDeploymentRequest = this.isDeploymentRequest(command)
     if (isDeploymentRequest) {
       // Use autonomous execution loop for deployment requests
-      return await this.processMessageWithAutonomousLoop(conversationId, userInput, conversation, jwtToken)
+      return await this.processMessageWithAutonomousLoop(conversationId, userInput, conversation, jwtToken, dryRun)
     }
 
     try {
@@ -186,6 +317,11 @@ export class ConversationService extends EventEmitter {
         }
       ]
 
+      const parsedRequest = this.parsedRequestMessage(userMessage)
+      if (parsedRequest) {
+        llmMessages.push(parsedRequest)
+      }
+
       // Add conversation history (last 10 messages to avoid token limits)
       const recentMessages = conversation.messages.slice(-10)
       for (const msg of recentMessages) {
@@ -218,9 +354,7 @@ export class ConversationService extends EventEmitter {
         timestamp: new Date().toISOString()
       }
 
-      conversation.messages.push(assistantMessage)
-      conversation.updated_at = new Date().toISOString()
-      this.conversations.set(conversationId, conversation)
+      await this.addMessage(conversation, assistantMessage)
 
       // Send notifications
       this.notificationService.sendConversationMessage(conversationId, assistantMessage)
@@ -277,9 +411,7 @@ export class ConversationService extends EventEmitter {
           timestamp: new Date().toISOString()
         }
         
-        conversation.messages.push(recoveryMessage)
-        conversation.updated_at = new Date().toISOString()
-        this.conversations.set(conversationId, conversation)
+        await this.addMessage(conversation, recoveryMessage)
         
         return {
           message: recoveryMessage.content,
@@ -290,7 +422,7 @@ export class ConversationService extends EventEmitter {
       }
       
       conversation.status = 'error'
-      this.conversations.set(conversationId, conversation)
+      await this.store.update(conversationId, { status: 'error' })
       
       let errorContent = "I encountered an error processing your request."
       const suggestedActions = []
@@ -380,8 +512,7 @@ export class ConversationService extends EventEmitter {
         timestamp: new Date().toISOString()
       }
 
-      conversation.messages.push(errorMessage)
-      this.conversations.set(conversationId, conversation)
+      await this.addMessage(conversation, errorMessage)
 
       return {
         message: errorContent,
@@ -393,18 +524,366 @@ export class ConversationService extends EventEmitter {
 
 
 
-  private handleWorkflowProgress(execution: WorkflowExecution): void {
-    const conversation = this.conversations.get(execution.conversation_id)
-    if (!conversation) return
+  /**
+   * Append a message to the conversation and persist it
+   */
+  private async addMessage(conversation: Conversation, message: ConversationMessage): Promise<void> {
+    conversation.messages.push(message)
+    conversation.updated_at = new Date().toISOString()
+
+    await this.store.appendMessage(conversation.id, message)
+    await this.store.update(conversation.id, { updated_at: conversation.updated_at })
+  }
+
+  /**
+   * The workflow start the latest assistant message asked the user to
+   * confirm, if nothing has been said since
+   */
+  private pendingWorkflowStart(conversation: Conversation): PendingWorkflowStart | undefined {
+    for (let i = conversation.messages.length - 1; i >= 0; i--) {
+      const message = conversation.messages[i]
+      if (message.role === 'assistant') {
+        return message.pending_workflow
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Ask the user to confirm the workflow an intent trigger matched
+   */
+  private async confirmTriggeredWorkflow(conversation: Conversation, match: TriggerMatch): Promise<WatsonResponse> {
+    const workflow = this.workflowEngine.getWorkflow(match.workflow_id)!
+    console.log(`[Watson] Message matched intent trigger of workflow ${workflow.id}, asking for confirmation`)
+
+    const captured = Object.entries(match.input)
+      .filter(([, value]) => typeof value === 'string' || typeof value === 'number')
+      .map(([field, value]) => `• ${field}: ${value}`)
 
-    const workflowIndex = conversation.active_workflows.findIndex(w => w.id === execution.id)
-    if (workflowIndex !== -1) {
-      conversation.active_workflows[workflowIndex] = execution
+    const assistantMessage: ConversationMessage = {
+      id: uuidv4(),
+      conversation_id: conversation.id,
+      role: 'assistant',
+      content: `Shall I start **${workflow.name}**?` +
+        (workflow.description ? `\n\n${workflow.description}` : '') +
+        (captured.length > 0 ? `\n\n${captured.join('\n')}` : '') +
+        '\n\nReply **yes** to start it or **no** to cancel.',
+      timestamp: new Date().toISOString(),
+      workflow_id: workflow.id,
+      pending_workflow: { workflow_id: workflow.id, input: match.input }
     }
 
-    if (execution.status === 'completed' || execution.status === 'failed') {
-      conversation.active_workflows = conversation.active_workflows.filter(w => w.id !== execution.id)
+    await this.addMessage(conversation, assistantMessage)
+    this.notificationService.sendConversationMessage(conversation.id, assistantMessage)
+    this.emit('conversation_message', {
+      conversation_id: conversation.id,
+      message: assistantMessage
+    })
+
+    return {
+      message: assistantMessage.content,
+      response_type: 'question',
+      attachments: []
     }
+  }
+
+  /**
+   * Start or drop a workflow waiting for confirmation. Anything other than
+   * a yes or no leaves it unanswered and the message is handled as usual.
+   */
+  private async handleWorkflowConfirmation(
+    conversation: Conversation,
+    userInput: string,
+    pending: PendingWorkflowStart,
+    messageId: string,
+    jwtToken?: string
+  ): Promise<WatsonResponse | undefined> {
+    const response = this.executionPlanService.parseApprovalResponse(userInput)
+    const workflow = this.workflowEngine.getWorkflow(pending.workflow_id)
+
+    if (response === 'approve') {
+      if (!jwtToken) {
+        return {
+          message: '❌ Authentication required to start workflows.',
+          response_type: 'error',
+          attachments: []
+        }
+      }
+      if (!workflow) {
+        return {
+          message: `❌ Workflow ${pending.workflow_id} no longer exists.`,
+          response_type: 'error',
+          attachments: []
+        }
+      }
+      return await this.startTriggeredWorkflow(
+        conversation,
+        { workflow_id: pending.workflow_id, trigger_type: 'intent', input: pending.input },
+        messageId
+      )
+    }
+
+    if (response === 'reject') {
+      const assistantMessage: ConversationMessage = {
+        id: uuidv4(),
+        conversation_id: conversation.id,
+        role: 'assistant',
+        content: `OK, I won't start **${workflow?.name || pending.workflow_id}**.`,
+        timestamp: new Date().toISOString(),
+        workflow_id: pending.workflow_id
+      }
+      await this.addMessage(conversation, assistantMessage)
+      this.notificationService.sendConversationMessage(conversation.id, assistantMessage)
+      this.emit('conversation_message', {
+        conversation_id: conversation.id,
+        message: assistantMessage
+      })
+      return {
+        message: assistantMessage.content,
+        response_type: 'text',
+        attachments: []
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * Start the workflow a trigger matched, with the captured values as its
+   * input
+   */
+  private async startTriggeredWorkflow(
+    conversation: Conversation,
+    match: TriggerMatch,
+    messageId: string,
+    dryRun = false
+  ): Promise<WatsonResponse> {
+    const workflow = this.workflowEngine.getWorkflow(match.workflow_id)!
+    console.log(`[Watson] Message matched ${match.trigger_type} trigger of workflow ${workflow.id}`)
+
+    let execution: WorkflowExecution
+    try {
+      execution = await this.workflowEngine.startWorkflow(workflow.id, {
+        ...match.input,
+        user_id: conversation.user_id,
+        workspace_id: conversation.workspace_id,
+        conversation_id: conversation.id,
+        trigger: { type: match.trigger_type, message_id: messageId }
+      }, { dryRun })
+    } catch (error) {
+      if (!(error instanceof WorkflowSchemaError)) throw error
+
+      // The message matched but did not carry everything the workflow needs
+      const assistantMessage: ConversationMessage = {
+        id: uuidv4(),
+        conversation_id: conversation.id,
+        role: 'assistant',
+        content: `I need a bit more to start **${workflow.name}**:\n\n` +
+          error.fields.map(field => `• ${field.field.replace(/^input\./, '')} ${field.message}`).join('\n'),
+        timestamp: new Date().toISOString(),
+        workflow_id: workflow.id
+      }
+      await this.addMessage(conversation, assistantMessage)
+      this.notificationService.sendConversationMessage(conversation.id, assistantMessage)
+      this.emit('conversation_message', {
+        conversation_id: conversation.id,
+        message: assistantMessage
+      })
+      return {
+        message: assistantMessage.content,
+        response_type: 'question',
+        attachments: []
+      }
+    }
+
+    const captured = Object.entries(match.input)
+      .filter(([, value]) => typeof value === 'string' || typeof value === 'number')
+      .map(([field, value]) => `• ${field}: ${value}`)
+
+    const assistantMessage: ConversationMessage = {
+      id: uuidv4(),
+      conversation_id: conversation.id,
+      role: 'assistant',
+      content: (dryRun ? `🧪 Started a dry run of **${workflow.name}** - nothing will be changed` : `▶️ Started **${workflow.name}**`) +
+        (captured.length > 0 ? `\n\n${captured.join('\n')}` : '') +
+        `\n\n*Execution ID: ${execution.id}*`,
+      timestamp: new Date().toISOString(),
+      workflow_id: workflow.id
+    }
+
+    await this.addMessage(conversation, assistantMessage)
+    this.notificationService.sendConversationMessage(conversation.id, assistantMessage)
+    this.emit('conversation_message', {
+      conversation_id: conversation.id,
+      message: assistantMessage
+    })
+
+    return {
+      message: assistantMessage.content,
+      response_type: 'progress_update',
+      workflow_execution: execution,
+      attachments: []
+    }
+  }
+
+  /**
+   * Intent and entities of a user message; a parser failure only loses the
+   * annotation
+   */
+  private parseMessage(userInput: string): ReturnType<ConversationParser['parseInput']> | undefined {
+    try {
+      return this.parser.parseInput(userInput)
+    } catch (error) {
+      console.warn('[Watson] Failed to parse message intent:', error)
+      return undefined
+    }
+  }
+
+  /**
+   * Answer a confidently parsed intent directly. Null when the intent needs
+   * the LLM or a workflow.
+   */
+  private async respondToIntent(conversation: Conversation, intent: IntentType, entities: Entity[]): Promise<WatsonResponse | null> {
+    switch (intent) {
+      case 'greeting': {
+        // "Hi, can you deploy..." carries a request the LLM should see
+        if (entities.length > 0) return null
+
+        const assistantMessage: ConversationMessage = {
+          id: uuidv4(),
+          conversation_id: conversation.id,
+          role: 'assistant',
+          content: "👋 Hi! I'm Watson. I can deploy applications, provision and scale infrastructure, estimate costs and manage DNS. What would you like to do?",
+          timestamp: new Date().toISOString()
+        }
+        await this.addMessage(conversation, assistantMessage)
+        this.notificationService.sendConversationMessage(conversation.id, assistantMessage)
+        this.emit('conversation_message', {
+          conversation_id: conversation.id,
+          message: assistantMessage
+        })
+
+        return {
+          message: assistantMessage.content,
+          response_type: 'text',
+          attachments: [],
+          suggested_actions: [
+            { id: 'deploy', text: 'Deploy an application', action_type: 'quick_reply', action_data: { message: 'Deploy my application' } },
+            { id: 'estimate', text: 'Estimate costs', action_type: 'quick_reply', action_data: { message: 'How much would my infrastructure cost?' } },
+            { id: 'status', text: 'Check status', action_type: 'quick_reply', action_data: { message: 'Where is my deployment at?' } }
+          ]
+        }
+      }
+
+      case 'check_status':
+        return await this.describeLatestExecution(conversation)
+
+      default:
+        return null
+    }
+  }
+
+  /**
+   * The parser's reading of a user message, as context for the LLM
+   */
+  private parsedRequestMessage(message: ConversationMessage): LLMMessage | undefined {
+    if (!message.intent || message.intent.name === 'unknown') return undefined
+
+    const parse = {
+      intent: message.intent.name,
+      confidence: Number(message.intent.confidence.toFixed(2)),
+      ...(Object.keys(message.intent.parameters).length > 0 && { parameters: message.intent.parameters }),
+      entities: (message.entities || []).map(entity => ({ type: entity.type, value: entity.value }))
+    }
+
+    return {
+      role: 'system',
+      content: `Rule-based parse of the user's latest message (may be wrong - the message itself takes precedence):\n${JSON.stringify(parse)}`
+    }
+  }
+
+  private isExecutionStatusQuestion(userInput: string): boolean {
+    const subject = '(deployment|deploy|workflow|rollout|provisioning|execution)'
+    return [
+      new RegExp(`\\b(where|how)('s|\\s+is|\\s+are)?\\s+(my|the|our)\\s+${subject}`, 'i'),
+      new RegExp(`\\b(status|progress)\\s+(of|on)\\s+(my|the|our)\\s+${subject}`, 'i'),
+      new RegExp(`\\b${subject}\\s+(status|progress)\\b`, 'i'),
+      new RegExp(`\\bis\\s+(my|the|our)\\s+${subject}\\s+(done|finished|stuck|still running)`, 'i')
+    ].some(pattern => pattern.test(userInput))
+  }
+
+  /**
+   * Progress of the conversation's most recent workflow execution, with its
+   * step graph as an `infrastructure_diagram` attachment. Null when the
+   * conversation has not run a workflow.
+   */
+  private async describeLatestExecution(conversation: Conversation): Promise<WatsonResponse | null> {
+    const active = conversation.active_workflows[conversation.active_workflows.length - 1]
+    const execution = active
+      ? await this.workflowEngine.loadExecution(active.id) || active
+      : (await this.workflowEngine.listExecutions({ conversation_id: conversation.id, limit: 1 }))[0]
+    if (!execution) return null
+
+    const workflow = this.workflowEngine.getWorkflow(execution.workflow_id)
+    if (!workflow) return null
+
+    const states = getStepStates(workflow, execution)
+    const stepsIn = (state: string) => workflow.steps.filter(step => states[step.id] === state).map(step => step.name)
+    const running = stepsIn('running')
+    const waiting = stepsIn('waiting')
+    const failed = stepsIn('failed')
+
+    const lines = [
+      `📍 **${workflow.name}** is ${execution.status.replace('_', ' ')} - ` +
+        `${execution.completed_steps.length}/${workflow.steps.length} steps complete`
+    ]
+    if (running.length > 0) lines.push(`• Running: ${running.join(', ')}`)
+    if (waiting.length > 0) lines.push(`• Waiting on you: ${waiting.join(', ')}`)
+    if (failed.length > 0) lines.push(`• Failed: ${failed.join(', ')}`)
+    if (execution.error_message) lines.push(`• Error: ${execution.error_message}`)
+    lines.push('', `*Execution ID: ${execution.id}*`)
+
+    const assistantMessage: ConversationMessage = {
+      id: uuidv4(),
+      conversation_id: conversation.id,
+      role: 'assistant',
+      content: lines.join('\n'),
+      timestamp: new Date().toISOString(),
+      workflow_id: workflow.id
+    }
+
+    await this.addMessage(conversation, assistantMessage)
+    this.notificationService.sendConversationMessage(conversation.id, assistantMessage)
+    this.emit('conversation_message', {
+      conversation_id: conversation.id,
+      message: assistantMessage
+    })
+
+    return {
+      message: assistantMessage.content,
+      response_type: 'progress_update',
+      workflow_execution: execution,
+      attachments: [{
+        type: 'infrastructure_diagram',
+        title: `${workflow.name} - ${execution.status}`,
+        format: 'diagram',
+        data: {
+          workflow_id: workflow.id,
+          execution_id: execution.id,
+          steps: states,
+          mermaid: renderWorkflowMermaid(workflow, execution),
+          dot: renderWorkflowDot(workflow, execution)
+        }
+      }]
+    }
+  }
+
+  private async handleWorkflowProgress(execution: WorkflowExecution): Promise<void> {
+    const finished = ['completed', 'failed', 'cancelled', 'timeout', 'interrupted'].includes(execution.status)
+    const found = finished
+      ? await this.store.removeActiveWorkflow(execution.conversation_id, execution.id)
+      : await this.store.saveActiveWorkflow(execution.conversation_id, execution)
+    if (!found) return
 
     this.emit('workflow_progress', {
       conversation_id: execution.conversation_id,
@@ -425,7 +904,7 @@ export class ConversationService extends EventEmitter {
           })
           
           return {
-            message: `✅ **Execution Plan Approved & Started**\n\nI'm now executing the approved plan for: ${approvedPlan.objective}\n\nYou'll receive real-time updates as each step completes.`,
+            message: `✅ **Execution Plan Approved & Started**\n\nI'm now ${approvedPlan.dryRun ? 'simulating' : 'executing'} the approved plan for: ${approvedPlan.objective}\n\nYou'll receive real-time updates as each step completes.`,
             response_type: 'text',
             attachments: []
           }
@@ -526,7 +1005,8 @@ Focus on infrastructure and deployment operations. Break down complex requests i
         conversation.user_id,
         conversation.workspace_id,
         planData.objective,
-        planData.steps
+        planData.steps,
+        { dryRun: this.isDryRunRequest(userInput) }
       )
 
       // Request approval
@@ -606,6 +1086,9 @@ Focus on infrastructure and deployment operations. Break down complex requests i
     plan.status = 'executing'
     this.emit('plan_execution_started', { plan })
 
+    const simulation = plan.dryRun ? this.mcpService.createSimulation() : undefined
+    const mcpService = simulation ? this.mcpService.withSimulation(simulation) : this.mcpService
+
     try {
       for (const step of plan.steps) {
         try {
@@ -630,7 +1113,8 @@ Focus on infrastructure and deployment operations. Break down complex requests i
             llmMessages,
             jwtToken,
             plan.workspaceId,
-            plan.conversationId
+            plan.conversationId,
+            mcpService
           )
 
           // Mark step as completed
@@ -668,6 +1152,11 @@ Focus on infrastructure and deployment operations. Break down complex requests i
       console.error(`[Watson] Plan execution error:`, error)
       this.sendExecutionUpdate(conversationId, `❌ **Execution Error**\n\nPlan execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
+
+    if (simulation) {
+      plan.simulation = simulation.report()
+      this.sendExecutionUpdate(conversationId, this.describeSimulation(plan.simulation, plan.objective))
+    }
   }
 
   private sendExecutionUpdate(conversationId: string, message: string): void {
@@ -681,12 +1170,9 @@ Focus on infrastructure and deployment operations. Break down complex requests i
     }
 
     // Add to conversation history
-    const conversation = this.conversations.get(conversationId)
-    if (conversation) {
-      conversation.messages.push(updateMessage)
-      conversation.updated_at = new Date().toISOString()
-      this.conversations.set(conversationId, conversation)
-    }
+    this.store.appendMessage(conversationId, updateMessage).catch(error => {
+      console.error(`[Watson] Failed to persist execution update for ${conversationId}:`, error)
+    })
 
     // Send via notification service (which handles WebSocket)
     this.notificationService.sendConversationMessage(conversationId, updateMessage)
@@ -777,34 +1263,40 @@ Focus on infrastructure and deployment operations. Break down complex requests i
     }
   }
 
-  getConversation(conversationId: string): Conversation | undefined {
-    return this.conversations.get(conversationId)
+  async getConversation(conversationId: string): Promise<Conversation | undefined> {
+    return await this.store.get(conversationId)
   }
 
-  getConversations(workspaceId?: string, userId?: string): Conversation[] {
-    const conversations = Array.from(this.conversations.values())
-    
-    if (workspaceId && userId) {
-      return conversations.filter(c => c.workspace_id === workspaceId && c.user_id === userId)
-    } else if (workspaceId) {
-      return conversations.filter(c => c.workspace_id === workspaceId)
-    } else if (userId) {
-      return conversations.filter(c => c.user_id === userId)
-    }
-    
-    return conversations
+  async getConversations(workspaceId?: string, userId?: string): Promise<Conversation[]> {
+    return await this.store.list({ workspace_id: workspaceId, user_id: userId })
   }
 
   getNotificationService(): NotificationService {
     return this.notificationService
   }
 
-  createEventStream(conversationId: string) {
-    return this.notificationService.createEventStream(conversationId)
+  getWorkflowEngine(): WorkflowEngine {
+    return this.workflowEngine
+  }
+
+  getWorkflowScheduler(): WorkflowScheduler {
+    return this.workflowScheduler
+  }
+
+  getWebhookReceiver(): WorkflowWebhookReceiver {
+    return this.webhookReceiver
+  }
+
+  getBlueprintCatalog(): ResourceBlueprintCatalog {
+    return this.blueprintCatalog
+  }
+
+  createEventStream(conversationId: string, resumeFrom?: number) {
+    return this.notificationService.createEventStream(conversationId, undefined, resumeFrom)
   }
 
-  getConversationEvents(conversationId: string, limit = 50) {
-    return this.notificationService.getConversationHistory(conversationId, limit)
+  async getConversationEvents(conversationId: string, limit = 50, afterSequence?: number) {
+    return await this.notificationService.getConversationHistory(conversationId, limit, afterSequence)
   }
 
   // Error Recovery Helper Methods
@@ -926,9 +1418,13 @@ Focus on infrastructure and deployment operations. Break down complex requests i
     conversationId: string, 
     userInput: string, 
     conversation: Conversation, 
-    jwtToken?: string
+    jwtToken?: string,
+    dryRun = false
   ): Promise<WatsonResponse> {
-    console.log(`[Watson] Starting autonomous execution loop for deployment request: "${userInput}"`)
+    console.log(`[Watson] Starting autonomous execution loop for deployment request: "${userInput}"${dryRun ? ' (dry run)' : ''}`)
+
+    const simulation = dryRun ? this.mcpService.createSimulation() : undefined
+    const mcpService = simulation ? this.mcpService.withSimulation(simulation) : this.mcpService
     
     // Initialize loop parameters
     let loopIteration = 0
@@ -943,6 +1439,12 @@ Focus on infrastructure and deployment operations. Break down complex requests i
       content: autonomousSystemMessage
     })
 
+    const latestUserMessage = [...conversation.messages].reverse().find(msg => msg.role === 'user')
+    const parsedRequest = latestUserMessage && this.parsedRequestMessage(latestUserMessage)
+    if (parsedRequest) {
+      currentMessages.push(parsedRequest)
+    }
+
     // Add conversation history (last 5 messages to avoid token limits)
     const recentMessages = conversation.messages.slice(-5)
     for (const msg of recentMessages) {
@@ -984,7 +1486,8 @@ Focus on infrastructure and deployment operations. Break down complex requests i
           currentMessages,
           jwtToken,
           conversation.workspace_id,
-          conversationId
+          conversationId,
+          mcpService
         )
 
         console.log(`[Watson] Iteration ${loopIteration} - LLM response received. Used ${llmResponse.usage?.total_tokens || 0} tokens.`)
@@ -1009,7 +1512,7 @@ Focus on infrastructure and deployment operations. Break down complex requests i
           timestamp: new Date().toISOString()
         }
 
-        conversation.messages.push(assistantMessage)
+        await this.addMessage(conversation, assistantMessage)
         currentMessages.push({
           role: 'assistant',
           content: llmResponse.message
@@ -1065,16 +1568,19 @@ Focus on infrastructure and deployment operations. Break down complex requests i
 
       // Update conversation and return final response
       conversation.updated_at = new Date().toISOString()
-      this.conversations.set(conversationId, conversation)
+      await this.store.update(conversationId, { updated_at: conversation.updated_at })
 
       // Generate comprehensive execution summary
       const uniqueTools = [...new Set(executedTools)]
-      const executionSummary = this.generateExecutionSummary(
+      let executionSummary = this.generateExecutionSummary(
         loopIteration, 
         totalTokensUsed, 
         uniqueTools, 
         stoppingReason
       )
+      if (simulation) {
+        executionSummary += `\n\n${this.describeSimulation(simulation.report(), userInput)}`
+      }
 
       return {
         message: executionSummary,
@@ -1463,6 +1969,68 @@ CONTINUE WORKING until you reach a natural completion point or decision point th
 
   // EXECUTION ENGINE METHODS
 
+  private isDryRunRequest(userInput: string): boolean {
+    return DRY_RUN_PHRASE.test(userInput)
+  }
+
+  /**
+   * The request with its dry-run wording removed, for routing
+   */
+  private withoutDryRunPhrase(userInput: string): string {
+    return userInput
+      .replace(new RegExp(DRY_RUN_PHRASE.source, 'gi'), ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+  }
+
+  /**
+   * Chat summary of a simulation report
+   */
+  private describeSimulation(report: SimulationReport, subject: string): string {
+    const describeResources = (resources: any[]) => resources
+      .map(resource => resource?.name || resource?.id || resource?.type)
+      .filter(Boolean)
+      .join(', ')
+
+    const section = (title: string, changes: SimulationReport['provisioned']) => changes.length === 0
+      ? []
+      : [
+          `**${title}**`,
+          ...changes.map(change => {
+            const resources = describeResources(change.resources)
+            const cost = change.estimated_monthly_cost ? ` - ~$${change.estimated_monthly_cost}/month` : ''
+            return `• ${change.service}: ${change.tool}${resources ? ` (${resources})` : ''}${cost}`
+          }),
+          ''
+        ]
+
+    const lines = [
+      `🧪 **Dry Run Report: ${subject}**`,
+      '',
+      'Nothing was created, changed or deleted.',
+      '',
+      ...section('Would provision', report.provisioned),
+      ...section('Would change', report.changed),
+      ...section('Would delete', report.deleted)
+    ]
+
+    if (report.provisioned.length + report.changed.length + report.deleted.length === 0) {
+      lines.push('No changes would be made.', '')
+    }
+    if (report.approvals.length > 0) {
+      lines.push(`**Approvals that would be requested**: ${report.approvals.length}`, ...report.approvals.map(approval => `• ${approval.message}`), '')
+    }
+
+    const failed = report.calls.filter(call => !call.success)
+    if (failed.length > 0) {
+      lines.push(`**Simulated failures**: ${failed.map(call => `${call.tool} (${call.error})`).join(', ')}`, '')
+    }
+
+    lines.push(`**Estimated cost**: $${report.estimated_monthly_cost}/month`)
+    lines.push(`**Tool calls simulated**: ${report.calls.length}`)
+    return lines.join('\n')
+  }
+
   /**
    * Check if user input is an execute command
    */
@@ -1483,7 +2051,8 @@ CONTINUE WORKING until you reach a natural completion point or decision point th
     conversationId: string, 
     userInput: string, 
     conversation: Conversation, 
-    jwtToken?: string
+    jwtToken?: string,
+    dryRun = false
   ): Promise<WatsonResponse> {
     
     if (!jwtToken) {
@@ -1523,11 +2092,12 @@ CONTINUE WORKING until you reach a natural completion point or decision point th
         conversation.user_id,
         conversation.workspace_id,
         jwtToken,
-        deploymentRequest
+        deploymentRequest,
+        { dryRun }
       )
 
       return {
-        message: `🚀 **Deployment Execution Started**
+        message: `${dryRun ? '🧪 **Deployment Dry Run Started**' : '🚀 **Deployment Execution Started**'}
 
 **Plan ID**: ${executionPlan.id}
 **Steps**: ${executionPlan.steps.length}
@@ -0,0 +1,100 @@
+/**
+ * Event Transport - fans WatsonEvents out to every Watson instance
+ *
+ * NotificationService publishes through a transport instead of delivering
+ * directly, so a WebSocket or SSE subscriber connected to one replica sees
+ * events produced on any other replica.
+ */
+
+import Redis from 'ioredis'
+import { v4 as uuidv4 } from 'uuid'
+import { WatsonEvent, WatsonConfig } from '../types'
+import { getRedisClient, redisKey } from '../stores'
+
+export type EventHandler = (event: WatsonEvent, origin: string) => void
+
+export interface EventTransport {
+  readonly name: string
+  readonly instanceId: string
+  publish(event: WatsonEvent): Promise<void>
+  subscribe(handler: EventHandler): void
+  close(): Promise<void>
+}
+
+/**
+ * Single-process transport - delivers synchronously to local handlers
+ */
+export class InProcessEventTransport implements EventTransport {
+  readonly name = 'in-process'
+  readonly instanceId = uuidv4()
+  private handlers: EventHandler[] = []
+
+  async publish(event: WatsonEvent): Promise<void> {
+    this.handlers.forEach(handler => handler(event, this.instanceId))
+  }
+
+  subscribe(handler: EventHandler): void {
+    this.handlers.push(handler)
+  }
+
+  async close(): Promise<void> {
+    this.handlers = []
+  }
+}
+
+/**
+ * Redis pub/sub transport. Every instance - including the publisher -
+ * receives events through its subscription, so delivery is identical
+ * regardless of which replica produced the event.
+ */
+export class RedisEventTransport implements EventTransport {
+  readonly name = 'redis'
+  readonly instanceId = uuidv4()
+  private handlers: EventHandler[] = []
+  private subscriber: Redis
+  private channel: string
+
+  constructor(private publisher: Redis, config: WatsonConfig) {
+    this.channel = redisKey(config, 'events')
+
+    // Subscribed connections cannot issue other commands - use a dedicated one
+    this.subscriber = publisher.duplicate()
+    this.subscriber.subscribe(this.channel).catch(error => {
+      console.error('[EventTransport] Failed to subscribe to Redis events:', error.message)
+    })
+
+    this.subscriber.on('message', (_channel: string, raw: string) => {
+      try {
+        const { origin, event } = JSON.parse(raw) as { origin: string; event: WatsonEvent }
+        this.handlers.forEach(handler => handler(event, origin))
+      } catch (error) {
+        console.error('[EventTransport] Dropped malformed event:', error)
+      }
+    })
+  }
+
+  async publish(event: WatsonEvent): Promise<void> {
+    await this.publisher.publish(this.channel, JSON.stringify({
+      origin: this.instanceId,
+      event
+    }))
+  }
+
+  subscribe(handler: EventHandler): void {
+    this.handlers.push(handler)
+  }
+
+  async close(): Promise<void> {
+    this.handlers = []
+    await this.subscriber.quit().catch(() => undefined)
+  }
+}
+
+/**
+ * Create the event transport for this deployment - Redis pub/sub when
+ * REDIS_URL is configured, otherwise in-process delivery
+ */
+export function createEventTransport(config: WatsonConfig): EventTransport {
+  const redis = getRedisClient(config)
+  return redis ? new RedisEventTransport(redis, config) : new InProcessEventTransport()
+}
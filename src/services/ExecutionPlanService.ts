@@ -1,4 +1,5 @@
 import { EventEmitter } from 'events'
+import { SimulationReport } from '../types'
 
 export interface ExecutionStep {
   id: string
@@ -24,6 +25,8 @@ export interface ExecutionPlan {
   approvedAt?: string
   completedAt?: string
   totalEstimatedTime?: string
+  dryRun?: boolean // Steps run against a simulation, nothing real is changed
+  simulation?: SimulationReport
 }
 
 export class ExecutionPlanService extends EventEmitter {
@@ -38,7 +41,8 @@ export class ExecutionPlanService extends EventEmitter {
     userId: string,
     workspaceId: string,
     objective: string,
-    steps: Omit<ExecutionStep, 'id' | 'status'>[]
+    steps: Omit<ExecutionStep, 'id' | 'status'>[],
+    options: { dryRun?: boolean } = {}
   ): ExecutionPlan {
     const plan: ExecutionPlan = {
       id: crypto.randomUUID(),
@@ -53,7 +57,8 @@ export class ExecutionPlanService extends EventEmitter {
       })),
       status: 'draft',
       createdAt: new Date().toISOString(),
-      totalEstimatedTime: this.calculateTotalTime(steps)
+      totalEstimatedTime: this.calculateTotalTime(steps),
+      ...(options.dryRun && { dryRun: true })
     }
 
     this.plans.set(plan.id, plan)
@@ -98,7 +103,9 @@ export class ExecutionPlanService extends EventEmitter {
     })
 
     lines.push('---')
-    lines.push('🔐 **Safety Notice**: This plan will make real changes to your infrastructure.')
+    lines.push(plan.dryRun
+      ? '🧪 **Dry Run**: This plan runs against a simulation. Nothing will be created, changed or deleted.'
+      : '🔐 **Safety Notice**: This plan will make real changes to your infrastructure.')
     lines.push('')
     lines.push('**Do you want to execute this plan?**')
     lines.push('- Reply "yes" or "execute" to proceed')
@@ -11,6 +11,8 @@
 import { EventEmitter } from 'events'
 import { LLMService } from './LLMService'
 import { MCPService } from './MCPService'
+import { MCPSimulation } from './MCPSimulation'
+import { SimulatedResponse, SimulationReport } from '../types'
 
 export interface ExecutionStep {
   id: string
@@ -36,6 +38,13 @@ export interface ExecutionPlan {
   started_at?: string
   completed_at?: string
   total_execution_time?: number
+  dry_run?: boolean
+  simulation?: SimulationReport // What the dry run would have done
+}
+
+export interface ExecutePlanOptions {
+  dryRun?: boolean
+  simulatedResponses?: SimulatedResponse[]
 }
 
 export class ExecutorService extends EventEmitter {
@@ -50,14 +59,16 @@ export class ExecutorService extends EventEmitter {
   }
 
   /**
-   * Execute a deployment plan with real-time feedback
+   * Execute a deployment plan with real-time feedback. A dry run answers
+   * every tool call from a simulation and records its report on the plan.
    */
   async executePlan(
     conversationId: string,
     userId: string,
     workspaceId: string,
     jwtToken: string,
-    deploymentRequest: string
+    deploymentRequest: string,
+    options: ExecutePlanOptions = {}
   ): Promise<ExecutionPlan> {
     
     // Step 1: Create execution plan from deployment request
@@ -65,7 +76,11 @@ export class ExecutorService extends EventEmitter {
     this.activePlanExecutions.set(plan.id, plan)
 
     // Step 2: Execute plan with planner-executor loop
-    this.executeStepsInBackground(plan, jwtToken)
+    const simulation = options.dryRun ? this.mcpService.createSimulation(options.simulatedResponses) : undefined
+    if (simulation) {
+      plan.dry_run = true
+    }
+    this.executeStepsInBackground(plan, jwtToken, simulation)
 
     return plan
   }
@@ -148,7 +163,8 @@ export class ExecutorService extends EventEmitter {
   /**
    * Execute plan steps in background with planner-executor loop
    */
-  private async executeStepsInBackground(plan: ExecutionPlan, jwtToken: string): Promise<void> {
+  private async executeStepsInBackground(plan: ExecutionPlan, jwtToken: string, simulation?: MCPSimulation): Promise<void> {
+    const mcpService = simulation ? this.mcpService.withSimulation(simulation) : this.mcpService
     plan.status = 'executing'
     plan.started_at = new Date().toISOString()
 
@@ -161,7 +177,7 @@ export class ExecutorService extends EventEmitter {
 
     try {
       for (const step of plan.steps) {
-        await this.executeStep(plan, step, jwtToken)
+        await this.executeStep(plan, step, jwtToken, mcpService)
         
         // If step failed, halt execution
         if (step.status === 'failed') {
@@ -180,19 +196,25 @@ export class ExecutorService extends EventEmitter {
       console.error('[Executor] Plan execution failed:', error)
     }
 
+    if (simulation) {
+      plan.simulation = simulation.report()
+    }
+
     // Emit completion event
     this.emit('plan_completed', {
       conversation_id: plan.conversation_id,
       plan_id: plan.id,
       status: plan.status,
-      execution_time: plan.total_execution_time
+      execution_time: plan.total_execution_time,
+      dry_run: plan.dry_run,
+      simulation: plan.simulation
     })
   }
 
   /**
    * Execute individual step using MCP tools
    */
-  private async executeStep(plan: ExecutionPlan, step: ExecutionStep, jwtToken: string): Promise<void> {
+  private async executeStep(plan: ExecutionPlan, step: ExecutionStep, jwtToken: string, mcpService: MCPService): Promise<void> {
     step.status = 'in_progress'
     const startTime = Date.now()
 
@@ -213,13 +235,13 @@ export class ExecutorService extends EventEmitter {
       
       if (step.tool_name.startsWith('atlas_')) {
         const toolName = step.tool_name.replace('atlas_', '')
-        result = await this.mcpService.callAtlasTool({ name: toolName, arguments: step.args }, jwtToken)
+        result = await mcpService.callAtlasTool({ name: toolName, arguments: step.args }, jwtToken)
       } else if (step.tool_name.startsWith('phoenix_')) {
         const toolName = step.tool_name.replace('phoenix_', '')
-        result = await this.mcpService.callPhoenixTool({ name: toolName, arguments: step.args }, jwtToken)
+        result = await mcpService.callPhoenixTool({ name: toolName, arguments: step.args }, jwtToken)
       } else if (step.tool_name.startsWith('neptune_')) {
         const toolName = step.tool_name.replace('neptune_', '')
-        result = await this.mcpService.callNeptuneTool({ name: toolName, arguments: step.args }, jwtToken)
+        result = await mcpService.callNeptuneTool({ name: toolName, arguments: step.args }, jwtToken)
       } else {
         throw new Error(`Unknown tool: ${step.tool_name}`)
       }
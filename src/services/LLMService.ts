@@ -221,13 +221,15 @@ export class LLMService extends EventEmitter {
   }
 
   /**
-   * Main inference method - chat with LLM using user's credentials and MCP tools
+   * Main inference method - chat with LLM using user's credentials and MCP tools.
+   * Tool calls go through `mcpService`, which is a simulated one for dry runs.
    */
   async chat(
     messages: LLMMessage[],
     jwtToken?: string,
     workspaceId?: string,
-    conversationId?: string
+    conversationId?: string,
+    mcpService: MCPService = this.mcpService
   ): Promise<LLMResponse> {
     const credentials = await this.getUserLLMCredentials(jwtToken)
     
@@ -240,9 +242,9 @@ export class LLMService extends EventEmitter {
     console.log(`[LLM] Using ${credentials.preferred_provider} with ${tools.length} MCP tools available`)
 
     if (credentials.preferred_provider === 'anthropic' && credentials.anthropic_api_key) {
-      return await this.chatWithClaude(messages, credentials.anthropic_api_key, tools, jwtToken, workspaceId, conversationId)
+      return await this.chatWithClaude(messages, credentials.anthropic_api_key, tools, jwtToken, workspaceId, conversationId, mcpService)
     } else if (credentials.preferred_provider === 'openai' && credentials.openai_api_key) {
-      return await this.chatWithOpenAI(messages, credentials.openai_api_key, tools, jwtToken, workspaceId, conversationId)
+      return await this.chatWithOpenAI(messages, credentials.openai_api_key, tools, jwtToken, workspaceId, conversationId, mcpService)
     } else {
       throw new Error('No valid LLM credentials available')
     }
@@ -257,7 +259,8 @@ export class LLMService extends EventEmitter {
     tools: LLMToolDefinition[],
     jwtToken?: string,
     workspaceId?: string,
-    conversationId?: string
+    conversationId?: string,
+    mcpService: MCPService = this.mcpService
   ): Promise<LLMResponse> {
     const anthropic = new Anthropic({ apiKey })
 
@@ -340,7 +343,7 @@ export class LLMService extends EventEmitter {
           })
         }
         
-        const toolResults = await this.executeMCPToolCalls(toolCalls, jwtToken, workspaceId, conversationId)
+        const toolResults = await this.executeMCPToolCalls(toolCalls, jwtToken, workspaceId, conversationId, mcpService)
         console.log(`[LLM] Tool execution completed. Results:`, JSON.stringify(toolResults, null, 2))
         console.log(`[LLM] Tool result summary:`, toolResults.map(r => ({success: r.success, tool: r.tool_name, error: r.error})))
         
@@ -554,7 +557,8 @@ The user specifically wants to see real execution results, not simulated text. B
     tools: LLMToolDefinition[],
     jwtToken?: string,
     workspaceId?: string,
-    conversationId?: string
+    conversationId?: string,
+    mcpService: MCPService = this.mcpService
   ): Promise<LLMResponse> {
     const openai = new OpenAI({ apiKey })
 
@@ -592,7 +596,7 @@ The user specifically wants to see real execution results, not simulated text. B
         }
         
         // Execute tool calls
-        const toolResults = await this.executeMCPToolCalls(choice.message.tool_calls, jwtToken, workspaceId, conversationId)
+        const toolResults = await this.executeMCPToolCalls(choice.message.tool_calls, jwtToken, workspaceId, conversationId, mcpService)
         
         // Send thinking indicator after tool execution
         if (conversationId) {
@@ -667,7 +671,8 @@ The user specifically wants to see real execution results, not simulated text. B
     toolCalls: LLMToolCall[], 
     jwtToken?: string, 
     workspaceId?: string,
-    conversationId?: string
+    conversationId?: string,
+    mcpService: MCPService = this.mcpService
   ): Promise<any[]> {
     const results = []
 
@@ -709,7 +714,7 @@ The user specifically wants to see real execution results, not simulated text. B
           }
           
           try {
-            const result = await this.mcpService.callAtlasTool({ name: toolName, arguments: args }, jwtToken)
+            const result = await mcpService.callAtlasTool({ name: toolName, arguments: args }, jwtToken)
             results.push(result)
             
             // Emit success progress
@@ -775,7 +780,7 @@ The user specifically wants to see real execution results, not simulated text. B
           }
           
           try {
-            const result = await this.mcpService.callContextTool({ name: toolName, arguments: args }, jwtToken)
+            const result = await mcpService.callContextTool({ name: toolName, arguments: args }, jwtToken)
             results.push(result)
           } catch (error) {
             const errorMessage = `Failed to execute Context tool '${toolName}': ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -828,7 +833,7 @@ The user specifically wants to see real execution results, not simulated text. B
                 console.log('[LLM] Repository info missing for mercury_analyze_repository, attempting to retrieve from active deployment session')
                 
                 // Try to get the most recent deployment session to extract repository info
-                const sessionResult = await this.mcpService.callContextTool({ 
+                const sessionResult = await mcpService.callContextTool({ 
                   name: 'get_user_sessions', 
                   arguments: { workspace_id: workspaceId, jwt_token: jwtToken, user_id: args.user_id } 
                 }, jwtToken)
@@ -892,7 +897,7 @@ The user specifically wants to see real execution results, not simulated text. B
                       
                       try {
                         // Get detailed session information
-                        const sessionDetailResult = await this.mcpService.callContextTool({ 
+                        const sessionDetailResult = await mcpService.callContextTool({ 
                           name: 'get_deployment_session', 
                           arguments: { 
                             session_id: sessionIdMatch[1],
@@ -961,7 +966,7 @@ The user specifically wants to see real execution results, not simulated text. B
           }
           
           try {
-            const result = await this.mcpService.callMercuryTool({ name: name, arguments: args }, jwtToken)
+            const result = await mcpService.callMercuryTool({ name: name, arguments: args }, jwtToken)
             results.push(result)
           } catch (error) {
             const errorMessage = `Failed to execute Mercury tool '${name}': ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -1002,7 +1007,7 @@ The user specifically wants to see real execution results, not simulated text. B
           }
           
           try {
-            const result = await this.mcpService.callNeptuneTool({ name: name, arguments: args }, jwtToken)
+            const result = await mcpService.callNeptuneTool({ name: name, arguments: args }, jwtToken)
             results.push(result)
           } catch (error) {
             const errorMessage = `Failed to execute Neptune tool '${name}': ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -1043,7 +1048,7 @@ The user specifically wants to see real execution results, not simulated text. B
           }
           
           try {
-            const result = await this.mcpService.callHermesTool({ name: name, arguments: args }, jwtToken)
+            const result = await mcpService.callHermesTool({ name: name, arguments: args }, jwtToken)
             results.push(result)
           } catch (error) {
             const errorMessage = `Failed to execute Hermes tool '${name}': ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -1084,7 +1089,7 @@ The user specifically wants to see real execution results, not simulated text. B
           }
           
           try {
-            const result = await this.mcpService.callPhoenixTool({ name: name, arguments: args }, jwtToken)
+            const result = await mcpService.callPhoenixTool({ name: name, arguments: args }, jwtToken)
             results.push(result)
             
             // Emit success progress
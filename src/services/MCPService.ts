@@ -6,7 +6,8 @@
  */
 
 import axios from 'axios'
-import { WatsonConfig } from '../types'
+import { SimulatedResponse, SimulationReport, WatsonConfig } from '../types'
+import { MCPSimulation, loadSimulatedResponses } from './MCPSimulation'
 
 export interface MCPToolCall {
   name: string
@@ -27,8 +28,23 @@ export interface MCPTool {
   inputSchema: any
 }
 
+// ControlVector agents reachable through MCP
+export const MCP_AGENTS = ['atlas', 'context', 'neptune', 'mercury', 'hermes', 'phoenix'] as const
+
+export type MCPAgent = typeof MCP_AGENTS[number]
+
+export interface MCPServiceOptions {
+  // Dry run: Atlas, Hermes, Phoenix and Neptune calls go to the simulation
+  simulation?: MCPSimulation
+  // Aborts tool calls still in progress, e.g. when a workflow step times out
+  signal?: AbortSignal
+}
+
 export class MCPService {
   private config: WatsonConfig
+  private simulation?: MCPSimulation
+  private signal?: AbortSignal
+  private simulatedResponses: SimulatedResponse[]
   private atlasClient: any
   private contextClient: any
   private neptuneClient: any
@@ -36,8 +52,11 @@ export class MCPService {
   private hermesClient: any
   private phoenixClient: any
 
-  constructor(config: WatsonConfig) {
+  constructor(config: WatsonConfig, options: MCPServiceOptions = {}) {
     this.config = config
+    this.simulation = options.simulation
+    this.signal = options.signal
+    this.simulatedResponses = loadSimulatedResponses(config.simulation_responses_file)
     
     // Create axios clients for MCP services
     this.atlasClient = axios.create({
@@ -77,6 +96,39 @@ export class MCPService {
     })
   }
 
+  /**
+   * A simulation answering from the given fake responses, then the
+   * configured ones, then built-in defaults
+   */
+  createSimulation(responses: SimulatedResponse[] = [], report?: SimulationReport): MCPSimulation {
+    return new MCPSimulation({ responses: [...responses, ...this.simulatedResponses], report })
+  }
+
+  /**
+   * The same service with side-effecting calls answered by a simulation
+   */
+  withSimulation(simulation: MCPSimulation): MCPService {
+    const simulated = new MCPService({ ...this.config, simulation_responses_file: undefined }, { simulation })
+    simulated.simulatedResponses = this.simulatedResponses
+    return simulated
+  }
+
+  /**
+   * The same service with tool calls aborted once `signal` fires
+   */
+  withSignal(signal: AbortSignal): MCPService {
+    const scoped = new MCPService(
+      { ...this.config, simulation_responses_file: undefined },
+      { simulation: this.simulation, signal }
+    )
+    scoped.simulatedResponses = this.simulatedResponses
+    return scoped
+  }
+
+  isSimulated(): boolean {
+    return !!this.simulation
+  }
+
   /**
    * Get available MCP tools from Atlas service
    */
@@ -159,6 +211,10 @@ export class MCPService {
    * Call an Atlas MCP tool
    */
   async callAtlasTool(toolCall: MCPToolCall, jwtToken?: string): Promise<MCPToolResult> {
+    if (this.simulation) {
+      return this.simulation.call('atlas', toolCall)
+    }
+
     try {
       const headers: any = { 'Content-Type': 'application/json' }
       if (jwtToken) {
@@ -166,7 +222,7 @@ export class MCPService {
       }
 
       console.log(`[MCP] Calling Atlas tool: ${toolCall.name}`)
-      const response = await this.atlasClient.post('/call', toolCall, { headers })
+      const response = await this.atlasClient.post('/call', toolCall, { headers, signal: this.signal })
       
       return {
         success: response.data.success || false,
@@ -196,7 +252,7 @@ export class MCPService {
       }
 
       console.log(`[MCP] Calling Context Manager tool: ${toolCall.name}`)
-      const response = await this.contextClient.post('/call', toolCall, { headers })
+      const response = await this.contextClient.post('/call', toolCall, { headers, signal: this.signal })
       
       return {
         success: response.data.success || false,
@@ -219,6 +275,10 @@ export class MCPService {
    * Call a Neptune DNS MCP tool
    */
   async callNeptuneTool(toolCall: MCPToolCall, jwtToken?: string): Promise<MCPToolResult> {
+    if (this.simulation) {
+      return this.simulation.call('neptune', toolCall)
+    }
+
     try {
       const headers: any = { 'Content-Type': 'application/json' }
       if (jwtToken) {
@@ -226,7 +286,7 @@ export class MCPService {
       }
 
       console.log(`[MCP] Calling Neptune DNS tool: ${toolCall.name}`)
-      const response = await this.neptuneClient.post('/call', toolCall, { headers })
+      const response = await this.neptuneClient.post('/call', toolCall, { headers, signal: this.signal })
       
       return {
         success: response.data.success || false,
@@ -256,7 +316,7 @@ export class MCPService {
       }
 
       console.log(`[MCP] Calling Mercury repository analysis tool: ${toolCall.name}`)
-      const response = await this.mercuryClient.post('/call', toolCall, { headers })
+      const response = await this.mercuryClient.post('/call', toolCall, { headers, signal: this.signal })
       
       return {
         success: response.data.success || false,
@@ -279,6 +339,10 @@ export class MCPService {
    * Call a Hermes SSH key management MCP tool
    */
   async callHermesTool(toolCall: MCPToolCall, jwtToken?: string): Promise<MCPToolResult> {
+    if (this.simulation) {
+      return this.simulation.call('hermes', toolCall)
+    }
+
     try {
       const headers: any = { 'Content-Type': 'application/json' }
       if (jwtToken) {
@@ -286,7 +350,7 @@ export class MCPService {
       }
 
       console.log(`[MCP] Calling Hermes SSH management tool: ${toolCall.name}`)
-      const response = await this.hermesClient.post('/call', toolCall, { headers })
+      const response = await this.hermesClient.post('/call', toolCall, { headers, signal: this.signal })
       
       return {
         success: response.data.success || false,
@@ -310,6 +374,9 @@ export class MCPService {
    */
   async callPhoenix(toolName: string, args: any, jwtToken?: string): Promise<MCPToolResult> {
     const toolCall: MCPToolCall = { name: toolName, arguments: args }
+    if (this.simulation) {
+      return this.simulation.call('phoenix', toolCall)
+    }
     
     try {
       const headers: any = { 'Content-Type': 'application/json' }
@@ -318,7 +385,7 @@ export class MCPService {
       }
 
       console.log(`[MCP] Calling Phoenix deployment tool: ${toolCall.name}`)
-      const response = await this.phoenixClient.post('/call', toolCall, { headers })
+      const response = await this.phoenixClient.post('/call', toolCall, { headers, signal: this.signal })
       
       return {
         success: response.data.success || false,
@@ -341,6 +408,10 @@ export class MCPService {
    * Call a Phoenix deployment MCP tool (standardized interface)
    */
   async callPhoenixTool(toolCall: MCPToolCall, jwtToken?: string): Promise<MCPToolResult> {
+    if (this.simulation) {
+      return this.simulation.call('phoenix', toolCall)
+    }
+
     try {
       const headers: any = { 'Content-Type': 'application/json' }
       if (jwtToken) {
@@ -348,7 +419,7 @@ export class MCPService {
       }
 
       console.log(`[MCP] Calling Phoenix deployment tool: ${toolCall.name}`)
-      const response = await this.phoenixClient.post('/call', toolCall, { headers })
+      const response = await this.phoenixClient.post('/call', toolCall, { headers, signal: this.signal })
       
       return {
         success: response.data.success || false,
@@ -735,22 +806,30 @@ export class MCPService {
   }
 
   /**
-   * Batch call multiple MCP tools across services
+   * Call a tool on any agent by name
    */
-  async batchCall(calls: Array<{ service: 'atlas' | 'context' | 'neptune' | 'mercury' | 'hermes', toolCall: MCPToolCall }>, jwtToken?: string): Promise<MCPToolResult[]> {
-    const promises = calls.map(async ({ service, toolCall }) => {
-      if (service === 'atlas') {
+  async callAgentTool(agent: MCPAgent, toolCall: MCPToolCall, jwtToken?: string): Promise<MCPToolResult> {
+    switch (agent) {
+      case 'atlas':
         return await this.callAtlasTool(toolCall, jwtToken)
-      } else if (service === 'context') {
+      case 'context':
         return await this.callContextTool(toolCall, jwtToken)
-      } else if (service === 'neptune') {
+      case 'neptune':
         return await this.callNeptuneTool(toolCall, jwtToken)
-      } else if (service === 'mercury') {
+      case 'mercury':
         return await this.callMercuryTool(toolCall, jwtToken)
-      } else {
+      case 'phoenix':
+        return await this.callPhoenixTool(toolCall, jwtToken)
+      default:
         return await this.callHermesTool(toolCall, jwtToken)
-      }
-    })
+    }
+  }
+
+  /**
+   * Batch call multiple MCP tools across services
+   */
+  async batchCall(calls: Array<{ service: MCPAgent, toolCall: MCPToolCall }>, jwtToken?: string): Promise<MCPToolResult[]> {
+    const promises = calls.map(({ service, toolCall }) => this.callAgentTool(service, toolCall, jwtToken))
 
     return await Promise.all(promises)
   }
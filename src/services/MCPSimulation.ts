@@ -0,0 +1,235 @@
+/**
+ * MCP Simulation - Answers tool calls during a dry run
+ *
+ * While a dry run is in progress, MCPService hands every Atlas, Hermes,
+ * Phoenix and Neptune call to a simulation instead of the real service.
+ * Calls are answered from the configured fake responses (falling back to
+ * built-in ones) and recorded, so the report shows what would have been
+ * provisioned, changed or deleted and what it would cost. Context Manager
+ * and Mercury calls only read, and still go to the real services.
+ */
+
+import * as fs from 'fs'
+import {
+  SimulatedCall,
+  SimulatedChange,
+  SimulatedEffect,
+  SimulatedResponse,
+  SimulatedService,
+  SimulationReport
+} from '../types'
+import { MCPToolCall, MCPToolResult } from './MCPService'
+
+export interface MCPSimulationOptions {
+  responses?: SimulatedResponse[]
+  prices?: Record<string, number> // Monthly USD by size slug
+  report?: SimulationReport // Continue an earlier report, e.g. after recovery
+}
+
+// DigitalOcean list prices, monthly USD
+const DEFAULT_PRICES: Record<string, number> = {
+  's-1vcpu-512mb-10gb': 4,
+  's-1vcpu-1gb': 6,
+  's-1vcpu-2gb': 12,
+  's-2vcpu-2gb': 18,
+  's-2vcpu-4gb': 24,
+  's-4vcpu-8gb': 48,
+  's-8vcpu-16gb': 96,
+  'db-s-1vcpu-1gb': 15,
+  'db-s-1vcpu-2gb': 30,
+  'db-s-2vcpu-4gb': 60,
+  'db-s-4vcpu-8gb': 120,
+  load_balancer: 12
+}
+
+// Verbs in a snake_case tool name, checked in order
+const EFFECT_VERBS: Array<[SimulatedEffect, string[]]> = [
+  ['delete', ['destroy', 'delete', 'remove', 'revoke', 'teardown']],
+  ['provision', ['provision', 'create', 'generate', 'register', 'add']],
+  ['change', ['update', 'scale', 'deploy', 'configure', 'rotate', 'execute', 'restart', 'apply', 'establish', 'migrate', 'set']]
+]
+
+const SECRET_ARGUMENTS = ['jwt_token', 'token', 'password', 'private_key', 'api_key']
+
+export class MCPSimulation {
+  private calls: SimulatedCall[]
+  private approvals: SimulationReport['approvals']
+  private responses: SimulatedResponse[]
+  private prices: Record<string, number>
+
+  constructor(options: MCPSimulationOptions = {}) {
+    this.responses = options.responses || []
+    this.prices = { ...DEFAULT_PRICES, ...options.prices }
+    this.calls = options.report ? structuredClone(options.report.calls) : []
+    this.approvals = options.report ? structuredClone(options.report.approvals) : []
+  }
+
+  /**
+   * Answer a tool call without reaching the service, and record it
+   */
+  call(service: SimulatedService, toolCall: MCPToolCall): MCPToolResult {
+    const sequence = this.calls.length + 1
+    const args = redact(toolCall.arguments || {})
+    const configured = this.responses.find(response => matchesResponse(response, service, toolCall.name))
+    const effect = configured?.effect || inferEffect(toolCall.name)
+    const resources = resourcesFromArguments(toolCall.name, args)
+    const cost = effect === 'provision' ? this.monthlyCost(resources) : undefined
+
+    const result = configured
+      ? configured.result
+      : this.defaultResult(toolCall.name, sequence, args, resources)
+    const success = !configured?.error
+
+    this.calls.push({
+      sequence,
+      service,
+      tool: toolCall.name,
+      arguments: args,
+      effect,
+      success,
+      ...(success ? { result } : { error: configured!.error }),
+      ...(resources.length > 0 && { resources }),
+      ...(cost !== undefined && { estimated_monthly_cost: cost }),
+      called_at: new Date().toISOString()
+    })
+
+    console.log(`[MCP] Simulated ${service} tool: ${toolCall.name} (${effect})`)
+    return success
+      ? { success: true, result, tool_name: toolCall.name, execution_time: '0ms' }
+      : { success: false, error: configured!.error, tool_name: toolCall.name }
+  }
+
+  /**
+   * An approval that would have been requested; dry runs grant it
+   */
+  recordApproval(message: string, stepId?: string): void {
+    this.approvals.push({ step_id: stepId, message })
+  }
+
+  report(): SimulationReport {
+    const changes = (effect: SimulatedEffect): SimulatedChange[] => this.calls
+      .filter(call => call.success && call.effect === effect)
+      .map(call => ({
+        sequence: call.sequence,
+        service: call.service,
+        tool: call.tool,
+        resources: call.resources || [],
+        ...(call.estimated_monthly_cost !== undefined && { estimated_monthly_cost: call.estimated_monthly_cost })
+      }))
+
+    const provisioned = changes('provision')
+    return {
+      calls: structuredClone(this.calls),
+      provisioned,
+      changed: changes('change'),
+      deleted: changes('delete'),
+      approvals: structuredClone(this.approvals),
+      estimated_monthly_cost: provisioned.reduce((total, change) => total + (change.estimated_monthly_cost || 0), 0),
+      currency: 'USD'
+    }
+  }
+
+  /**
+   * Monthly cost of resources by size; unknown sizes count as free
+   */
+  monthlyCost(resources: any[]): number {
+    return resources.reduce((total, resource) => {
+      const specifications = resource?.specifications || resource || {}
+      const price = resource?.type === 'load_balancer'
+        ? this.prices.load_balancer
+        : this.prices[specifications.size] || 0
+      const units = Number(specifications.count || specifications.num_nodes) || 1
+      return total + price * units
+    }, 0)
+  }
+
+  private defaultResult(tool: string, sequence: number, args: Record<string, any>, resources: any[]): any {
+    if (/estimate.*cost/.test(tool)) {
+      return {
+        monthly_cost: this.monthlyCost(resources),
+        currency: 'USD',
+        resources: resources.map(resource => ({
+          name: resource?.name,
+          type: resource?.type,
+          monthly_cost: this.monthlyCost([resource])
+        })),
+        simulated: true
+      }
+    }
+
+    if (tool === 'provision_infrastructure') {
+      return {
+        infrastructure: { id: `sim-infra-${sequence}`, status: 'simulated', resources },
+        operation: { id: `sim-op-${sequence}`, status: 'simulated' },
+        simulated: true
+      }
+    }
+
+    if (inferEffect(tool) === 'provision') {
+      return { id: `sim-${tool}-${sequence}`, status: 'simulated', ...(args.name && { name: args.name }), simulated: true }
+    }
+
+    return { simulated: true }
+  }
+}
+
+/**
+ * Fake responses from a JSON file holding an array of SimulatedResponse
+ */
+export function loadSimulatedResponses(file?: string): SimulatedResponse[] {
+  if (!file) return []
+
+  try {
+    const responses = JSON.parse(fs.readFileSync(file, 'utf8'))
+    if (!Array.isArray(responses) || responses.some(response => typeof response?.tool !== 'string')) {
+      throw new Error('expected an array of { tool, result?, error?, service?, effect? }')
+    }
+    return responses
+  } catch (error) {
+    console.error(`[MCP] Ignoring simulated responses in ${file}:`, error instanceof Error ? error.message : error)
+    return []
+  }
+}
+
+function matchesResponse(response: SimulatedResponse, service: SimulatedService, tool: string): boolean {
+  if (response.service && response.service !== service) return false
+  return response.tool.endsWith('*')
+    ? tool.startsWith(response.tool.slice(0, -1))
+    : tool === response.tool
+}
+
+function inferEffect(tool: string): SimulatedEffect {
+  const words = tool.toLowerCase().split(/[_\-.]/)
+  return EFFECT_VERBS.find(([, verbs]) => verbs.some(verb => words.includes(verb)))?.[0] || 'read'
+}
+
+/**
+ * Resources named by a call's arguments - a resource list, resource ids, or
+ * a single sized resource (`atlas_create_droplet { name, size }`)
+ */
+function resourcesFromArguments(tool: string, args: Record<string, any>): any[] {
+  const resources = args.resources ?? args.requirements?.resources
+  if (Array.isArray(resources)) return resources
+
+  const ids = args.resource_ids ?? args.resourceIds
+  if (Array.isArray(ids)) return ids.map(id => ({ id }))
+
+  if (args.size) {
+    const type = /database/.test(tool) ? 'database' : /load_balancer/.test(tool) ? 'load_balancer' : 'droplet'
+    return [{ type, name: args.name, specifications: { size: args.size, ...(args.region && { region: args.region }) } }]
+  }
+
+  return []
+}
+
+function redact(value: any): any {
+  if (Array.isArray(value)) return value.map(redact)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !SECRET_ARGUMENTS.includes(key))
+        .map(([key, item]) => [key, redact(item)])
+    )
+  }
+  return value
+}
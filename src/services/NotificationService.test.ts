@@ -0,0 +1,60 @@
+import { InMemoryEventLogStore } from '../stores'
+import { NotificationService } from './NotificationService'
+
+async function logEvents(eventLog: InMemoryEventLogStore, count: number): Promise<void> {
+  for (let index = 0; index < count; index++) {
+    await eventLog.append({
+      id: `event-${index}`,
+      type: 'conversation.message',
+      conversation_id: 'conversation-1',
+      timestamp: '2026-10-19T10:00:00.000Z',
+      data: {}
+    })
+  }
+}
+
+function replay(service: NotificationService, resumeFrom: number) {
+  const stream = service.createEventStream('conversation-1', undefined, resumeFrom)
+  const sequences: number[] = []
+  stream.on('event', event => sequences.push(event.sequence))
+  return new Promise<{ sequences: number[]; summary: any }>(resolve => {
+    stream.on('replay_complete', summary => resolve({ sequences, summary }))
+  })
+}
+
+describe('NotificationService replay', () => {
+  let eventLog: InMemoryEventLogStore
+  let service: NotificationService
+
+  beforeEach(async () => {
+    eventLog = new InMemoryEventLogStore(3)
+    service = new NotificationService(undefined, eventLog)
+    await logEvents(eventLog, 5)
+  })
+
+  it('replays the events after the resume point', async () => {
+    const { sequences, summary } = await replay(service, 3)
+
+    expect(sequences).toEqual([4, 5])
+    expect(summary).toEqual({ replayed: 2, last_sequence: 5, truncated: false })
+  })
+
+  it('flags a replay that starts past the retained events', async () => {
+    const { sequences, summary } = await replay(service, 1)
+
+    expect(sequences).toEqual([3, 4, 5])
+    expect(summary).toMatchObject({ replayed: 3, truncated: true })
+  })
+
+  it('does not flag a client that is up to date', async () => {
+    const { summary } = await replay(service, 5)
+
+    expect(summary).toEqual({ replayed: 0, last_sequence: 5, truncated: false })
+  })
+
+  it('flags a resume point the log has restarted below', async () => {
+    const { summary } = await replay(new NotificationService(undefined, new InMemoryEventLogStore()), 5)
+
+    expect(summary).toMatchObject({ replayed: 0, truncated: true })
+  })
+})
@@ -1,6 +1,8 @@
 import { EventEmitter } from 'eventemitter3'
 import { WatsonEvent, WatsonEventType, WorkflowExecution, ConversationMessage } from '../types'
 import { v4 as uuidv4 } from 'uuid'
+import { EventTransport, InProcessEventTransport } from './EventTransport'
+import { EventLogStore, InMemoryEventLogStore } from '../stores'
 
 interface NotificationChannel {
   id: string
@@ -16,9 +18,16 @@ export class NotificationService extends EventEmitter {
   private channels: Map<string, NotificationChannel> = new Map()
   private eventHistory: WatsonEvent[] = []
   private maxHistorySize = 1000
+  private transport: EventTransport
+  private eventLog: EventLogStore
 
-  constructor() {
+  constructor(transport?: EventTransport, eventLog?: EventLogStore) {
     super()
+    this.transport = transport || new InProcessEventTransport()
+    this.eventLog = eventLog || new InMemoryEventLogStore()
+
+    // Every event - local or from another instance - arrives through the transport
+    this.transport.subscribe((event) => this.deliverEvent(event))
   }
 
   /**
@@ -54,7 +63,7 @@ export class NotificationService extends EventEmitter {
   }
 
   /**
-   * Send a Watson event notification
+   * Send a Watson event notification to every Watson instance
    */
   sendEvent(event: Omit<WatsonEvent, 'id' | 'timestamp'>): void {
     const watsonEvent: WatsonEvent = {
@@ -63,6 +72,23 @@ export class NotificationService extends EventEmitter {
       ...event
     }
 
+    // Log first so the event carries its sequence number to every subscriber
+    this.eventLog.append(watsonEvent)
+      .catch((error) => {
+        console.error(`Failed to log event ${watsonEvent.id}, delivering without replay support:`, error)
+        return watsonEvent
+      })
+      .then((sequencedEvent) => this.transport.publish(sequencedEvent).catch((error) => {
+        // Transport is down - at least reach subscribers on this instance
+        console.error(`Failed to publish event ${watsonEvent.id} via ${this.transport.name}:`, error)
+        this.deliverEvent(sequencedEvent)
+      }))
+  }
+
+  /**
+   * Deliver an event to this instance's channels and listeners
+   */
+  private deliverEvent(watsonEvent: WatsonEvent): void {
     // Store in history
     this.eventHistory.push(watsonEvent)
     if (this.eventHistory.length > this.maxHistorySize) {
@@ -107,7 +133,7 @@ export class NotificationService extends EventEmitter {
       eventType = 'workflow.started'
     } else if (execution.status === 'completed') {
       eventType = 'workflow.completed'
-    } else if (execution.status === 'failed' || execution.status === 'timeout' || execution.status === 'cancelled') {
+    } else if (execution.status === 'failed' || execution.status === 'timeout' || execution.status === 'cancelled' || execution.status === 'interrupted') {
       eventType = 'workflow.failed'
     }
 
@@ -171,6 +197,10 @@ export class NotificationService extends EventEmitter {
       data: {
         execution,
         approval_request: approvalRequest,
+        step_id: approvalRequest?.step_id,
+        message: approvalRequest?.message,
+        estimated_cost: approvalRequest?.cost,
+        requirements: approvalRequest?.requirements,
         requires_approval_by: new Date(Date.now() + 30 * 60 * 1000).toISOString() // 30 minutes from now
       }
     })
@@ -226,13 +256,14 @@ export class NotificationService extends EventEmitter {
   }
 
   /**
-   * Get event history for a conversation
+   * Get event history for a conversation from the durable event log,
+   * optionally only events after a given sequence number
    */
-  getConversationHistory(conversationId: string, limit = 50): WatsonEvent[] {
-    return this.eventHistory
-      .filter(event => event.conversation_id === conversationId)
-      .slice(-limit)
-      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+  async getConversationHistory(conversationId: string, limit = 50, afterSequence?: number): Promise<WatsonEvent[]> {
+    if (afterSequence !== undefined) {
+      return await this.eventLog.range(conversationId, afterSequence, limit)
+    }
+    return await this.eventLog.latest(conversationId, limit)
   }
 
   /**
@@ -354,16 +385,36 @@ export class NotificationService extends EventEmitter {
   }
 
   /**
-   * Create a real-time event stream for a conversation
+   * Create a real-time event stream for a conversation.
+   *
+   * When `resumeFrom` is given, events logged after that sequence number are
+   * replayed first. Live events arriving during the replay are buffered and
+   * flushed afterwards, skipping any the replay already delivered, so the
+   * subscriber sees each event once and in order. Emits 'replay_complete'
+   * once it has switched over to live delivery; `truncated` is set when the
+   * log no longer holds every event after `resumeFrom`, and the client should
+   * reload the conversation instead of relying on the replay.
    */
-  createEventStream(conversationId: string, eventTypes?: WatsonEventType[]): EventEmitter {
+  createEventStream(conversationId: string, eventTypes?: WatsonEventType[], resumeFrom?: number): EventEmitter {
     const stream = new EventEmitter()
+    const matches = (event: WatsonEvent) =>
+      event.conversation_id === conversationId && (!eventTypes || eventTypes.includes(event.type))
+
+    let replaying = resumeFrom !== undefined
+    let replayedThrough = resumeFrom ?? 0
+    const buffered: WatsonEvent[] = []
+
+    const forwardLive = (event: WatsonEvent) => {
+      if (event.sequence !== undefined && event.sequence <= replayedThrough) return
+      stream.emit('event', event)
+    }
     
     const handleEvent = (event: WatsonEvent) => {
-      if (event.conversation_id === conversationId) {
-        if (!eventTypes || eventTypes.includes(event.type)) {
-          stream.emit('event', event)
-        }
+      if (!matches(event)) return
+      if (replaying) {
+        buffered.push(event)
+      } else {
+        forwardLive(event)
       }
     }
 
@@ -374,9 +425,43 @@ export class NotificationService extends EventEmitter {
       this.off('watson_event', handleEvent)
     })
 
+    if (resumeFrom !== undefined) {
+      this.eventLog.range(conversationId, resumeFrom)
+        .then(async (missed) => {
+          const truncated = missed.length > 0
+            ? missed[0].sequence! > resumeFrom + 1
+            : await this.eventLogRestarted(conversationId, resumeFrom)
+
+          missed.filter(matches).forEach((event) => {
+            replayedThrough = Math.max(replayedThrough, event.sequence || 0)
+            stream.emit('event', event)
+          })
+          return { replayed: missed.length, truncated }
+        })
+        .catch((error) => {
+          console.error(`Failed to replay events for conversation ${conversationId}:`, error)
+          stream.emit('replay_error', error)
+          return { replayed: 0, truncated: false }
+        })
+        .then(({ replayed, truncated }) => {
+          replaying = false
+          buffered.splice(0).forEach(forwardLive)
+          stream.emit('replay_complete', { replayed, last_sequence: replayedThrough, truncated })
+        })
+    }
+
     return stream
   }
 
+  /**
+   * Whether the log has expired since the client saw `resumeFrom`; its
+   * numbering then starts again below it
+   */
+  private async eventLogRestarted(conversationId: string, resumeFrom: number): Promise<boolean> {
+    const [last] = await this.eventLog.latest(conversationId, 1)
+    return (last?.sequence ?? 0) < resumeFrom
+  }
+
   /**
    * Get real-time statistics
    */
@@ -385,6 +470,8 @@ export class NotificationService extends EventEmitter {
     events_by_type: Record<string, number>
     active_channels: number
     channels_by_type: Record<string, number>
+    transport: string
+    instance_id: string
   } {
     const eventsByType: Record<string, number> = {}
     this.eventHistory.forEach(event => {
@@ -400,7 +487,9 @@ export class NotificationService extends EventEmitter {
       total_events: this.eventHistory.length,
       events_by_type: eventsByType,
       active_channels: this.channels.size,
-      channels_by_type: channelsByType
+      channels_by_type: channelsByType,
+      transport: this.transport.name,
+      instance_id: this.transport.instanceId
     }
   }
 }
\ No newline at end of file
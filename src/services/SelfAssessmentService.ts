@@ -40,9 +40,9 @@ export interface DeploymentTarget {
  * Provides physical verification of deployments and self-healing capabilities
  */
 export class SelfAssessmentService {
-  private logger: FastifyBaseLogger
+  private logger: Pick<FastifyBaseLogger, 'info'>
 
-  constructor(logger: FastifyBaseLogger) {
+  constructor(logger: Pick<FastifyBaseLogger, 'info'> = console) {
     this.logger = logger
   }
 
@@ -0,0 +1,43 @@
+import { ResourceBlueprint } from '../types'
+
+/**
+ * Storage for blueprints that workspace admins add to the resource catalog.
+ * A workspace blueprint replaces the built-in blueprint with the same id.
+ */
+export interface BlueprintStore {
+  get(workspaceId: string, blueprintId: string): Promise<ResourceBlueprint | undefined>
+  save(workspaceId: string, blueprint: ResourceBlueprint): Promise<void>
+  delete(workspaceId: string, blueprintId: string): Promise<boolean>
+  list(workspaceId: string): Promise<ResourceBlueprint[]>
+}
+
+/**
+ * Process-local store used when no Redis URL is configured
+ */
+export class InMemoryBlueprintStore implements BlueprintStore {
+  private blueprints: Map<string, Map<string, ResourceBlueprint>> = new Map()
+
+  async get(workspaceId: string, blueprintId: string): Promise<ResourceBlueprint | undefined> {
+    const blueprint = this.blueprints.get(workspaceId)?.get(blueprintId)
+    return blueprint ? structuredClone(blueprint) : undefined
+  }
+
+  async save(workspaceId: string, blueprint: ResourceBlueprint): Promise<void> {
+    let workspace = this.blueprints.get(workspaceId)
+    if (!workspace) {
+      workspace = new Map()
+      this.blueprints.set(workspaceId, workspace)
+    }
+    workspace.set(blueprint.id, structuredClone(blueprint))
+  }
+
+  async delete(workspaceId: string, blueprintId: string): Promise<boolean> {
+    return this.blueprints.get(workspaceId)?.delete(blueprintId) ?? false
+  }
+
+  async list(workspaceId: string): Promise<ResourceBlueprint[]> {
+    return Array.from(this.blueprints.get(workspaceId)?.values() || [])
+      .map(blueprint => structuredClone(blueprint))
+      .sort((a, b) => a.id.localeCompare(b.id))
+  }
+}
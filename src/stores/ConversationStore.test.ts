@@ -0,0 +1,80 @@
+import { Conversation, WorkflowExecution } from '../types'
+import { InMemoryConversationStore } from './ConversationStore'
+
+function conversation(): Conversation {
+  return {
+    id: 'conversation-1',
+    workspace_id: 'ws-1',
+    user_id: 'user-1',
+    status: 'active',
+    messages: [],
+    active_workflows: [],
+    context: {
+      active_infrastructure: [],
+      pending_operations: [],
+      preferred_provider: 'digitalocean',
+      preferred_regions: [],
+      cost_limits: { daily_limit: 50, monthly_limit: 1000, alert_threshold: 80 },
+      mentioned_technologies: [],
+      deployment_requirements: [],
+      agent_states: {}
+    },
+    created_at: '2026-10-19T10:00:00.000Z',
+    updated_at: '2026-10-19T10:00:00.000Z',
+    last_activity_at: '2026-10-19T10:00:00.000Z'
+  }
+}
+
+function execution(id: string, status: WorkflowExecution['status'] = 'running'): WorkflowExecution {
+  return { id, status, started_at: '2026-10-19T10:00:00.000Z' } as WorkflowExecution
+}
+
+describe('InMemoryConversationStore', () => {
+  let store: InMemoryConversationStore
+
+  beforeEach(async () => {
+    store = new InMemoryConversationStore()
+    await store.save(conversation())
+  })
+
+  it('keeps workflow progress recorded while a message was being handled', async () => {
+    const handling = await store.get('conversation-1')
+
+    await store.saveActiveWorkflow('conversation-1', execution('execution-1'))
+    await store.update('conversation-1', { updated_at: '2026-10-19T10:01:00.000Z' })
+
+    const stored = await store.get('conversation-1')
+    expect(handling!.active_workflows).toEqual([])
+    expect(stored!.active_workflows.map(w => w.id)).toEqual(['execution-1'])
+    expect(stored!.updated_at).toBe('2026-10-19T10:01:00.000Z')
+  })
+
+  it('updates and removes active workflows one by one', async () => {
+    await store.saveActiveWorkflow('conversation-1', execution('execution-1'))
+    await store.saveActiveWorkflow('conversation-1', execution('execution-2'))
+    await store.saveActiveWorkflow('conversation-1', execution('execution-1', 'waiting_approval'))
+    await store.removeActiveWorkflow('conversation-1', 'execution-2')
+
+    const stored = await store.get('conversation-1')
+    expect(stored!.active_workflows.map(w => [w.id, w.status])).toEqual([['execution-1', 'waiting_approval']])
+  })
+
+  it('reports progress for an unknown conversation as not found', async () => {
+    expect(await store.saveActiveWorkflow('missing', execution('execution-1'))).toBe(false)
+    expect(await store.removeActiveWorkflow('missing', 'execution-1')).toBe(false)
+  })
+
+  it('does not persist bearer tokens', async () => {
+    await store.appendMessage('conversation-1', {
+      id: 'message-1',
+      conversation_id: 'conversation-1',
+      role: 'user',
+      content: 'Deploy my app',
+      timestamp: '2026-10-19T10:00:00.000Z',
+      jwt_token: 'secret-token'
+    })
+
+    const [message] = (await store.get('conversation-1'))!.messages
+    expect(message).not.toHaveProperty('jwt_token')
+  })
+})
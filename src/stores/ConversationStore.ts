@@ -0,0 +1,104 @@
+import { Conversation, ConversationMessage, WorkflowExecution } from '../types'
+
+export interface ConversationFilter {
+  workspace_id?: string
+  user_id?: string
+}
+
+// Conversation fields that change after creation, written one by one
+export type ConversationUpdate = Partial<Pick<Conversation, 'status' | 'updated_at' | 'last_activity_at'>>
+
+/**
+ * Persistence for conversations.
+ *
+ * `save` creates the conversation and writes everything except `messages`
+ * and `active_workflows`. After that, concurrent writers (the autonomous
+ * loop, execution updates, workflow progress) only touch what they change:
+ * `update` sets individual fields, messages are append-only through
+ * `appendMessage`, and each active workflow is saved or removed on its own,
+ * so no writer overwrites another's changes with a stale copy.
+ *
+ * `saveActiveWorkflow` and `removeActiveWorkflow` resolve to false when the
+ * conversation does not exist.
+ */
+export interface ConversationStore {
+  get(conversationId: string): Promise<Conversation | undefined>
+  save(conversation: Conversation): Promise<void>
+  update(conversationId: string, fields: ConversationUpdate): Promise<void>
+  appendMessage(conversationId: string, message: ConversationMessage): Promise<void>
+  saveActiveWorkflow(conversationId: string, execution: WorkflowExecution): Promise<boolean>
+  removeActiveWorkflow(conversationId: string, executionId: string): Promise<boolean>
+  list(filter?: ConversationFilter): Promise<Conversation[]>
+  delete(conversationId: string): Promise<boolean>
+}
+
+/**
+ * Process-local store used when no Redis URL is configured
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  private conversations: Map<string, Conversation> = new Map()
+
+  async get(conversationId: string): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(conversationId)
+    return conversation ? structuredClone(conversation) : undefined
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    const existing = this.conversations.get(conversation.id)
+    this.conversations.set(conversation.id, {
+      ...structuredClone(conversation),
+      messages: existing ? existing.messages : [],
+      active_workflows: existing ? existing.active_workflows : []
+    })
+  }
+
+  async update(conversationId: string, fields: ConversationUpdate): Promise<void> {
+    const conversation = this.conversations.get(conversationId)
+    if (conversation) {
+      Object.assign(conversation, fields)
+    }
+  }
+
+  async appendMessage(conversationId: string, message: ConversationMessage): Promise<void> {
+    const conversation = this.conversations.get(conversationId)
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`)
+    }
+
+    // Bearer tokens are only needed for the request in flight - never persist them
+    const { jwt_token: _jwtToken, ...persisted } = message
+    conversation.messages.push(structuredClone(persisted))
+  }
+
+  async saveActiveWorkflow(conversationId: string, execution: WorkflowExecution): Promise<boolean> {
+    const conversation = this.conversations.get(conversationId)
+    if (!conversation) return false
+
+    const index = conversation.active_workflows.findIndex(w => w.id === execution.id)
+    if (index !== -1) {
+      conversation.active_workflows[index] = structuredClone(execution)
+    } else {
+      conversation.active_workflows.push(structuredClone(execution))
+    }
+    return true
+  }
+
+  async removeActiveWorkflow(conversationId: string, executionId: string): Promise<boolean> {
+    const conversation = this.conversations.get(conversationId)
+    if (!conversation) return false
+
+    conversation.active_workflows = conversation.active_workflows.filter(w => w.id !== executionId)
+    return true
+  }
+
+  async list(filter: ConversationFilter = {}): Promise<Conversation[]> {
+    return Array.from(this.conversations.values())
+      .filter(c => !filter.workspace_id || c.workspace_id === filter.workspace_id)
+      .filter(c => !filter.user_id || c.user_id === filter.user_id)
+      .map(c => structuredClone(c))
+  }
+
+  async delete(conversationId: string): Promise<boolean> {
+    return this.conversations.delete(conversationId)
+  }
+}
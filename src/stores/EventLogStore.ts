@@ -0,0 +1,57 @@
+import { WatsonEvent } from '../types'
+
+/**
+ * Ordered, per-conversation log of WatsonEvents.
+ *
+ * `append` assigns each event the next sequence number for its
+ * conversation, with no gaps. Sequence numbers are what SSE `Last-Event-ID`
+ * and WebSocket `resume_from` refer to when a client reconnects and asks for
+ * replay. Only the latest `retention` events are kept, so a replay whose
+ * first event is past `afterSequence + 1` has lost events.
+ */
+export interface EventLogStore {
+  append(event: WatsonEvent): Promise<WatsonEvent>
+  range(conversationId: string, afterSequence: number, limit?: number): Promise<WatsonEvent[]>
+  latest(conversationId: string, limit: number): Promise<WatsonEvent[]>
+}
+
+export const DEFAULT_EVENT_LOG_RETENTION = 1000
+
+/**
+ * Process-local event log used when no Redis URL is configured
+ */
+export class InMemoryEventLogStore implements EventLogStore {
+  private logs: Map<string, { sequence: number; events: WatsonEvent[] }> = new Map()
+
+  constructor(private retention = DEFAULT_EVENT_LOG_RETENTION) {}
+
+  async append(event: WatsonEvent): Promise<WatsonEvent> {
+    let log = this.logs.get(event.conversation_id)
+    if (!log) {
+      log = { sequence: 0, events: [] }
+      this.logs.set(event.conversation_id, log)
+    }
+
+    const sequenced = { ...event, sequence: ++log.sequence }
+    log.events.push(sequenced)
+    if (log.events.length > this.retention) {
+      log.events.shift()
+    }
+
+    return sequenced
+  }
+
+  async range(conversationId: string, afterSequence: number, limit = this.retention): Promise<WatsonEvent[]> {
+    const log = this.logs.get(conversationId)
+    if (!log) return []
+
+    return log.events
+      .filter(event => event.sequence! > afterSequence)
+      .slice(0, limit)
+  }
+
+  async latest(conversationId: string, limit: number): Promise<WatsonEvent[]> {
+    const log = this.logs.get(conversationId)
+    return log ? log.events.slice(-limit) : []
+  }
+}
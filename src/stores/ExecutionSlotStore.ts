@@ -0,0 +1,83 @@
+/**
+ * Cluster-wide concurrency slots for workflow executions.
+ *
+ * `acquire` takes a slot for an execution if fewer than `maxConcurrent`
+ * slots are held and the execution's workspace holds fewer than
+ * `maxPerWorkspace`; with `force` it takes one regardless (executions that
+ * continue after a pause or are recovered). Slots expire after `ttlMs`
+ * unless renewed, so an instance that dies does not hold its slots forever.
+ * Taking a slot an execution already holds only renews it.
+ */
+export interface ExecutionSlotStore {
+  acquire(
+    executionId: string,
+    workspaceId: string,
+    limits: ExecutionSlotLimits,
+    ttlMs: number,
+    force?: boolean
+  ): Promise<SlotAcquisition>
+  renew(executionId: string, ttlMs: number): Promise<void>
+  release(executionId: string): Promise<void>
+  counts(): Promise<{ running: number; by_workspace: Record<string, number> }>
+}
+
+export interface ExecutionSlotLimits {
+  maxConcurrent: number
+  maxPerWorkspace: number
+}
+
+// 'full' - no slot anywhere; 'workspace_full' - others may still get one
+export type SlotAcquisition = 'acquired' | 'full' | 'workspace_full'
+
+/**
+ * Process-local slots used when no Redis URL is configured
+ */
+export class InMemoryExecutionSlotStore implements ExecutionSlotStore {
+  private slots: Map<string, { workspaceId: string; expiresAt: number }> = new Map()
+
+  async acquire(
+    executionId: string,
+    workspaceId: string,
+    limits: ExecutionSlotLimits,
+    ttlMs: number,
+    force = false
+  ): Promise<SlotAcquisition> {
+    this.prune()
+
+    if (!force && !this.slots.has(executionId)) {
+      if (this.slots.size >= limits.maxConcurrent) return 'full'
+
+      const inWorkspace = [...this.slots.values()].filter(slot => slot.workspaceId === workspaceId).length
+      if (inWorkspace >= limits.maxPerWorkspace) return 'workspace_full'
+    }
+
+    this.slots.set(executionId, { workspaceId, expiresAt: Date.now() + ttlMs })
+    return 'acquired'
+  }
+
+  async renew(executionId: string, ttlMs: number): Promise<void> {
+    const slot = this.slots.get(executionId)
+    if (slot) slot.expiresAt = Date.now() + ttlMs
+  }
+
+  async release(executionId: string): Promise<void> {
+    this.slots.delete(executionId)
+  }
+
+  async counts(): Promise<{ running: number; by_workspace: Record<string, number> }> {
+    this.prune()
+
+    const byWorkspace: Record<string, number> = {}
+    for (const { workspaceId } of this.slots.values()) {
+      byWorkspace[workspaceId] = (byWorkspace[workspaceId] || 0) + 1
+    }
+    return { running: this.slots.size, by_workspace: byWorkspace }
+  }
+
+  private prune(): void {
+    const now = Date.now()
+    for (const [executionId, slot] of this.slots) {
+      if (slot.expiresAt <= now) this.slots.delete(executionId)
+    }
+  }
+}
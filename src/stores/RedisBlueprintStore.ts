@@ -0,0 +1,38 @@
+import Redis from 'ioredis'
+import { ResourceBlueprint, WatsonConfig } from '../types'
+import { BlueprintStore } from './BlueprintStore'
+import { redisKey } from './redis'
+
+/**
+ * Redis-backed workspace blueprint store shared by every Watson instance.
+ *
+ * Layout:
+ *   blueprints:{workspaceId}    hash of blueprint id -> JSON blueprint
+ */
+export class RedisBlueprintStore implements BlueprintStore {
+  constructor(private redis: Redis, private config: WatsonConfig) {}
+
+  async get(workspaceId: string, blueprintId: string): Promise<ResourceBlueprint | undefined> {
+    const raw = await this.redis.hget(this.blueprintsKey(workspaceId), blueprintId)
+    return raw ? JSON.parse(raw) : undefined
+  }
+
+  async save(workspaceId: string, blueprint: ResourceBlueprint): Promise<void> {
+    await this.redis.hset(this.blueprintsKey(workspaceId), blueprint.id, JSON.stringify(blueprint))
+  }
+
+  async delete(workspaceId: string, blueprintId: string): Promise<boolean> {
+    return (await this.redis.hdel(this.blueprintsKey(workspaceId), blueprintId)) === 1
+  }
+
+  async list(workspaceId: string): Promise<ResourceBlueprint[]> {
+    const documents = await this.redis.hvals(this.blueprintsKey(workspaceId))
+    return documents
+      .map(raw => JSON.parse(raw) as ResourceBlueprint)
+      .sort((a, b) => a.id.localeCompare(b.id))
+  }
+
+  private blueprintsKey(workspaceId: string): string {
+    return redisKey(this.config, 'blueprints', workspaceId)
+  }
+}
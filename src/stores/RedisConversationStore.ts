@@ -0,0 +1,190 @@
+import Redis from 'ioredis'
+import { Conversation, ConversationMessage, WatsonConfig, WorkflowExecution } from '../types'
+import { ConversationStore, ConversationFilter, ConversationUpdate } from './ConversationStore'
+import { redisKey } from './redis'
+
+// Write a hash field only while the conversation document exists, so that
+// progress for a deleted or unknown conversation leaves nothing behind
+const SET_IF_EXISTS_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  return 0
+end
+redis.call('HSET', KEYS[2], ARGV[1], ARGV[2])
+return 1
+`
+
+const DELETE_IF_EXISTS_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  return 0
+end
+redis.call('HDEL', KEYS[2], ARGV[1])
+return 1
+`
+
+/**
+ * Redis-backed conversation store shared by every Watson instance.
+ *
+ * Layout:
+ *   conversation:{id}               JSON document without messages, active
+ *                                   workflows, status or timestamps
+ *   conversation:{id}:state         hash of status, updated_at, last_activity_at
+ *   conversation:{id}:messages      list of JSON messages (append-only)
+ *   conversation:{id}:workflows     hash of active executions by id (JSON)
+ *   conversations                   sorted set of ids scored by last activity
+ *   conversations:workspace:{id}    same, per workspace
+ *   conversations:user:{id}         same, per user
+ */
+export class RedisConversationStore implements ConversationStore {
+  constructor(private redis: Redis, private config: WatsonConfig) {}
+
+  async get(conversationId: string): Promise<Conversation | undefined> {
+    const [conversation] = await this.load([conversationId])
+    return conversation
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    const { messages, active_workflows, status, updated_at, last_activity_at, ...document } = conversation
+
+    await this.indexActivity(conversation, last_activity_at)
+      .set(this.conversationKey(conversation.id), JSON.stringify(document))
+      .hset(this.stateKey(conversation.id), { status, updated_at, last_activity_at })
+      .exec()
+  }
+
+  async update(conversationId: string, fields: ConversationUpdate): Promise<void> {
+    const raw = await this.redis.get(this.conversationKey(conversationId))
+    if (!raw) return
+
+    const changed = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined))
+    if (Object.keys(changed).length === 0) return
+
+    const transaction = fields.last_activity_at
+      ? this.indexActivity(JSON.parse(raw), fields.last_activity_at)
+      : this.redis.multi()
+    await transaction.hset(this.stateKey(conversationId), changed).exec()
+  }
+
+  async appendMessage(conversationId: string, message: ConversationMessage): Promise<void> {
+    // Bearer tokens are only needed for the request in flight - never persist them
+    const { jwt_token: _jwtToken, ...persisted } = message
+    await this.redis.rpush(this.messagesKey(conversationId), JSON.stringify(persisted))
+  }
+
+  async saveActiveWorkflow(conversationId: string, execution: WorkflowExecution): Promise<boolean> {
+    const saved = await this.redis.eval(
+      SET_IF_EXISTS_SCRIPT,
+      2,
+      this.conversationKey(conversationId),
+      this.workflowsKey(conversationId),
+      execution.id,
+      JSON.stringify(execution)
+    )
+    return saved === 1
+  }
+
+  async removeActiveWorkflow(conversationId: string, executionId: string): Promise<boolean> {
+    const found = await this.redis.eval(
+      DELETE_IF_EXISTS_SCRIPT,
+      2,
+      this.conversationKey(conversationId),
+      this.workflowsKey(conversationId),
+      executionId
+    )
+    return found === 1
+  }
+
+  async list(filter: ConversationFilter = {}): Promise<Conversation[]> {
+    let indexKey = redisKey(this.config, 'conversations')
+    if (filter.workspace_id) {
+      indexKey = redisKey(this.config, 'conversations', 'workspace', filter.workspace_id)
+    } else if (filter.user_id) {
+      indexKey = redisKey(this.config, 'conversations', 'user', filter.user_id)
+    }
+
+    const ids = await this.redis.zrevrange(indexKey, 0, -1)
+    const conversations = await this.load(ids)
+
+    return conversations.filter((c): c is Conversation =>
+      !!c && (!filter.user_id || c.user_id === filter.user_id)
+    )
+  }
+
+  async delete(conversationId: string): Promise<boolean> {
+    const conversation = await this.get(conversationId)
+    if (!conversation) return false
+
+    await this.redis
+      .multi()
+      .del(
+        this.conversationKey(conversationId),
+        this.stateKey(conversationId),
+        this.messagesKey(conversationId),
+        this.workflowsKey(conversationId)
+      )
+      .zrem(redisKey(this.config, 'conversations'), conversationId)
+      .zrem(redisKey(this.config, 'conversations', 'workspace', conversation.workspace_id), conversationId)
+      .zrem(redisKey(this.config, 'conversations', 'user', conversation.user_id), conversationId)
+      .exec()
+
+    return true
+  }
+
+  private async load(ids: string[]): Promise<Array<Conversation | undefined>> {
+    if (ids.length === 0) return []
+
+    const pipeline = this.redis.pipeline()
+    for (const id of ids) {
+      pipeline.get(this.conversationKey(id))
+      pipeline.hgetall(this.stateKey(id))
+      pipeline.lrange(this.messagesKey(id), 0, -1)
+      pipeline.hvals(this.workflowsKey(id))
+    }
+    const results = (await pipeline.exec()) || []
+
+    return ids.map((_id, index) => {
+      const [documentError, document] = results[index * 4] || []
+      const [stateError, state] = results[index * 4 + 1] || []
+      const [messagesError, messages] = results[index * 4 + 2] || []
+      const [workflowsError, workflows] = results[index * 4 + 3] || []
+      if (documentError || stateError || messagesError || workflowsError || !document) return undefined
+
+      const activeWorkflows: WorkflowExecution[] = ((workflows as string[]) || []).map(raw => JSON.parse(raw))
+      return {
+        ...JSON.parse(document as string),
+        ...(state as Record<string, string>),
+        messages: ((messages as string[]) || []).map(raw => JSON.parse(raw)),
+        // Oldest first, as they were started
+        active_workflows: activeWorkflows.sort((a, b) => a.started_at.localeCompare(b.started_at))
+      } as Conversation
+    })
+  }
+
+  /**
+   * A transaction that files the conversation under `lastActivityAt` in the
+   * list indexes
+   */
+  private indexActivity(conversation: Pick<Conversation, 'id' | 'workspace_id' | 'user_id'>, lastActivityAt: string) {
+    const score = new Date(lastActivityAt).getTime()
+    return this.redis
+      .multi()
+      .zadd(redisKey(this.config, 'conversations'), score, conversation.id)
+      .zadd(redisKey(this.config, 'conversations', 'workspace', conversation.workspace_id), score, conversation.id)
+      .zadd(redisKey(this.config, 'conversations', 'user', conversation.user_id), score, conversation.id)
+  }
+
+  private conversationKey(conversationId: string): string {
+    return redisKey(this.config, 'conversation', conversationId)
+  }
+
+  private stateKey(conversationId: string): string {
+    return redisKey(this.config, 'conversation', conversationId, 'state')
+  }
+
+  private messagesKey(conversationId: string): string {
+    return redisKey(this.config, 'conversation', conversationId, 'messages')
+  }
+
+  private workflowsKey(conversationId: string): string {
+    return redisKey(this.config, 'conversation', conversationId, 'workflows')
+  }
+}
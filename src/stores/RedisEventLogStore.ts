@@ -0,0 +1,74 @@
+import Redis from 'ioredis'
+import { WatsonEvent, WatsonConfig } from '../types'
+import { EventLogStore, DEFAULT_EVENT_LOG_RETENTION } from './EventLogStore'
+import { redisKey } from './redis'
+
+// Conversation event logs expire a week after their last event
+const EVENT_LOG_TTL_SECONDS = 7 * 24 * 60 * 60
+
+// Number and log the event in one step so that no sequence number is taken
+// without its event being logged. ARGV[1] is the event JSON, which always
+// has fields, so the sequence can be spliced in after its opening brace.
+const APPEND_EVENT_SCRIPT = `
+local sequence = redis.call('INCR', KEYS[1])
+redis.call('ZADD', KEYS[2], sequence, '{"sequence":' .. sequence .. ',' .. string.sub(ARGV[1], 2))
+redis.call('ZREMRANGEBYRANK', KEYS[2], 0, tonumber(ARGV[2]))
+redis.call('EXPIRE', KEYS[1], ARGV[3])
+redis.call('EXPIRE', KEYS[2], ARGV[3])
+return sequence
+`
+
+/**
+ * Redis-backed event log shared by every Watson instance.
+ *
+ * Layout:
+ *   events:{conversationId}:seq    INCR counter - cluster-wide sequence
+ *   events:{conversationId}        sorted set of JSON events scored by sequence
+ */
+export class RedisEventLogStore implements EventLogStore {
+  constructor(
+    private redis: Redis,
+    private config: WatsonConfig,
+    private retention = DEFAULT_EVENT_LOG_RETENTION
+  ) {}
+
+  async append(event: WatsonEvent): Promise<WatsonEvent> {
+    const { sequence, ...unsequenced } = event
+    const assigned = await this.redis.eval(
+      APPEND_EVENT_SCRIPT,
+      2,
+      this.sequenceKey(event.conversation_id),
+      this.logKey(event.conversation_id),
+      JSON.stringify(unsequenced),
+      -(this.retention + 1),
+      EVENT_LOG_TTL_SECONDS
+    )
+
+    return { ...unsequenced, sequence: Number(assigned) }
+  }
+
+  async range(conversationId: string, afterSequence: number, limit = this.retention): Promise<WatsonEvent[]> {
+    const raw = await this.redis.zrangebyscore(
+      this.logKey(conversationId),
+      `(${afterSequence}`,
+      '+inf',
+      'LIMIT',
+      0,
+      limit
+    )
+    return raw.map(entry => JSON.parse(entry))
+  }
+
+  async latest(conversationId: string, limit: number): Promise<WatsonEvent[]> {
+    const raw = await this.redis.zrange(this.logKey(conversationId), -limit, -1)
+    return raw.map(entry => JSON.parse(entry))
+  }
+
+  private sequenceKey(conversationId: string): string {
+    return redisKey(this.config, 'events', conversationId, 'seq')
+  }
+
+  private logKey(conversationId: string): string {
+    return redisKey(this.config, 'events', conversationId)
+  }
+}
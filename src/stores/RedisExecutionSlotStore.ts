@@ -0,0 +1,106 @@
+import Redis from 'ioredis'
+import { WatsonConfig } from '../types'
+import { ExecutionSlotLimits, ExecutionSlotStore, SlotAcquisition } from './ExecutionSlotStore'
+import { redisKey } from './redis'
+
+// Drop expired slots, then take one if the limits allow. A limit of -1 is
+// unlimited. Counting the workspace walks every held slot, which is at most
+// the global limit.
+const ACQUIRE_SLOT_SCRIPT = `
+local expired = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+for _, id in ipairs(expired) do
+  redis.call('HDEL', KEYS[2], id)
+end
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+
+if ARGV[7] ~= '1' and not redis.call('ZSCORE', KEYS[1], ARGV[2]) then
+  local maxConcurrent = tonumber(ARGV[4])
+  if maxConcurrent >= 0 and redis.call('ZCARD', KEYS[1]) >= maxConcurrent then
+    return 'full'
+  end
+
+  local maxPerWorkspace = tonumber(ARGV[5])
+  if maxPerWorkspace >= 0 then
+    local inWorkspace = 0
+    for _, workspace in ipairs(redis.call('HVALS', KEYS[2])) do
+      if workspace == ARGV[3] then
+        inWorkspace = inWorkspace + 1
+      end
+    end
+    if inWorkspace >= maxPerWorkspace then
+      return 'workspace_full'
+    end
+  end
+end
+
+redis.call('ZADD', KEYS[1], ARGV[6], ARGV[2])
+redis.call('HSET', KEYS[2], ARGV[2], ARGV[3])
+return 'acquired'
+`
+
+/**
+ * Redis-backed execution slots shared by every Watson instance.
+ *
+ * Layout:
+ *   workflow:slots              sorted set of execution ids scored by expiry (ms)
+ *   workflow:slots:workspaces   hash of execution id -> workspace id
+ */
+export class RedisExecutionSlotStore implements ExecutionSlotStore {
+  constructor(private redis: Redis, private config: WatsonConfig) {}
+
+  async acquire(
+    executionId: string,
+    workspaceId: string,
+    limits: ExecutionSlotLimits,
+    ttlMs: number,
+    force = false
+  ): Promise<SlotAcquisition> {
+    const now = Date.now()
+    const result = await this.redis.eval(
+      ACQUIRE_SLOT_SCRIPT,
+      2,
+      this.slotsKey(),
+      this.workspacesKey(),
+      now,
+      executionId,
+      workspaceId,
+      Number.isFinite(limits.maxConcurrent) ? limits.maxConcurrent : -1,
+      Number.isFinite(limits.maxPerWorkspace) ? limits.maxPerWorkspace : -1,
+      now + ttlMs,
+      force ? '1' : '0'
+    )
+    return result as SlotAcquisition
+  }
+
+  async renew(executionId: string, ttlMs: number): Promise<void> {
+    await this.redis.zadd(this.slotsKey(), 'XX', Date.now() + ttlMs, executionId)
+  }
+
+  async release(executionId: string): Promise<void> {
+    await this.redis
+      .multi()
+      .zrem(this.slotsKey(), executionId)
+      .hdel(this.workspacesKey(), executionId)
+      .exec()
+  }
+
+  async counts(): Promise<{ running: number; by_workspace: Record<string, number> }> {
+    const held = await this.redis.zrangebyscore(this.slotsKey(), `(${Date.now()}`, '+inf')
+    const workspaces = held.length > 0 ? await this.redis.hmget(this.workspacesKey(), ...held) : []
+
+    const byWorkspace: Record<string, number> = {}
+    for (const workspaceId of workspaces) {
+      if (workspaceId === null) continue
+      byWorkspace[workspaceId] = (byWorkspace[workspaceId] || 0) + 1
+    }
+    return { running: held.length, by_workspace: byWorkspace }
+  }
+
+  private slotsKey(): string {
+    return redisKey(this.config, 'workflow', 'slots')
+  }
+
+  private workspacesKey(): string {
+    return redisKey(this.config, 'workflow', 'slots', 'workspaces')
+  }
+}
@@ -0,0 +1,68 @@
+import Redis from 'ioredis'
+import { WorkflowSchedule, WatsonConfig } from '../types'
+import { ScheduleStore, ScheduleFilter, matchesScheduleFilter } from './ScheduleStore'
+import { redisKey } from './redis'
+
+/**
+ * Redis-backed schedule store shared by every Watson instance.
+ *
+ * Layout:
+ *   schedule:{id}                    JSON schedule
+ *   schedules                        set of schedule ids
+ *   schedule:{id}:run:{runAt}        claim for one scheduled run or batch (SET NX, expires)
+ */
+export class RedisScheduleStore implements ScheduleStore {
+  constructor(private redis: Redis, private config: WatsonConfig) {}
+
+  async get(scheduleId: string): Promise<WorkflowSchedule | undefined> {
+    const raw = await this.redis.get(this.scheduleKey(scheduleId))
+    return raw ? JSON.parse(raw) : undefined
+  }
+
+  async save(schedule: WorkflowSchedule): Promise<void> {
+    await this.redis
+      .multi()
+      .set(this.scheduleKey(schedule.id), JSON.stringify(schedule))
+      .sadd(redisKey(this.config, 'schedules'), schedule.id)
+      .exec()
+  }
+
+  async delete(scheduleId: string): Promise<boolean> {
+    const results = await this.redis
+      .multi()
+      .del(this.scheduleKey(scheduleId))
+      .srem(redisKey(this.config, 'schedules'), scheduleId)
+      .exec()
+    return results?.[0]?.[1] === 1
+  }
+
+  async list(filter: ScheduleFilter = {}): Promise<WorkflowSchedule[]> {
+    const ids = await this.redis.smembers(redisKey(this.config, 'schedules'))
+    if (ids.length === 0) return []
+
+    const documents = await this.redis.mget(ids.map(id => this.scheduleKey(id)))
+
+    return documents
+      .filter((raw): raw is string => !!raw)
+      .map(raw => JSON.parse(raw) as WorkflowSchedule)
+      .filter(schedule => matchesScheduleFilter(schedule, filter))
+      .sort((a, b) => (a.next_run_at || '').localeCompare(b.next_run_at || ''))
+  }
+
+  async claimRun(scheduleId: string, runAt: string, ownerId: string, ttlMs: number): Promise<boolean> {
+    const claimed = await this.redis.set(
+      // Run times and the scheduler's batch keys are used as given - both
+      // are formatted the same way by every replica
+      redisKey(this.config, 'schedule', scheduleId, 'run', runAt),
+      ownerId,
+      'PX',
+      ttlMs,
+      'NX'
+    )
+    return claimed === 'OK'
+  }
+
+  private scheduleKey(scheduleId: string): string {
+    return redisKey(this.config, 'schedule', scheduleId)
+  }
+}
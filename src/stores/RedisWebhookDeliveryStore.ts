@@ -0,0 +1,61 @@
+import Redis from 'ioredis'
+import { WebhookDelivery, WatsonConfig } from '../types'
+import { WebhookDeliveryStore, DEFAULT_WEBHOOK_DELIVERY_RETENTION } from './WebhookDeliveryStore'
+import { redisKey } from './redis'
+
+// Delivery logs for triggers that stop receiving calls expire after 30 days
+const DELIVERY_LOG_TTL_SECONDS = 30 * 24 * 60 * 60
+
+/**
+ * Redis-backed delivery log shared by every Watson instance.
+ *
+ * Layout:
+ *   hook:{triggerId}:deliveries             list of JSON deliveries, newest first
+ *   hook:{triggerId}:delivery:{replayKey}  replay guard (SET NX, expires)
+ */
+export class RedisWebhookDeliveryStore implements WebhookDeliveryStore {
+  constructor(
+    private redis: Redis,
+    private config: WatsonConfig,
+    private retention = DEFAULT_WEBHOOK_DELIVERY_RETENTION
+  ) {}
+
+  async claimDelivery(triggerId: string, replayKey: string, ttlMs: number): Promise<boolean> {
+    const claimed = await this.redis.set(
+      this.claimKey(triggerId, replayKey),
+      '1',
+      'PX',
+      ttlMs,
+      'NX'
+    )
+    return claimed === 'OK'
+  }
+
+  async releaseDelivery(triggerId: string, replayKey: string): Promise<void> {
+    await this.redis.del(this.claimKey(triggerId, replayKey))
+  }
+
+  async append(delivery: WebhookDelivery): Promise<void> {
+    const logKey = this.logKey(delivery.trigger_id)
+
+    await this.redis
+      .multi()
+      .lpush(logKey, JSON.stringify(delivery))
+      .ltrim(logKey, 0, this.retention - 1)
+      .expire(logKey, DELIVERY_LOG_TTL_SECONDS)
+      .exec()
+  }
+
+  async list(triggerId: string, limit: number): Promise<WebhookDelivery[]> {
+    const raw = await this.redis.lrange(this.logKey(triggerId), 0, limit - 1)
+    return raw.map(entry => JSON.parse(entry))
+  }
+
+  private claimKey(triggerId: string, replayKey: string): string {
+    return redisKey(this.config, 'hook', triggerId, 'delivery', replayKey)
+  }
+
+  private logKey(triggerId: string): string {
+    return redisKey(this.config, 'hook', triggerId, 'deliveries')
+  }
+}
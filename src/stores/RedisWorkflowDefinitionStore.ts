@@ -0,0 +1,80 @@
+import Redis from 'ioredis'
+import { v4 as uuidv4 } from 'uuid'
+import { WatsonConfig, WorkflowDefinition } from '../types'
+import { WorkflowDefinitionStore } from './WorkflowDefinitionStore'
+import { redisKey } from './redis'
+
+/**
+ * Redis-backed workflow definition store shared by every Watson instance.
+ * Each save or delete is announced on a channel so the other instances
+ * reload that definition straight away.
+ *
+ * Layout:
+ *   workflow:definitions            hash of workflow id -> JSON definition
+ *   workflow:definitions:changes    pub/sub channel of {origin, id}
+ */
+export class RedisWorkflowDefinitionStore implements WorkflowDefinitionStore {
+  private readonly instanceId = uuidv4()
+  private handlers: Array<(id: string) => void> = []
+  private subscriber?: Redis
+
+  constructor(private redis: Redis, private config: WatsonConfig) {}
+
+  async get(id: string): Promise<WorkflowDefinition | undefined> {
+    const raw = await this.redis.hget(this.definitionsKey(), id)
+    return raw ? JSON.parse(raw) : undefined
+  }
+
+  async save(definition: WorkflowDefinition): Promise<void> {
+    await this.redis.hset(this.definitionsKey(), definition.id, JSON.stringify(definition))
+    await this.announce(definition.id)
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = (await this.redis.hdel(this.definitionsKey(), id)) === 1
+    if (deleted) {
+      await this.announce(id)
+    }
+    return deleted
+  }
+
+  async list(): Promise<WorkflowDefinition[]> {
+    const documents = await this.redis.hvals(this.definitionsKey())
+    return documents
+      .map(raw => JSON.parse(raw) as WorkflowDefinition)
+      .sort((a, b) => a.id.localeCompare(b.id))
+  }
+
+  subscribe(handler: (id: string) => void): void {
+    this.handlers.push(handler)
+    if (this.subscriber) return
+
+    // Subscribed connections cannot issue other commands - use a dedicated one
+    this.subscriber = this.redis.duplicate()
+    this.subscriber.subscribe(this.changesChannel()).catch(error => {
+      console.error('[WorkflowDefinitionStore] Failed to subscribe to definition changes:', error.message)
+    })
+
+    this.subscriber.on('message', (_channel: string, raw: string) => {
+      try {
+        const { origin, id } = JSON.parse(raw) as { origin: string; id: string }
+        if (origin === this.instanceId) return
+        this.handlers.forEach(handler => handler(id))
+      } catch (error) {
+        console.error('[WorkflowDefinitionStore] Dropped malformed change:', error)
+      }
+    })
+  }
+
+  private async announce(id: string): Promise<void> {
+    await this.redis.publish(this.changesChannel(), JSON.stringify({ origin: this.instanceId, id }))
+  }
+
+  private definitionsKey(): string {
+    return redisKey(this.config, 'workflow', 'definitions')
+  }
+
+  private changesChannel(): string {
+    return redisKey(this.config, 'workflow', 'definitions', 'changes')
+  }
+}
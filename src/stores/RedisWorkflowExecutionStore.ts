@@ -0,0 +1,359 @@
+import Redis, { ChainableCommander } from 'ioredis'
+import { WorkflowExecution, WorkflowExecutionStatus, WatsonConfig } from '../types'
+import { WorkflowExecutionStore, WorkflowExecutionFilter, matchesExecutionFilter } from './WorkflowExecutionStore'
+import { redisKey } from './redis'
+
+const EXECUTION_STATUSES: WorkflowExecutionStatus[] = [
+  'pending', 'running', 'waiting_approval', 'waiting_input',
+  'completed', 'failed', 'cancelled', 'timeout', 'interrupted'
+]
+const TERMINAL_STATUSES: WorkflowExecutionStatus[] = ['completed', 'failed', 'cancelled', 'timeout', 'interrupted']
+
+// Finished executions are removed 30 days after they finish. The checkpoint
+// also expires a day later in case no instance gets round to pruning it.
+const EXECUTION_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+const EXECUTION_EXPIRY_SECONDS = EXECUTION_RETENTION_MS / 1000 + 24 * 60 * 60
+const PRUNE_INTERVAL_MS = 60 * 1000
+const BATCH_SIZE = 100
+
+// Set the lease if it is free or already ours, refreshing its TTL
+const ACQUIRE_LEASE_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current or current == ARGV[1] then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+end
+return 0
+`
+
+// Only the owner may release a lease
+const RELEASE_LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`
+
+// Replace the checkpoint only while its status is still ARGV[1].
+// ARGV: expected status, JSON checkpoint, expiry in seconds (0 for none)
+const SAVE_IF_STATUS_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current or cjson.decode(current).status ~= ARGV[1] then
+  return 0
+end
+if ARGV[3] == '0' then
+  redis.call('SET', KEYS[1], ARGV[2])
+else
+  redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+end
+return 1
+`
+
+// Match the filter against the indexes: the status indexes (KEYS[2..n+1])
+// are unioned, the result intersected with the remaining indexes, and one
+// page of ids returned newest first with the total. KEYS[1] is scratch.
+// ARGV: status index count, offset, limit (-1 for all)
+const QUERY_INDEXES_SCRIPT = `
+local statusCount = tonumber(ARGV[1])
+local sources = {}
+if statusCount > 0 then
+  redis.call('ZUNIONSTORE', KEYS[1], statusCount, unpack(KEYS, 2, statusCount + 1))
+  table.insert(sources, KEYS[1])
+end
+for i = statusCount + 2, #KEYS do
+  table.insert(sources, KEYS[i])
+end
+
+local source = sources[1]
+if #sources > 1 then
+  redis.call('ZINTERSTORE', KEYS[1], #sources, unpack(sources))
+  source = KEYS[1]
+end
+
+local total = redis.call('ZCARD', source)
+local ids = {}
+local limit = tonumber(ARGV[3])
+if limit ~= 0 then
+  local stop = -1
+  if limit > 0 then
+    stop = tonumber(ARGV[2]) + limit - 1
+  end
+  ids = redis.call('ZREVRANGE', source, ARGV[2], stop)
+end
+redis.call('DEL', KEYS[1])
+return { total, ids }
+`
+
+/**
+ * Redis-backed workflow execution store.
+ *
+ * Layout:
+ *   workflow:execution:{id}                          JSON checkpoint
+ *   workflow:execution:{id}:lease                    owning instance id (expires)
+ *   workflow:executions                              sorted set of ids scored by start time
+ *   workflow:executions:status:{status}              ids by start time, per status
+ *   workflow:executions:workspace:{workspaceId}      ids by start time, per workspace
+ *   workflow:executions:workflow:{workflowId}        ids by start time, per workflow
+ *   workflow:executions:conversation:{id}            ids by start time, per conversation
+ *   workflow:executions:finished                     finished ids scored by completion time
+ *   workflow:executions:indexed                      set once executions saved before the
+ *                                                    indexes existed have been indexed
+ *   workflow:executions:cancel                       pub/sub channel of cancel requests
+ */
+export class RedisWorkflowExecutionStore implements WorkflowExecutionStore {
+  private prunedAt = 0
+  private indexed?: Promise<void>
+  private cancelHandlers: Array<(executionId: string) => void> = []
+  private subscriber?: Redis
+
+  constructor(private redis: Redis, private config: WatsonConfig) {}
+
+  async get(executionId: string): Promise<WorkflowExecution | undefined> {
+    const raw = await this.redis.get(this.executionKey(executionId))
+    return raw ? JSON.parse(raw) : undefined
+  }
+
+  async save(execution: WorkflowExecution): Promise<void> {
+    const finished = TERMINAL_STATUSES.includes(execution.status)
+    const multi = this.redis.multi()
+
+    if (finished) {
+      multi.set(this.executionKey(execution.id), JSON.stringify(execution), 'EX', EXECUTION_EXPIRY_SECONDS)
+    } else {
+      multi.set(this.executionKey(execution.id), JSON.stringify(execution))
+    }
+    this.updateIndexes(multi, execution)
+    await multi.exec()
+
+    if (finished) await this.prune()
+  }
+
+  async saveIfStatus(execution: WorkflowExecution, expected: WorkflowExecutionStatus): Promise<boolean> {
+    const finished = TERMINAL_STATUSES.includes(execution.status)
+    const saved = await this.redis.eval(
+      SAVE_IF_STATUS_SCRIPT, 1, this.executionKey(execution.id),
+      expected, JSON.stringify(execution), finished ? EXECUTION_EXPIRY_SECONDS : 0
+    )
+    if (saved !== 1) return false
+
+    const multi = this.redis.multi()
+    this.updateIndexes(multi, execution)
+    await multi.exec()
+
+    if (finished) await this.prune()
+    return true
+  }
+
+  async list(filter: WorkflowExecutionFilter = {}): Promise<WorkflowExecution[]> {
+    await this.ensureIndexed()
+    await this.prune()
+
+    const { ids } = await this.query(filter, filter.offset || 0, filter.limit ?? -1)
+    if (ids.length === 0) return []
+
+    const documents = await this.redis.mget(ids.map(id => this.executionKey(id)))
+
+    return documents
+      .filter((raw): raw is string => !!raw)
+      .map(raw => JSON.parse(raw) as WorkflowExecution)
+      .filter(execution => matchesExecutionFilter(execution, filter))
+  }
+
+  async count(filter: WorkflowExecutionFilter = {}): Promise<number> {
+    await this.ensureIndexed()
+    await this.prune()
+
+    const { total } = await this.query(filter, 0, 0)
+    return total
+  }
+
+  async acquireLease(executionId: string, ownerId: string, ttlMs: number): Promise<boolean> {
+    const acquired = await this.redis.eval(ACQUIRE_LEASE_SCRIPT, 1, this.leaseKey(executionId), ownerId, ttlMs)
+    return acquired === 1
+  }
+
+  async releaseLease(executionId: string, ownerId: string): Promise<void> {
+    await this.redis.eval(RELEASE_LEASE_SCRIPT, 1, this.leaseKey(executionId), ownerId)
+  }
+
+  async announceCancel(executionId: string): Promise<void> {
+    await this.redis.publish(this.cancelChannel(), executionId)
+  }
+
+  onCancel(handler: (executionId: string) => void): void {
+    this.cancelHandlers.push(handler)
+    if (this.subscriber) return
+
+    // Subscribed connections cannot issue other commands - use a dedicated one
+    this.subscriber = this.redis.duplicate()
+    this.subscriber.subscribe(this.cancelChannel()).catch(error => {
+      console.error('[WorkflowExecutionStore] Failed to subscribe to cancel requests:', error.message)
+    })
+
+    this.subscriber.on('message', (_channel: string, executionId: string) => {
+      this.cancelHandlers.forEach(handler => handler(executionId))
+    })
+  }
+
+  /**
+   * Queue the index updates for `execution` on `multi`
+   */
+  private updateIndexes(multi: ChainableCommander, execution: WorkflowExecution): void {
+    if (TERMINAL_STATUSES.includes(execution.status)) {
+      multi.zadd(this.finishedKey(), new Date(execution.completed_at || Date.now()).getTime(), execution.id)
+    } else {
+      multi.zrem(this.finishedKey(), execution.id)
+    }
+
+    for (const status of EXECUTION_STATUSES) {
+      if (status !== execution.status) multi.zrem(this.statusKey(status), execution.id)
+    }
+    const startedAt = new Date(execution.started_at).getTime()
+    for (const key of this.indexKeys(execution)) {
+      multi.zadd(key, startedAt, execution.id)
+    }
+  }
+
+  private async query(
+    filter: WorkflowExecutionFilter,
+    offset: number,
+    limit: number
+  ): Promise<{ total: number; ids: string[] }> {
+    const statusKeys = (filter.statuses || []).map(status => this.statusKey(status))
+    const indexKeys = [
+      filter.workspace_id && this.indexKey('workspace', filter.workspace_id),
+      filter.workflow_id && this.indexKey('workflow', filter.workflow_id),
+      filter.conversation_id && this.indexKey('conversation', filter.conversation_id)
+    ].filter((key): key is string => !!key)
+
+    // An empty status list matches nothing
+    if (filter.statuses && statusKeys.length === 0) return { total: 0, ids: [] }
+    if (statusKeys.length === 0 && indexKeys.length === 0) indexKeys.push(this.allKey())
+
+    const [total, ids] = await this.redis.eval(
+      QUERY_INDEXES_SCRIPT,
+      1 + statusKeys.length + indexKeys.length,
+      redisKey(this.config, 'workflow', 'executions', 'scratch'),
+      ...statusKeys,
+      ...indexKeys,
+      statusKeys.length,
+      offset,
+      limit
+    ) as [number, string[]]
+    return { total, ids }
+  }
+
+  /**
+   * Remove executions that finished more than the retention period ago,
+   * at most once a minute per instance
+   */
+  private async prune(): Promise<void> {
+    if (Date.now() - this.prunedAt < PRUNE_INTERVAL_MS) return
+    this.prunedAt = Date.now()
+
+    const expired = await this.redis.zrangebyscore(
+      this.finishedKey(),
+      '-inf',
+      Date.now() - EXECUTION_RETENTION_MS,
+      'LIMIT',
+      0,
+      BATCH_SIZE
+    )
+    if (expired.length === 0) return
+
+    const documents = await this.redis.mget(expired.map(id => this.executionKey(id)))
+    const multi = this.redis.multi()
+    expired.forEach((executionId, index) => {
+      const raw = documents[index]
+      const execution: WorkflowExecution | undefined = raw ? JSON.parse(raw) : undefined
+      const keys = execution
+        ? this.indexKeys(execution)
+        : [this.allKey(), ...EXECUTION_STATUSES.map(status => this.statusKey(status))]
+
+      for (const key of keys) multi.zrem(key, executionId)
+      multi.zrem(this.finishedKey(), executionId).del(this.executionKey(executionId))
+    })
+    await multi.exec()
+  }
+
+  /**
+   * Index executions saved before the indexes existed, once per deployment
+   */
+  private ensureIndexed(): Promise<void> {
+    this.indexed = this.indexed || this.backfillIndexes().catch(error => {
+      this.indexed = undefined
+      throw error
+    })
+    return this.indexed
+  }
+
+  private async backfillIndexes(): Promise<void> {
+    if (await this.redis.exists(this.indexedKey())) return
+
+    const ids = await this.redis.zrange(this.allKey(), 0, -1)
+    for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+      const batch = ids.slice(start, start + BATCH_SIZE)
+      const documents = await this.redis.mget(batch.map(id => this.executionKey(id)))
+      const multi = this.redis.multi()
+
+      documents.forEach((raw, index) => {
+        if (!raw) {
+          multi.zrem(this.allKey(), batch[index])
+          return
+        }
+        const execution: WorkflowExecution = JSON.parse(raw)
+        for (const key of this.indexKeys(execution)) {
+          multi.zadd(key, new Date(execution.started_at).getTime(), execution.id)
+        }
+        if (TERMINAL_STATUSES.includes(execution.status)) {
+          multi.zadd(this.finishedKey(), new Date(execution.completed_at || execution.started_at).getTime(), execution.id)
+        }
+      })
+      await multi.exec()
+    }
+
+    await this.redis.set(this.indexedKey(), '1')
+  }
+
+  private indexKeys(execution: WorkflowExecution): string[] {
+    return [
+      this.allKey(),
+      this.statusKey(execution.status),
+      execution.context.workspace_id && this.indexKey('workspace', execution.context.workspace_id),
+      this.indexKey('workflow', execution.workflow_id),
+      execution.conversation_id && this.indexKey('conversation', execution.conversation_id)
+    ].filter((key): key is string => !!key)
+  }
+
+  private executionKey(executionId: string): string {
+    return redisKey(this.config, 'workflow', 'execution', executionId)
+  }
+
+  private leaseKey(executionId: string): string {
+    return redisKey(this.config, 'workflow', 'execution', executionId, 'lease')
+  }
+
+  private allKey(): string {
+    return redisKey(this.config, 'workflow', 'executions')
+  }
+
+  private statusKey(status: WorkflowExecutionStatus): string {
+    return this.indexKey('status', status)
+  }
+
+  private indexKey(kind: 'status' | 'workspace' | 'workflow' | 'conversation', value: string): string {
+    return redisKey(this.config, 'workflow', 'executions', kind, value)
+  }
+
+  private finishedKey(): string {
+    return redisKey(this.config, 'workflow', 'executions', 'finished')
+  }
+
+  private indexedKey(): string {
+    return redisKey(this.config, 'workflow', 'executions', 'indexed')
+  }
+
+  private cancelChannel(): string {
+    return redisKey(this.config, 'workflow', 'executions', 'cancel')
+  }
+}
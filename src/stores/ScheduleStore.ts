@@ -0,0 +1,70 @@
+import { WorkflowSchedule } from '../types'
+
+export interface ScheduleFilter {
+  workspace_id?: string
+  workflow_id?: string
+  status?: WorkflowSchedule['status']
+}
+
+/**
+ * Storage for workflow schedules.
+ *
+ * `claimRun` is how replicas agree on who fires a scheduled run: only the
+ * first instance to claim a (schedule, run key) pair starts the workflow.
+ * The scheduler also claims a short-lived batch key per tick.
+ */
+export interface ScheduleStore {
+  get(scheduleId: string): Promise<WorkflowSchedule | undefined>
+  save(schedule: WorkflowSchedule): Promise<void>
+  delete(scheduleId: string): Promise<boolean>
+  list(filter?: ScheduleFilter): Promise<WorkflowSchedule[]>
+  claimRun(scheduleId: string, runAt: string, ownerId: string, ttlMs: number): Promise<boolean>
+}
+
+export function matchesScheduleFilter(schedule: WorkflowSchedule, filter: ScheduleFilter): boolean {
+  if (filter.workspace_id && schedule.workspace_id !== filter.workspace_id) return false
+  if (filter.workflow_id && schedule.workflow_id !== filter.workflow_id) return false
+  if (filter.status && schedule.status !== filter.status) return false
+  return true
+}
+
+/**
+ * Process-local store used when no Redis URL is configured
+ */
+export class InMemoryScheduleStore implements ScheduleStore {
+  private schedules: Map<string, WorkflowSchedule> = new Map()
+  private claims: Map<string, number> = new Map()
+
+  async get(scheduleId: string): Promise<WorkflowSchedule | undefined> {
+    const schedule = this.schedules.get(scheduleId)
+    return schedule ? structuredClone(schedule) : undefined
+  }
+
+  async save(schedule: WorkflowSchedule): Promise<void> {
+    this.schedules.set(schedule.id, structuredClone(schedule))
+  }
+
+  async delete(scheduleId: string): Promise<boolean> {
+    return this.schedules.delete(scheduleId)
+  }
+
+  async list(filter: ScheduleFilter = {}): Promise<WorkflowSchedule[]> {
+    return Array.from(this.schedules.values())
+      .filter(schedule => matchesScheduleFilter(schedule, filter))
+      .sort((a, b) => (a.next_run_at || '').localeCompare(b.next_run_at || ''))
+      .map(schedule => structuredClone(schedule))
+  }
+
+  async claimRun(scheduleId: string, runAt: string, _ownerId: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now()
+    for (const [key, expiresAt] of this.claims) {
+      if (expiresAt <= now) this.claims.delete(key)
+    }
+
+    const key = `${scheduleId}:${runAt}`
+    if (this.claims.has(key)) return false
+
+    this.claims.set(key, now + ttlMs)
+    return true
+  }
+}
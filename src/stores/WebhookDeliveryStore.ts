@@ -0,0 +1,58 @@
+import { WebhookDelivery } from '../types'
+
+/**
+ * Delivery log and replay guard for inbound webhook triggers.
+ *
+ * `claimDelivery` records a replay key (the request signature or the
+ * sender's delivery id); a second claim for the same key within the TTL is
+ * a replay and must not start another workflow.
+ * A delivery that failed to start its workflow is released so the sender's
+ * retry goes through.
+ */
+export interface WebhookDeliveryStore {
+  claimDelivery(triggerId: string, replayKey: string, ttlMs: number): Promise<boolean>
+  releaseDelivery(triggerId: string, replayKey: string): Promise<void>
+  append(delivery: WebhookDelivery): Promise<void>
+  list(triggerId: string, limit: number): Promise<WebhookDelivery[]>
+}
+
+export const DEFAULT_WEBHOOK_DELIVERY_RETENTION = 200
+
+/**
+ * Process-local delivery log used when no Redis URL is configured
+ */
+export class InMemoryWebhookDeliveryStore implements WebhookDeliveryStore {
+  private deliveries: Map<string, WebhookDelivery[]> = new Map()
+  private claims: Map<string, number> = new Map()
+
+  constructor(private retention = DEFAULT_WEBHOOK_DELIVERY_RETENTION) {}
+
+  async claimDelivery(triggerId: string, replayKey: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now()
+    for (const [key, expiresAt] of this.claims) {
+      if (expiresAt <= now) this.claims.delete(key)
+    }
+
+    const key = `${triggerId}:${replayKey}`
+    if (this.claims.has(key)) return false
+
+    this.claims.set(key, now + ttlMs)
+    return true
+  }
+
+  async releaseDelivery(triggerId: string, replayKey: string): Promise<void> {
+    this.claims.delete(`${triggerId}:${replayKey}`)
+  }
+
+  async append(delivery: WebhookDelivery): Promise<void> {
+    const log = this.deliveries.get(delivery.trigger_id) || []
+    log.unshift(structuredClone(delivery))
+    this.deliveries.set(delivery.trigger_id, log.slice(0, this.retention))
+  }
+
+  async list(triggerId: string, limit: number): Promise<WebhookDelivery[]> {
+    return (this.deliveries.get(triggerId) || [])
+      .slice(0, limit)
+      .map(delivery => structuredClone(delivery))
+  }
+}
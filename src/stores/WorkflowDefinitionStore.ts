@@ -0,0 +1,43 @@
+import { WorkflowDefinition } from '../types'
+
+/**
+ * Storage for workflow definitions saved through the API, shared so every
+ * instance runs the same definitions. `subscribe` reports the id of each
+ * definition another instance saves or deletes.
+ */
+export interface WorkflowDefinitionStore {
+  get(id: string): Promise<WorkflowDefinition | undefined>
+  save(definition: WorkflowDefinition): Promise<void>
+  delete(id: string): Promise<boolean>
+  list(): Promise<WorkflowDefinition[]>
+  subscribe(handler: (id: string) => void): void
+}
+
+/**
+ * Process-local store used when no Redis URL is configured. There are no
+ * other instances, so subscribers are never called.
+ */
+export class InMemoryWorkflowDefinitionStore implements WorkflowDefinitionStore {
+  private definitions: Map<string, WorkflowDefinition> = new Map()
+
+  async get(id: string): Promise<WorkflowDefinition | undefined> {
+    const definition = this.definitions.get(id)
+    return definition ? structuredClone(definition) : undefined
+  }
+
+  async save(definition: WorkflowDefinition): Promise<void> {
+    this.definitions.set(definition.id, structuredClone(definition))
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.definitions.delete(id)
+  }
+
+  async list(): Promise<WorkflowDefinition[]> {
+    return Array.from(this.definitions.values())
+      .map(definition => structuredClone(definition))
+      .sort((a, b) => a.id.localeCompare(b.id))
+  }
+
+  subscribe(_handler: (id: string) => void): void {}
+}
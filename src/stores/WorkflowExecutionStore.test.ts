@@ -0,0 +1,33 @@
+import { WorkflowExecution } from '../types'
+import { InMemoryWorkflowExecutionStore } from './WorkflowExecutionStore'
+
+function execution(id: string, minute: number, status: WorkflowExecution['status'], workspaceId = 'ws-1'): WorkflowExecution {
+  return {
+    id,
+    workflow_id: 'deploy-application',
+    status,
+    context: { workspace_id: workspaceId },
+    started_at: `2026-10-19T10:${String(minute).padStart(2, '0')}:00.000Z`
+  } as WorkflowExecution
+}
+
+describe('InMemoryWorkflowExecutionStore', () => {
+  let store: InMemoryWorkflowExecutionStore
+
+  beforeEach(async () => {
+    store = new InMemoryWorkflowExecutionStore()
+    await store.save(execution('a', 1, 'completed'))
+    await store.save(execution('b', 2, 'running'))
+    await store.save(execution('c', 3, 'failed'))
+    await store.save(execution('d', 4, 'completed'))
+    await store.save(execution('e', 5, 'completed', 'ws-2'))
+  })
+
+  it('pages matching executions newest first', async () => {
+    const filter = { workspace_id: 'ws-1', statuses: ['completed', 'failed'] as WorkflowExecution['status'][] }
+
+    expect((await store.list({ ...filter, limit: 2 })).map(found => found.id)).toEqual(['d', 'c'])
+    expect((await store.list({ ...filter, limit: 2, offset: 2 })).map(found => found.id)).toEqual(['a'])
+    expect(await store.count({ ...filter, limit: 2 })).toBe(3)
+  })
+})
@@ -0,0 +1,104 @@
+import { WorkflowExecution, WorkflowExecutionStatus } from '../types'
+
+export interface WorkflowExecutionFilter {
+  statuses?: WorkflowExecutionStatus[]
+  workflow_id?: string
+  workspace_id?: string
+  conversation_id?: string
+  // Page of the matches, newest first
+  limit?: number
+  offset?: number
+}
+
+/**
+ * Durable checkpoint storage for workflow executions.
+ *
+ * Leases record which Watson instance is actively running an execution so
+ * that a replica recovering after a crash never resumes an execution that
+ * is still making progress somewhere else.
+ *
+ * `saveIfStatus` only saves while the stored execution is still in the given
+ * status, so a change made by another instance is never overwritten. Cancel
+ * requests for executions owned by another instance are announced to every
+ * instance through `announceCancel` / `onCancel`.
+ */
+export interface WorkflowExecutionStore {
+  get(executionId: string): Promise<WorkflowExecution | undefined>
+  save(execution: WorkflowExecution): Promise<void>
+  saveIfStatus(execution: WorkflowExecution, expected: WorkflowExecutionStatus): Promise<boolean>
+  list(filter?: WorkflowExecutionFilter): Promise<WorkflowExecution[]>
+  count(filter?: WorkflowExecutionFilter): Promise<number> // Ignores limit and offset
+  acquireLease(executionId: string, ownerId: string, ttlMs: number): Promise<boolean>
+  releaseLease(executionId: string, ownerId: string): Promise<void>
+  announceCancel(executionId: string): Promise<void>
+  onCancel(handler: (executionId: string) => void): void
+}
+
+export function matchesExecutionFilter(execution: WorkflowExecution, filter: WorkflowExecutionFilter): boolean {
+  if (filter.statuses && !filter.statuses.includes(execution.status)) return false
+  if (filter.workflow_id && execution.workflow_id !== filter.workflow_id) return false
+  if (filter.workspace_id && execution.context.workspace_id !== filter.workspace_id) return false
+  if (filter.conversation_id && execution.conversation_id !== filter.conversation_id) return false
+  return true
+}
+
+/**
+ * Process-local store used when no Redis URL is configured
+ */
+export class InMemoryWorkflowExecutionStore implements WorkflowExecutionStore {
+  private executions: Map<string, WorkflowExecution> = new Map()
+  private leases: Map<string, { owner: string; expires_at: number }> = new Map()
+  private cancelHandlers: Array<(executionId: string) => void> = []
+
+  async get(executionId: string): Promise<WorkflowExecution | undefined> {
+    const execution = this.executions.get(executionId)
+    return execution ? structuredClone(execution) : undefined
+  }
+
+  async save(execution: WorkflowExecution): Promise<void> {
+    this.executions.set(execution.id, structuredClone(execution))
+  }
+
+  async saveIfStatus(execution: WorkflowExecution, expected: WorkflowExecutionStatus): Promise<boolean> {
+    if (this.executions.get(execution.id)?.status !== expected) return false
+    this.executions.set(execution.id, structuredClone(execution))
+    return true
+  }
+
+  async list(filter: WorkflowExecutionFilter = {}): Promise<WorkflowExecution[]> {
+    const offset = filter.offset || 0
+    return Array.from(this.executions.values())
+      .filter(execution => matchesExecutionFilter(execution, filter))
+      .sort((a, b) => new Date(b.started_at).getTime() - new Date(a.started_at).getTime())
+      .slice(offset, filter.limit === undefined ? undefined : offset + filter.limit)
+      .map(execution => structuredClone(execution))
+  }
+
+  async count(filter: WorkflowExecutionFilter = {}): Promise<number> {
+    return Array.from(this.executions.values()).filter(execution => matchesExecutionFilter(execution, filter)).length
+  }
+
+  async acquireLease(executionId: string, ownerId: string, ttlMs: number): Promise<boolean> {
+    const lease = this.leases.get(executionId)
+    if (lease && lease.owner !== ownerId && lease.expires_at > Date.now()) {
+      return false
+    }
+
+    this.leases.set(executionId, { owner: ownerId, expires_at: Date.now() + ttlMs })
+    return true
+  }
+
+  async releaseLease(executionId: string, ownerId: string): Promise<void> {
+    if (this.leases.get(executionId)?.owner === ownerId) {
+      this.leases.delete(executionId)
+    }
+  }
+
+  async announceCancel(executionId: string): Promise<void> {
+    this.cancelHandlers.forEach(handler => handler(executionId))
+  }
+
+  onCancel(handler: (executionId: string) => void): void {
+    this.cancelHandlers.push(handler)
+  }
+}
@@ -0,0 +1,102 @@
+import { WatsonConfig } from '../types'
+import { ConversationStore, InMemoryConversationStore } from './ConversationStore'
+import { RedisConversationStore } from './RedisConversationStore'
+import { WorkflowExecutionStore, InMemoryWorkflowExecutionStore } from './WorkflowExecutionStore'
+import { RedisWorkflowExecutionStore } from './RedisWorkflowExecutionStore'
+import { EventLogStore, InMemoryEventLogStore } from './EventLogStore'
+import { RedisEventLogStore } from './RedisEventLogStore'
+import { ScheduleStore, InMemoryScheduleStore } from './ScheduleStore'
+import { RedisScheduleStore } from './RedisScheduleStore'
+import { WebhookDeliveryStore, InMemoryWebhookDeliveryStore } from './WebhookDeliveryStore'
+import { RedisWebhookDeliveryStore } from './RedisWebhookDeliveryStore'
+import { BlueprintStore, InMemoryBlueprintStore } from './BlueprintStore'
+import { RedisBlueprintStore } from './RedisBlueprintStore'
+import { ExecutionSlotStore, InMemoryExecutionSlotStore } from './ExecutionSlotStore'
+import { RedisExecutionSlotStore } from './RedisExecutionSlotStore'
+import { WorkflowDefinitionStore, InMemoryWorkflowDefinitionStore } from './WorkflowDefinitionStore'
+import { RedisWorkflowDefinitionStore } from './RedisWorkflowDefinitionStore'
+import { getRedisClient } from './redis'
+
+export * from './ConversationStore'
+export { RedisConversationStore } from './RedisConversationStore'
+export * from './WorkflowExecutionStore'
+export { RedisWorkflowExecutionStore } from './RedisWorkflowExecutionStore'
+export * from './EventLogStore'
+export { RedisEventLogStore } from './RedisEventLogStore'
+export * from './ScheduleStore'
+export { RedisScheduleStore } from './RedisScheduleStore'
+export * from './WebhookDeliveryStore'
+export { RedisWebhookDeliveryStore } from './RedisWebhookDeliveryStore'
+export * from './BlueprintStore'
+export { RedisBlueprintStore } from './RedisBlueprintStore'
+export * from './ExecutionSlotStore'
+export { RedisExecutionSlotStore } from './RedisExecutionSlotStore'
+export * from './WorkflowDefinitionStore'
+export { RedisWorkflowDefinitionStore } from './RedisWorkflowDefinitionStore'
+export { getRedisClient, closeRedisClients, redisKey } from './redis'
+
+/**
+ * Create the conversation store for this deployment - Redis when
+ * REDIS_URL is configured, otherwise process-local memory
+ */
+export function createConversationStore(config: WatsonConfig): ConversationStore {
+  const redis = getRedisClient(config)
+  return redis ? new RedisConversationStore(redis, config) : new InMemoryConversationStore()
+}
+
+/**
+ * Create the workflow execution checkpoint store for this deployment
+ */
+export function createWorkflowExecutionStore(config: WatsonConfig): WorkflowExecutionStore {
+  const redis = getRedisClient(config)
+  return redis ? new RedisWorkflowExecutionStore(redis, config) : new InMemoryWorkflowExecutionStore()
+}
+
+/**
+ * Create the per-conversation event log used for stream replay
+ */
+export function createEventLogStore(config: WatsonConfig): EventLogStore {
+  const redis = getRedisClient(config)
+  return redis ? new RedisEventLogStore(redis, config) : new InMemoryEventLogStore()
+}
+
+/**
+ * Create the workflow schedule store for this deployment
+ */
+export function createScheduleStore(config: WatsonConfig): ScheduleStore {
+  const redis = getRedisClient(config)
+  return redis ? new RedisScheduleStore(redis, config) : new InMemoryScheduleStore()
+}
+
+/**
+ * Create the webhook trigger delivery log and replay guard
+ */
+export function createWebhookDeliveryStore(config: WatsonConfig): WebhookDeliveryStore {
+  const redis = getRedisClient(config)
+  return redis ? new RedisWebhookDeliveryStore(redis, config) : new InMemoryWebhookDeliveryStore()
+}
+
+/**
+ * Create the store for workspace resource blueprints
+ */
+export function createBlueprintStore(config: WatsonConfig): BlueprintStore {
+  const redis = getRedisClient(config)
+  return redis ? new RedisBlueprintStore(redis, config) : new InMemoryBlueprintStore()
+}
+
+/**
+ * Create the workflow concurrency slots - shared through Redis so the
+ * limits hold across replicas
+ */
+export function createExecutionSlotStore(config: WatsonConfig): ExecutionSlotStore {
+  const redis = getRedisClient(config)
+  return redis ? new RedisExecutionSlotStore(redis, config) : new InMemoryExecutionSlotStore()
+}
+
+/**
+ * Create the store for workflow definitions saved through the API
+ */
+export function createWorkflowDefinitionStore(config: WatsonConfig): WorkflowDefinitionStore {
+  const redis = getRedisClient(config)
+  return redis ? new RedisWorkflowDefinitionStore(redis, config) : new InMemoryWorkflowDefinitionStore()
+}
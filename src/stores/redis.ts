@@ -0,0 +1,48 @@
+import Redis from 'ioredis'
+import { WatsonConfig } from '../types'
+
+// Shared Redis connections - one command connection per URL so every store
+// in the process multiplexes over the same socket
+
+const clients: Map<string, Redis> = new Map()
+
+/**
+ * Get the shared Redis client for the configured URL, or null when Watson
+ * is running without Redis (single-instance, in-memory mode)
+ */
+export function getRedisClient(config: WatsonConfig): Redis | null {
+  if (!config.redis_url) {
+    return null
+  }
+
+  let client = clients.get(config.redis_url)
+  if (!client) {
+    client = new Redis(config.redis_url, {
+      maxRetriesPerRequest: 3
+    })
+
+    client.on('error', (error: Error) => {
+      console.error('[Redis] Connection error:', error.message)
+    })
+
+    clients.set(config.redis_url, client)
+  }
+
+  return client
+}
+
+/**
+ * Build a namespaced Redis key
+ */
+export function redisKey(config: WatsonConfig, ...parts: string[]): string {
+  return [config.redis_key_prefix || 'watson', ...parts].join(':')
+}
+
+/**
+ * Close every shared Redis connection (used on graceful shutdown)
+ */
+export async function closeRedisClients(): Promise<void> {
+  const pending = Array.from(clients.values()).map(client => client.quit().catch(() => undefined))
+  clients.clear()
+  await Promise.all(pending)
+}
@@ -15,6 +15,7 @@ export interface ConversationMessage {
   // Workflow tracking
   workflow_id?: string
   step_id?: string
+  pending_workflow?: PendingWorkflowStart // Waiting for the user to confirm
   
   // Infrastructure context
   infrastructure_context?: InfrastructureContext
@@ -23,6 +24,15 @@ export interface ConversationMessage {
   jwt_token?: string
 }
 
+/**
+ * A workflow a parsed intent matched. It starts only once the user confirms,
+ * since intent-triggered workflows change infrastructure.
+ */
+export interface PendingWorkflowStart {
+  workflow_id: string
+  input: Record<string, any>
+}
+
 export interface Conversation {
   id: string
   workspace_id: string
@@ -138,13 +148,24 @@ export interface WorkflowDefinition {
   input_schema: any
   output_schema: any
   
+  // Upper bound on steps running at once (engine default when unset)
+  max_parallel_steps?: number
+  
+  // Order in the execution queue when concurrency limits are reached
+  priority?: WorkflowPriority
+  
   // Metadata
   tags: string[]
   author: string
+  // Owner of a definition created through the API; built-in and
+  // operator-provided definitions have none and are shared by all workspaces
+  workspace_id?: string
   created_at: string
   updated_at: string
 }
 
+export type WorkflowPriority = 'critical' | 'high' | 'normal' | 'low'
+
 export interface WorkflowStep {
   id: string
   name: string
@@ -168,6 +189,20 @@ export interface WorkflowStep {
   // Human interaction
   requires_approval?: boolean
   approval_message?: string
+  
+  // Recovery - safe to re-run if Watson restarted while the step was in flight
+  idempotent?: boolean
+  
+  // Saga rollback - undoes this step's effects if the execution later fails
+  compensation?: WorkflowCompensation
+}
+
+export interface WorkflowCompensation {
+  // destroy_infrastructure: config.resource_ids - field path (default `steps.<id>.output.infrastructure.id`)
+  // call_tool: config.service, config.tool, config.arguments
+  type: 'destroy_infrastructure' | 'call_tool'
+  config?: any
+  description?: string
 }
 
 export type WorkflowStepType =
@@ -184,11 +219,20 @@ export type WorkflowStepType =
   | 'conditional'           // Branching logic
   | 'parallel'              // Execute multiple steps in parallel
   | 'loop'                  // Repeat steps
+  | 'sub_workflow'          // Run another workflow as a child execution
   | 'custom'                // Custom step implementation
 
 export interface WorkflowCondition {
-  field: string
-  operator: 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'contains'
+  field: string // e.g. 'estimated_costs', 'input.environment', 'steps.estimate-cost.output.estimated_cost'
+  operator:
+    | 'equals'
+    | 'not_equals'
+    | 'greater_than'
+    | 'greater_than_or_equal'
+    | 'less_than'
+    | 'less_than_or_equal'
+    | 'contains'
+    | 'exists'
   value: any
 }
 
@@ -197,18 +241,108 @@ export interface WorkflowTrigger {
   config: any
 }
 
+// Cron-driven workflow runs for a workspace. Created through the API or
+// from a definition's `schedule` trigger ({ cron, timezone, workspace_id })
+export interface WorkflowSchedule {
+  id: string
+  workflow_id: string
+  workspace_id: string
+  user_id?: string
+  cron: string
+  timezone: string
+  input: any
+  status: 'active' | 'paused'
+  // What to do with runs missed while no instance was ticking:
+  // skip them, fire once to catch up, or fire each (bounded)
+  missed_run_policy: 'skip' | 'run_once' | 'run_all'
+  source: 'api' | 'trigger'
+  next_run_at?: string
+  last_run_at?: string
+  last_execution_id?: string
+  missed_runs: number
+  created_at: string
+  updated_at: string
+}
+
+// One inbound call to a `webhook` trigger ({ id, workspace_id, secret_env,
+// signature, events, input_mapping }), kept for the trigger's delivery log
+export interface WebhookDelivery {
+  id: string
+  trigger_id: string
+  workflow_id?: string
+  // Sender's delivery id (X-GitHub-Delivery / X-Watson-Delivery) when present
+  external_id?: string
+  // ignored: authentic, but for an event the trigger does not listen to
+  status: 'accepted' | 'ignored' | 'duplicate' | 'rejected' | 'failed'
+  status_code: number
+  error?: string
+  execution_id?: string
+  event?: string
+  received_at: string
+}
+
 export interface RetryPolicy {
   max_attempts: number
   delay_seconds: number
   backoff_multiplier: number
 }
 
+// A single try at running a step, recorded whether or not it succeeded
+export interface StepAttempt {
+  attempt: number
+  status: string
+  error?: string
+  timed_out?: boolean
+  started_at: string
+  finished_at: string
+  duration_ms: number
+}
+
+// Who approved or rejected a step, taken from their auth token
+export interface Approver {
+  user_id: string
+  email?: string
+  workspace_id?: string
+}
+
+export interface ApprovalRecord {
+  step_id: string
+  decision: 'approved' | 'rejected'
+  approver_id: string
+  approver_email?: string
+  comment?: string
+  approval_message?: string
+  estimated_cost?: number
+  requested_at?: string
+  decided_at: string
+}
+
+export interface CompensationResult {
+  step_id: string
+  // Completed sub-workflow steps without a compensation roll back their child
+  type: WorkflowCompensation['type'] | 'rollback_sub_workflow'
+  status: 'compensated' | 'failed'
+  output?: any
+  error?: string
+  completed_at: string
+}
+
+export interface RollbackReport {
+  trigger: WorkflowExecutionStatus // Status that caused the rollback
+  status: 'rolling_back' | 'rolled_back' | 'partially_rolled_back' | 'nothing_to_roll_back'
+  started_at: string
+  completed_at?: string
+  compensated: CompensationResult[]
+  failed: CompensationResult[] // Need manual cleanup
+}
+
 // Workflow Execution
 export interface WorkflowExecution {
   id: string
   workflow_id: string
   conversation_id: string
   status: WorkflowExecutionStatus
+  priority?: WorkflowPriority
   
   // Input and context
   input: any
@@ -216,26 +350,61 @@ export interface WorkflowExecution {
   
   // Execution tracking
   current_step_id?: string
+  waiting_step_id?: string // Step paused on user input or approval
   completed_steps: string[]
   failed_steps: string[]
+  skipped_steps: string[] // Conditions not met or branch not taken
   
   // Results and outputs
   outputs: Record<string, any>
+  step_attempts?: Record<string, StepAttempt[]>
+  approvals?: ApprovalRecord[] // Audit of approval decisions
+  rollback?: RollbackReport
+  late_steps?: string[] // Completed after timing out; rolled back with the execution
   error_message?: string
   
+  // Sub-workflows - a child records its parent; the parent records the
+  // child started by each sub_workflow step
+  parent_execution_id?: string
+  parent_step_id?: string
+  child_executions?: Record<string, string> // Step ID -> child execution ID
+  
+  // Dry runs call no real service; the simulation answers and records every
+  // Atlas, Hermes, Phoenix and Neptune call
+  dry_run?: boolean
+  simulation?: WorkflowSimulation
+  
   // Timing
   started_at: string
   completed_at?: string
   duration_ms?: number
+  active_duration_ms?: number // Time spent running, excluding waits for input or approval
+  checkpointed_at?: string
   
   // Progress tracking
   progress: {
     total_steps: number
     completed_steps: number
+    skipped_steps?: number
     current_step_description?: string
+    running_steps?: string[] // Steps currently in flight
+    queue_position?: number // 1-based, while pending behind concurrency limits
   }
 }
 
+// An execution and the sub-workflow executions it started
+export interface WorkflowExecutionNode {
+  id: string
+  workflow_id: string
+  status: WorkflowExecutionStatus
+  parent_execution_id?: string
+  parent_step_id?: string
+  started_at: string
+  completed_at?: string
+  error_message?: string
+  children: WorkflowExecutionNode[]
+}
+
 export type WorkflowExecutionStatus =
   | 'pending'          // Queued for execution
   | 'running'          // Currently executing
@@ -245,6 +414,7 @@ export type WorkflowExecutionStatus =
   | 'failed'           // Failed with error
   | 'cancelled'        // Cancelled by user
   | 'timeout'          // Timed out
+  | 'interrupted'      // Watson restarted mid-step and the step was unsafe to re-run
 
 export interface WorkflowContext {
   // User and workspace info
@@ -268,6 +438,11 @@ export interface WorkflowContext {
   estimated_costs: number
   approved_budget?: number
   resource_limits: ResourceLimits
+
+  // Recorded as the workflow runs
+  user_input?: any // The last answer to a wait_for_input step
+  infrastructure_id?: string
+  operation_id?: string
 }
 
 // Infrastructure Requirements
@@ -321,6 +496,85 @@ export interface ResourceLimits {
   max_bandwidth_gb: number
 }
 
+// Resource blueprints map detected technologies to the resources created
+// for them. A blueprint applies when one of its technologies is detected (or
+// the blueprints it `requires` apply); its most specific matching variant
+// supplies the resources.
+export type PerformanceTier = 'minimal' | 'standard' | 'performance'
+
+export interface ResourceBlueprint {
+  id: string
+  description?: string
+  technologies: string[]
+  requires?: string[] // Blueprint IDs that must also apply, e.g. a load balancer needs a web server
+  fallback?: boolean // Applies when no technology blueprint matched
+  variants: ResourceBlueprintVariant[]
+}
+
+export interface ResourceBlueprintVariant {
+  // Unset criteria match anything; more criteria set means more specific
+  providers?: string[]
+  environments?: string[]
+  tiers?: PerformanceTier[]
+  resources: BlueprintResource[]
+}
+
+export interface BlueprintResource {
+  type: string // droplet, database, load_balancer, ...
+  name: string
+  specifications: Record<string, any>
+}
+
+// Dry-run simulation
+export type SimulatedService = 'atlas' | 'hermes' | 'phoenix' | 'neptune'
+export type SimulatedEffect = 'read' | 'provision' | 'change' | 'delete'
+
+// Fake answer for matching tool calls; the first match wins
+export interface SimulatedResponse {
+  service?: SimulatedService
+  tool: string // Exact name, or a prefix ending in `*`
+  result?: any
+  error?: string // Answer with a failure instead
+  effect?: SimulatedEffect // Overrides the effect inferred from the tool name
+}
+
+export interface SimulatedCall {
+  sequence: number
+  service: SimulatedService
+  tool: string
+  arguments: Record<string, any> // Credentials removed
+  effect: SimulatedEffect
+  success: boolean
+  result?: any
+  error?: string
+  resources?: any[] // What the call would provision, change or delete
+  estimated_monthly_cost?: number
+  called_at: string
+}
+
+export interface SimulatedChange {
+  sequence: number
+  service: SimulatedService
+  tool: string
+  resources: any[]
+  estimated_monthly_cost?: number
+}
+
+export interface SimulationReport {
+  calls: SimulatedCall[]
+  provisioned: SimulatedChange[]
+  changed: SimulatedChange[]
+  deleted: SimulatedChange[]
+  approvals: Array<{ step_id?: string; message: string }> // Requested for real, granted in the simulation
+  estimated_monthly_cost: number // Of what would be provisioned
+  currency: 'USD'
+}
+
+export interface WorkflowSimulation {
+  responses: SimulatedResponse[]
+  report: SimulationReport
+}
+
 // Infrastructure Context
 export interface InfrastructureContext {
   // Current state
@@ -473,6 +727,13 @@ export interface AgentCapability {
   output_schema: any
 }
 
+// A JSON Schema violation, addressed by field path (`input.resources[0].size`)
+export interface SchemaFieldError {
+  field: string
+  message: string
+  keyword: string
+}
+
 // Error handling
 export class WatsonError extends Error {
   constructor(
@@ -493,6 +754,27 @@ export class WorkflowError extends WatsonError {
   }
 }
 
+export class WorkflowValidationError extends WatsonError {
+  constructor(message: string, public workflowId: string | undefined, public errors: string[]) {
+    super(message, 'WORKFLOW_VALIDATION_ERROR', 400, { workflowId, errors })
+    this.name = 'WorkflowValidationError'
+  }
+}
+
+export class WorkflowSchemaError extends WorkflowValidationError {
+  constructor(message: string, workflowId: string | undefined, public fields: SchemaFieldError[]) {
+    super(message, workflowId, fields.map(field => `${field.field}: ${field.message}`))
+    this.name = 'WorkflowSchemaError'
+  }
+}
+
+export class TemplateExpressionError extends WatsonError {
+  constructor(message: string, public expression: string, public location: string) {
+    super(message, 'TEMPLATE_EXPRESSION_ERROR', 400, { expression, location })
+    this.name = 'TemplateExpressionError'
+  }
+}
+
 export class IntentParsingError extends WatsonError {
   constructor(message: string, public userInput: string) {
     super(message, 'INTENT_PARSING_ERROR', 400, { userInput })
@@ -515,6 +797,9 @@ export interface WatsonEvent {
   workflow_id?: string
   timestamp: string
   data: any
+  
+  // Per-conversation ordering, assigned by the event log (used for replay)
+  sequence?: number
 }
 
 export type WatsonEventType =
@@ -545,13 +830,22 @@ export interface WatsonConfig {
   phoenix_url?: string
   sherlock_url?: string
   
+  // Persistence (in-memory when redis_url is not set)
+  redis_url?: string
+  redis_key_prefix?: string
+  
   // AI/NLP configuration
   openai_api_key?: string
   enable_ai_assistance: boolean
   
   // Workflow configuration
+  // Cluster-wide when Redis is configured
   max_concurrent_workflows: number
+  max_concurrent_workflows_per_workspace?: number
   workflow_timeout_minutes: number
+  max_parallel_steps?: number // Per execution; steps with satisfied dependencies run concurrently
+  workflow_definitions_dir?: string // YAML/JSON WorkflowDefinitions loaded at startup
+  simulation_responses_file?: string // JSON array of SimulatedResponse used by dry runs
   
   // WebSocket configuration
   enable_websockets: boolean
@@ -0,0 +1,123 @@
+import { checkSync } from 'recheck'
+
+/**
+ * Matching for `keyword` and `pattern` workflow triggers.
+ *
+ * keyword: { keywords: string[], match?: 'any' | 'all', case_sensitive?, priority?, input? }
+ *   Keywords match whole words or phrases. Input gets `matched_keywords`.
+ *
+ * pattern: { pattern: string, flags?, input_mapping?, priority?, input? }
+ *       or { phrase: 'rotate keys for <server>', priority?, input? }
+ *   `pattern` is a regular expression (case-insensitive unless `flags` says
+ *   otherwise). Named groups become input fields; `input_mapping` maps input
+ *   fields to group names or numbers. A `phrase` is a whole-message template
+ *   whose `<name>` placeholders capture one word each.
+ *
+ * Authored patterns run against every message in their workspace, so one
+ * that can backtrack super-linearly is rejected when the definition is
+ * validated, and each trigger's pattern is compiled once.
+ */
+
+// Placeholder in a phrase: <server>, <domain_name>
+const PHRASE_PLACEHOLDER = /<([A-Za-z_][A-Za-z0-9_]*)>/g
+
+// Messages longer than this are not matched against authored patterns
+const MAX_MATCH_LENGTH = 2000
+
+// Quadratic backtracking stays in the milliseconds at MAX_MATCH_LENGTH;
+// cubic already takes seconds
+const MAX_PATTERN_DEGREE = 2
+
+// How long the ReDoS analysis of one pattern may take
+const PATTERN_CHECK_TIMEOUT_MS = 5000
+
+// Keyed by trigger config, so a saved definition's patterns compile once
+const compiledPatterns = new WeakMap<object, RegExp>()
+
+export function compilePatternTrigger(config: any): RegExp {
+  const compiled = config && compiledPatterns.get(config)
+  if (compiled) return compiled
+
+  const regex = buildPatternTrigger(config)
+  compiledPatterns.set(config, regex)
+  return regex
+}
+
+/**
+ * Compile an authored pattern and make sure matching it cannot take
+ * super-linear time. Phrases compile to patterns that are always safe.
+ */
+export function validatePatternTrigger(config: any): RegExp {
+  const regex = compilePatternTrigger(config)
+  if (typeof config?.phrase === 'string' && config.phrase.trim()) return regex
+
+  const diagnostics = checkSync(regex.source, regex.flags, { timeout: PATTERN_CHECK_TIMEOUT_MS })
+  if (diagnostics.status === 'unknown') {
+    throw new Error(`pattern could not be checked for catastrophic backtracking (${diagnostics.error.kind})`)
+  }
+  if (diagnostics.status === 'vulnerable' &&
+      (diagnostics.complexity.type === 'exponential' || diagnostics.complexity.degree > MAX_PATTERN_DEGREE)) {
+    throw new Error(
+      `pattern can backtrack catastrophically (${diagnostics.complexity.summary} time) - ` +
+      'anchor it or use narrower character classes than ".+" and ".*"'
+    )
+  }
+
+  return regex
+}
+
+function buildPatternTrigger(config: any): RegExp {
+  if (typeof config?.phrase === 'string' && config.phrase.trim()) {
+    const parts = config.phrase.trim().split(PHRASE_PLACEHOLDER)
+    // split() with a capture group alternates literal text and placeholder names
+    const source = parts
+      .map((part: string, index: number) => index % 2 === 1
+        ? `(?<${part}>\\S+?)`
+        : escapeRegExp(part).replace(/\s+/g, '\\s+'))
+      .join('')
+    return new RegExp(`^\\s*${source}\\s*[.!?]*\\s*$`, 'i')
+  }
+
+  if (typeof config?.pattern === 'string' && config.pattern) {
+    return new RegExp(config.pattern, config.flags ?? 'i')
+  }
+
+  throw new Error('pattern triggers need a pattern or phrase')
+}
+
+/**
+ * Input captured from the message, or null when the trigger does not match
+ */
+export function matchPatternTrigger(config: any, message: string): Record<string, any> | null {
+  if (message.length > MAX_MATCH_LENGTH) return null
+
+  const match = compilePatternTrigger(config).exec(message)
+  if (!match) return null
+
+  const input: Record<string, any> = { ...(match.groups || {}) }
+  for (const [field, group] of Object.entries<string | number>(config.input_mapping || {})) {
+    const value = typeof group === 'number' || /^\d+$/.test(group)
+      ? match[Number(group)]
+      : match.groups?.[group]
+    if (value !== undefined) input[field] = value
+  }
+
+  return input
+}
+
+export function matchKeywordTrigger(config: any, message: string): Record<string, any> | null {
+  const keywords: string[] = Array.isArray(config?.keywords) ? config.keywords.filter(Boolean) : []
+  if (keywords.length === 0) return null
+
+  const matched = keywords.filter(keyword => new RegExp(
+    `(^|\\W)${escapeRegExp(keyword).replace(/\s+/g, '\\s+')}(?=\\W|$)`,
+    config.case_sensitive ? '' : 'i'
+  ).test(message))
+
+  const matches = config.match === 'all' ? matched.length === keywords.length : matched.length > 0
+  return matches ? { matched_keywords: matched } : null
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
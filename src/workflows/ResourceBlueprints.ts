@@ -0,0 +1,358 @@
+import { z } from 'zod'
+import {
+  BlueprintResource,
+  PerformanceTier,
+  ResourceBlueprint,
+  ResourceBlueprintVariant,
+  ResourceLimits,
+  UserPreferences,
+  WatsonError
+} from '../types'
+import { BlueprintStore, InMemoryBlueprintStore } from '../stores'
+
+/**
+ * Declarative catalog mapping a detected stack to the resources that
+ * `estimate_cost` and `create_infrastructure` ask Atlas for.
+ *
+ * Every blueprint whose technologies were detected contributes the resources
+ * of its most specific variant for the provider, environment and performance
+ * tier. A blueprint without technologies applies once everything it
+ * `requires` applies. Fallback blueprints apply only when nothing else did.
+ *
+ * Workspace admins extend the catalog through the blueprint store; a
+ * workspace blueprint replaces the built-in blueprint with the same id.
+ */
+
+export const PERFORMANCE_TIERS: PerformanceTier[] = ['minimal', 'standard', 'performance']
+
+const COST_OPTIMIZATION_TIERS: Record<UserPreferences['cost_optimization'], PerformanceTier> = {
+  cost_first: 'minimal',
+  balanced: 'standard',
+  performance_first: 'performance'
+}
+
+const DROPLET_SIZES: Record<PerformanceTier, string> = {
+  minimal: 's-1vcpu-1gb',
+  standard: 's-1vcpu-2gb',
+  performance: 's-2vcpu-4gb'
+}
+
+const DATABASE_SIZES: Record<PerformanceTier, string> = {
+  minimal: 'db-s-1vcpu-1gb',
+  standard: 'db-s-1vcpu-2gb',
+  performance: 'db-s-2vcpu-4gb'
+}
+
+export const BlueprintResourceSchema = z.object({
+  type: z.string().min(1),
+  name: z.string().min(1),
+  specifications: z.record(z.any()).default({})
+})
+
+export const ResourceBlueprintSchema = z.object({
+  id: z.string().min(1).regex(/^[A-Za-z0-9_-]+$/, 'Blueprint ids may only contain letters, digits, "-" and "_"'),
+  description: z.string().optional(),
+  technologies: z.array(z.string().min(1)).default([]),
+  requires: z.array(z.string().min(1)).optional(),
+  fallback: z.boolean().optional(),
+  variants: z.array(z.object({
+    providers: z.array(z.string().min(1)).min(1).optional(),
+    environments: z.array(z.string().min(1)).min(1).optional(),
+    tiers: z.array(z.enum(['minimal', 'standard', 'performance'])).min(1).optional(),
+    resources: z.array(BlueprintResourceSchema)
+  })).min(1)
+})
+
+export interface BlueprintRequest {
+  technologies: string[]
+  provider: string
+  environment: string
+  tier: PerformanceTier
+}
+
+export interface ResourceOverrides {
+  preferences?: Partial<UserPreferences>
+  limits?: Partial<ResourceLimits>
+}
+
+export interface ResourcePlan {
+  blueprints: string[] // IDs of the blueprints that contributed, in catalog order
+  resources: BlueprintResource[]
+}
+
+export type CatalogBlueprint = ResourceBlueprint & { source: 'built_in' | 'workspace' }
+
+/**
+ * Variants for each tier on DigitalOcean, with a production variant that
+ * may differ (backups, standby nodes)
+ */
+function digitalOceanVariants(
+  resources: (tier: PerformanceTier, production: boolean) => BlueprintResource[]
+): ResourceBlueprintVariant[] {
+  return PERFORMANCE_TIERS.flatMap(tier => [
+    { providers: ['digitalocean'], tiers: [tier], resources: resources(tier, false) },
+    { providers: ['digitalocean'], environments: ['production'], tiers: [tier], resources: resources(tier, true) }
+  ])
+}
+
+function dropletResource(name: string, tier: PerformanceTier, production: boolean): BlueprintResource {
+  return {
+    type: 'droplet',
+    name,
+    specifications: {
+      size: DROPLET_SIZES[tier],
+      image: 'ubuntu-22-04-x64',
+      monitoring: true,
+      backups: production
+    }
+  }
+}
+
+function databaseResource(engine: string, version: string, tier: PerformanceTier, production: boolean): BlueprintResource {
+  return {
+    type: 'database',
+    name: `${engine}-database`,
+    specifications: {
+      engine,
+      version,
+      size: DATABASE_SIZES[tier],
+      num_nodes: production && tier === 'performance' ? 2 : 1
+    }
+  }
+}
+
+export const DEFAULT_RESOURCE_BLUEPRINTS: ResourceBlueprint[] = [
+  {
+    id: 'web-server',
+    description: 'Droplet serving a web frontend or Node.js application',
+    technologies: ['react', 'vue', 'angular', 'nodejs', 'node.js', 'nginx', 'apache'],
+    variants: digitalOceanVariants((tier, production) => [dropletResource('web-server', tier, production)])
+  },
+  {
+    id: 'postgresql',
+    description: 'Managed PostgreSQL cluster',
+    technologies: ['postgresql', 'postgres'],
+    variants: digitalOceanVariants((tier, production) => [databaseResource('postgresql', '16', tier, production)])
+  },
+  {
+    id: 'mysql',
+    description: 'Managed MySQL cluster',
+    technologies: ['mysql'],
+    variants: digitalOceanVariants((tier, production) => [databaseResource('mysql', '8', tier, production)])
+  },
+  {
+    id: 'mongodb',
+    description: 'Managed MongoDB cluster',
+    technologies: ['mongodb', 'mongo'],
+    variants: digitalOceanVariants((tier, production) => [databaseResource('mongodb', '7.0', tier, production)])
+  },
+  {
+    id: 'redis',
+    description: 'Managed Redis cluster',
+    technologies: ['redis'],
+    variants: digitalOceanVariants((tier, production) => [databaseResource('redis', '7', tier, production)])
+  },
+  {
+    id: 'load-balancer',
+    description: 'HTTPS load balancer in front of production web servers',
+    technologies: [],
+    requires: ['web-server'],
+    variants: [{
+      providers: ['digitalocean'],
+      environments: ['production'],
+      resources: [{
+        type: 'load_balancer',
+        name: 'app-load-balancer',
+        specifications: {
+          algorithm: 'round_robin',
+          forwarding_rules: [{
+            entry_protocol: 'https',
+            entry_port: 443,
+            target_protocol: 'http',
+            target_port: 80
+          }]
+        }
+      }]
+    }]
+  },
+  {
+    id: 'app-server',
+    description: 'Single droplet when no known technology was detected',
+    technologies: [],
+    fallback: true,
+    variants: digitalOceanVariants((tier, production) => [dropletResource('app-server', tier, production)])
+  }
+]
+
+/**
+ * Performance tier from an explicit request, else the user's cost preference
+ */
+export function performanceTier(requested: unknown, preferences?: Partial<UserPreferences>): PerformanceTier {
+  if (PERFORMANCE_TIERS.includes(requested as PerformanceTier)) {
+    return requested as PerformanceTier
+  }
+  return (preferences?.cost_optimization && COST_OPTIMIZATION_TIERS[preferences.cost_optimization]) || 'standard'
+}
+
+/**
+ * Resources the blueprints produce for a request
+ */
+export function selectResources(blueprints: ResourceBlueprint[], request: BlueprintRequest): ResourcePlan {
+  const detected = new Set(request.technologies.map(technology => technology.toLowerCase()))
+  const selected = new Map<string, ResourceBlueprintVariant>()
+
+  const select = (candidates: ResourceBlueprint[]) => {
+    // `requires` may name a blueprint declared later, so repeat until nothing changes
+    for (let changed = true; changed;) {
+      changed = false
+      for (const blueprint of candidates) {
+        if (selected.has(blueprint.id)) continue
+        if (blueprint.technologies.length > 0 &&
+          !blueprint.technologies.some(technology => detected.has(technology.toLowerCase()))) continue
+        if (!(blueprint.requires || []).every(id => selected.has(id))) continue
+
+        const variant = selectVariant(blueprint, request)
+        if (variant) {
+          selected.set(blueprint.id, variant)
+          changed = true
+        }
+      }
+    }
+  }
+
+  select(blueprints.filter(blueprint => !blueprint.fallback))
+  if (selected.size === 0) {
+    select(blueprints.filter(blueprint => blueprint.fallback))
+  }
+
+  const ids = blueprints.filter(blueprint => selected.has(blueprint.id)).map(blueprint => blueprint.id)
+  return {
+    blueprints: ids,
+    resources: ids.flatMap(id => structuredClone(selected.get(id)!.resources))
+  }
+}
+
+/**
+ * Apply the user's preferences and the workspace's resource limits to a plan.
+ * Throws RESOURCE_LIMIT_EXCEEDED when the plan needs more instances than allowed.
+ */
+export function applyResourceOverrides(plan: ResourcePlan, overrides: ResourceOverrides): ResourcePlan {
+  const resources = plan.resources.map(resource => {
+    if (resource.type === 'droplet' && overrides.preferences?.backup_frequency === 'none') {
+      return { ...resource, specifications: { ...resource.specifications, backups: false } }
+    }
+    return resource
+  })
+
+  const maxInstances = overrides.limits?.max_instances
+  if (maxInstances !== undefined) {
+    const instances = resources
+      .filter(resource => resource.type === 'droplet')
+      .reduce((total, resource) => total + (Number(resource.specifications.count) || 1), 0)
+
+    if (instances > maxInstances) {
+      throw new WatsonError(
+        `Planned infrastructure needs ${instances} instances but the workspace allows ${maxInstances}`,
+        'RESOURCE_LIMIT_EXCEEDED',
+        400,
+        { blueprints: plan.blueprints, instances, max_instances: maxInstances }
+      )
+    }
+  }
+
+  return { blueprints: plan.blueprints, resources }
+}
+
+function selectVariant(blueprint: ResourceBlueprint, request: BlueprintRequest): ResourceBlueprintVariant | undefined {
+  let best: ResourceBlueprintVariant | undefined
+  let bestSpecificity = -1
+
+  for (const variant of blueprint.variants) {
+    const criteria: Array<[string[] | undefined, string]> = [
+      [variant.providers, request.provider],
+      [variant.environments, request.environment],
+      [variant.tiers, request.tier]
+    ]
+    if (!criteria.every(([values, value]) => !values || values.some(item => item.toLowerCase() === value.toLowerCase()))) {
+      continue
+    }
+
+    // Ties go to the variant declared first
+    const specificity = criteria.filter(([values]) => values).length
+    if (specificity > bestSpecificity) {
+      best = variant
+      bestSpecificity = specificity
+    }
+  }
+
+  return best
+}
+
+export interface ResourceBlueprintCatalogOptions {
+  store?: BlueprintStore
+  builtIns?: ResourceBlueprint[]
+}
+
+export class ResourceBlueprintCatalog {
+  private store: BlueprintStore
+  private builtIns: ResourceBlueprint[]
+
+  constructor(options: ResourceBlueprintCatalogOptions = {}) {
+    this.store = options.store || new InMemoryBlueprintStore()
+    this.builtIns = options.builtIns || DEFAULT_RESOURCE_BLUEPRINTS
+  }
+
+  /**
+   * Blueprints in effect for a workspace: built-ins (or their workspace
+   * replacements) in catalog order, then the workspace's own additions
+   */
+  async list(workspaceId?: string): Promise<CatalogBlueprint[]> {
+    const custom = workspaceId ? await this.store.list(workspaceId) : []
+    const customById = new Map(custom.map(blueprint => [blueprint.id, blueprint]))
+
+    const blueprints: CatalogBlueprint[] = this.builtIns.map(blueprint => {
+      const replacement = customById.get(blueprint.id)
+      return replacement
+        ? { ...replacement, source: 'workspace' }
+        : { ...structuredClone(blueprint), source: 'built_in' }
+    })
+
+    for (const blueprint of custom) {
+      if (!this.builtIns.some(builtIn => builtIn.id === blueprint.id)) {
+        blueprints.push({ ...blueprint, source: 'workspace' })
+      }
+    }
+
+    return blueprints
+  }
+
+  /**
+   * Validate and store a workspace blueprint. Throws ZodError when invalid.
+   */
+  async save(workspaceId: string, input: unknown): Promise<ResourceBlueprint> {
+    const blueprint = ResourceBlueprintSchema.parse(input) as ResourceBlueprint
+    await this.store.save(workspaceId, blueprint)
+    return blueprint
+  }
+
+  async delete(workspaceId: string, blueprintId: string): Promise<boolean> {
+    return this.store.delete(workspaceId, blueprintId)
+  }
+
+  /**
+   * Resources for a request in a workspace, with overrides applied.
+   * Throws NO_MATCHING_BLUEPRINT when nothing in the catalog fits.
+   */
+  async resolve(workspaceId: string | undefined, request: BlueprintRequest, overrides: ResourceOverrides = {}): Promise<ResourcePlan> {
+    const plan = selectResources(await this.list(workspaceId), request)
+    if (plan.resources.length === 0) {
+      throw new WatsonError(
+        `No resource blueprint matches provider ${request.provider} (${request.environment}, ${request.tier})`,
+        'NO_MATCHING_BLUEPRINT',
+        400,
+        { request }
+      )
+    }
+    return applyResourceOverrides(plan, overrides)
+  }
+}
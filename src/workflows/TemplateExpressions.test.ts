@@ -0,0 +1,74 @@
+import { TemplateExpressionError } from '../types'
+import { collectTemplateExpressions, parseTemplateExpression, resolveTemplates } from './TemplateExpressions'
+
+const values: Record<string, any> = {
+  'input.domain': 'example.com',
+  'input.replicas': 3,
+  'input.region': null,
+  'steps.create-infrastructure.output.infrastructure': { ip: '10.0.0.1' },
+  'context.preferences.preferred_regions[0]': 'nyc3'
+}
+const lookup = (path: string) => values[path]
+
+describe('parseTemplateExpression', () => {
+  it('splits the path from a fallback literal', () => {
+    expect(parseTemplateExpression("input.region ?? 'nyc3'")).toEqual({ path: 'input.region', fallback: { value: 'nyc3' } })
+    expect(parseTemplateExpression('input.replicas ?? 2')).toEqual({ path: 'input.replicas', fallback: { value: 2 } })
+    expect(parseTemplateExpression('input.debug ?? null')).toEqual({ path: 'input.debug', fallback: { value: null } })
+  })
+
+  it('rejects unknown roots, malformed paths and unquoted fallbacks', () => {
+    expect(() => parseTemplateExpression('env.HOME')).toThrow('must start with one of input, steps, context, outputs, loop')
+    expect(() => parseTemplateExpression('input..domain')).toThrow('invalid expression')
+    expect(() => parseTemplateExpression('input.region ?? nyc3')).toThrow('must be a quoted string')
+  })
+})
+
+describe('collectTemplateExpressions', () => {
+  it('finds expressions in nested config with their location, skipping escapes', () => {
+    const config = { domain: '${input.domain}', records: [{ content: 'ip ${steps.a.output.ip} and $${literal}' }] }
+
+    expect(collectTemplateExpressions(config)).toEqual([
+      { expression: 'input.domain', location: 'config.domain' },
+      { expression: 'steps.a.output.ip', location: 'config.records[0].content' }
+    ])
+  })
+})
+
+describe('resolveTemplates', () => {
+  it('keeps the type of a value that is exactly one expression', () => {
+    expect(resolveTemplates('${input.replicas}', lookup)).toBe(3)
+    expect(resolveTemplates('${steps.create-infrastructure.output.infrastructure}', lookup)).toEqual({ ip: '10.0.0.1' })
+  })
+
+  it('interpolates expressions inside a longer string', () => {
+    expect(resolveTemplates('https://${input.domain}:${input.replicas}', lookup)).toBe('https://example.com:3')
+    expect(resolveTemplates('infra ${steps.create-infrastructure.output.infrastructure}', lookup))
+      .toBe('infra {"ip":"10.0.0.1"}')
+  })
+
+  it('resolves through arrays and objects without changing other values', () => {
+    expect(resolveTemplates({ regions: ['${context.preferences.preferred_regions[0]}'], size: 2, enabled: true }, lookup))
+      .toEqual({ regions: ['nyc3'], size: 2, enabled: true })
+  })
+
+  it('uses the fallback for a missing or null value', () => {
+    expect(resolveTemplates("${input.missing ?? 'fra1'}", lookup)).toBe('fra1')
+    expect(resolveTemplates("${input.region ?? 'nyc3'}", lookup)).toBe('nyc3')
+  })
+
+  it('resolves a null value without a fallback to null, or empty text inside a string', () => {
+    expect(resolveTemplates('${input.region}', lookup)).toBeNull()
+    expect(resolveTemplates('region=${input.region}', lookup)).toBe('region=')
+  })
+
+  it('leaves an escaped expression as literal text', () => {
+    expect(resolveTemplates('cost is $${input.domain}', lookup)).toBe('cost is ${input.domain}')
+  })
+
+  it('fails with the location of a reference that resolves to nothing', () => {
+    expect(() => resolveTemplates({ dns: { name: '${input.subdomain}' } }, lookup)).toThrow(TemplateExpressionError)
+    expect(() => resolveTemplates({ dns: { name: '${input.subdomain}' } }, lookup))
+      .toThrow('config.dns.name: ${input.subdomain} did not resolve to a value')
+  })
+})
@@ -0,0 +1,130 @@
+import { TemplateExpressionError } from '../types'
+
+/**
+ * `${...}` expressions in step config, resolved when the step runs.
+ *
+ *   ${input.domain}                                          execution input
+ *   ${steps.create-infrastructure.output.infrastructure.ip}  a step's output (or `.status`)
+ *   ${context.preferences.preferred_regions[0]}              workflow context
+ *   ${outputs.approval_request.cost}                         raw step outputs
+ *   ${loop.item}                                             current loop iteration
+ *   ${input.region ?? 'nyc3'}                                fallback when missing
+ *
+ * A string that is exactly one expression keeps the value's type; expressions
+ * inside a longer string are interpolated. `$${` escapes a literal `${`.
+ * Expressions are data paths only - nothing is evaluated.
+ */
+
+export const TEMPLATE_ROOTS = ['input', 'steps', 'context', 'outputs', 'loop']
+
+const EXPRESSION = /(\$?)\$\{([^}]*)\}/g
+const EXACT_EXPRESSION = /^\$\{([^}]*)\}$/
+const PATH = /^[A-Za-z_][\w-]*(\.[\w-]+|\[\d+\])*$/
+
+export interface TemplateExpression {
+  path: string
+  fallback?: { value: any }
+}
+
+export function parseTemplateExpression(expression: string, location = 'config'): TemplateExpression {
+  const [pathPart, ...fallbackParts] = expression.split('??')
+  const path = pathPart.trim()
+
+  if (!PATH.test(path)) {
+    throw new TemplateExpressionError(`${location}: invalid expression \${${expression}}`, expression, location)
+  }
+  if (!TEMPLATE_ROOTS.includes(path.split(/[.[]/)[0])) {
+    throw new TemplateExpressionError(
+      `${location}: \${${expression}} must start with one of ${TEMPLATE_ROOTS.join(', ')}`,
+      expression,
+      location
+    )
+  }
+  if (fallbackParts.length === 0) {
+    return { path }
+  }
+
+  const literal = fallbackParts.join('??').trim()
+  const value = parseLiteral(literal)
+  if (value === undefined) {
+    throw new TemplateExpressionError(
+      `${location}: fallback in \${${expression}} must be a quoted string, number, true, false or null`,
+      expression,
+      location
+    )
+  }
+  return { path, fallback: { value: value.value } }
+}
+
+/**
+ * Every expression in a config value, with where it was found
+ */
+export function collectTemplateExpressions(value: any, location = 'config'): Array<{ expression: string; location: string }> {
+  if (typeof value === 'string') {
+    return Array.from(value.matchAll(EXPRESSION))
+      .filter(([, escape]) => !escape)
+      .map(([, , expression]) => ({ expression, location }))
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => collectTemplateExpressions(item, `${location}[${index}]`))
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) => collectTemplateExpressions(item, `${location}.${key}`))
+  }
+  return []
+}
+
+/**
+ * Copy of `value` with every expression replaced by what `lookup` returns
+ * for its path. Throws TemplateExpressionError for references that resolve
+ * to nothing and have no fallback.
+ */
+export function resolveTemplates(value: any, lookup: (path: string) => any, location = 'config'): any {
+  if (typeof value === 'string') {
+    return resolveString(value, lookup, location)
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => resolveTemplates(item, lookup, `${location}[${index}]`))
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveTemplates(item, lookup, `${location}.${key}`)])
+    )
+  }
+  return value
+}
+
+function resolveString(text: string, lookup: (path: string) => any, location: string): any {
+  const exact = EXACT_EXPRESSION.exec(text)
+  if (exact) {
+    return resolveExpression(exact[1], lookup, location)
+  }
+
+  return text.replace(EXPRESSION, (match, escape: string, expression: string) => {
+    if (escape) return match.slice(1)
+
+    const value = resolveExpression(expression, lookup, location)
+    if (value === null) return ''
+    return typeof value === 'object' ? JSON.stringify(value) : String(value)
+  })
+}
+
+function resolveExpression(expression: string, lookup: (path: string) => any, location: string): any {
+  const { path, fallback } = parseTemplateExpression(expression, location)
+  const value = lookup(path)
+
+  if (value === undefined || (value === null && fallback)) {
+    if (fallback) return fallback.value
+    throw new TemplateExpressionError(`${location}: \${${path}} did not resolve to a value`, expression, location)
+  }
+  return value
+}
+
+function parseLiteral(literal: string): { value: any } | undefined {
+  if (/^'[^']*'$/.test(literal) || /^"[^"]*"$/.test(literal)) return { value: literal.slice(1, -1) }
+  if (/^-?\d+(\.\d+)?$/.test(literal)) return { value: Number(literal) }
+  if (literal === 'true') return { value: true }
+  if (literal === 'false') return { value: false }
+  if (literal === 'null') return { value: null }
+  return undefined
+}
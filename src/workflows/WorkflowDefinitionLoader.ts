@@ -0,0 +1,61 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as yaml from 'js-yaml'
+import { WorkflowDefinition } from '../types'
+import { validateWorkflowDefinition } from './WorkflowDefinitionSchema'
+
+const DEFINITION_EXTENSIONS = ['.yaml', '.yml', '.json']
+
+export interface LoadedWorkflowFile {
+  file: string
+  definition?: WorkflowDefinition
+  errors: string[]
+}
+
+/**
+ * Read and validate every YAML/JSON workflow definition in a directory.
+ * Invalid files are reported rather than thrown so one bad file does not
+ * keep the rest from loading.
+ */
+export function loadWorkflowDefinitionFiles(directory: string): LoadedWorkflowFile[] {
+  if (!fs.existsSync(directory)) {
+    return []
+  }
+
+  return fs.readdirSync(directory)
+    .filter(name => DEFINITION_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+    .sort()
+    .map(name => {
+      const file = path.join(directory, name)
+      try {
+        const raw = fs.readFileSync(file, 'utf8')
+        const parsed = path.extname(name).toLowerCase() === '.json' ? JSON.parse(raw) : yaml.load(raw)
+        return { file, ...validateWorkflowDefinition(parsed) }
+      } catch (error) {
+        return { file, errors: [error instanceof Error ? error.message : 'Unreadable definition file'] }
+      }
+    })
+}
+
+/**
+ * Write a definition to `file`, or to `<directory>/<id>.yaml` when the
+ * definition has no file yet. Returns the path written.
+ */
+export async function writeWorkflowDefinitionFile(
+  directory: string,
+  definition: WorkflowDefinition,
+  file?: string
+): Promise<string> {
+  const target = file || path.join(directory, `${definition.id}.yaml`)
+  const content = path.extname(target).toLowerCase() === '.json'
+    ? JSON.stringify(definition, null, 2) + '\n'
+    : yaml.dump(definition, { noRefs: true, lineWidth: 120 })
+
+  await fs.promises.mkdir(path.dirname(target), { recursive: true })
+  await fs.promises.writeFile(target, content, 'utf8')
+  return target
+}
+
+export async function deleteWorkflowDefinitionFile(file: string): Promise<void> {
+  await fs.promises.rm(file, { force: true })
+}
@@ -0,0 +1,431 @@
+import { z } from 'zod'
+import { WorkflowDefinition, WorkflowStep, WorkflowStepType } from '../types'
+import { MCP_AGENTS } from '../services/MCPService'
+import { validatePatternTrigger } from './MessageTriggers'
+import { collectTemplateExpressions, parseTemplateExpression } from './TemplateExpressions'
+import { validateDefinitionSchemas } from './WorkflowSchemas'
+
+export const WORKFLOW_STEP_TYPES = [
+  'parse_requirements',
+  'estimate_cost',
+  'request_approval',
+  'create_infrastructure',
+  'run_tests',
+  'update_dns',
+  'send_notification',
+  'wait_for_input',
+  'call_agent',
+  'conditional',
+  'parallel',
+  'loop',
+  'sub_workflow'
+] as const satisfies readonly WorkflowStepType[]
+
+export const WEBHOOK_SIGNATURE_SCHEMES = ['github', 'generic']
+
+const ConditionSchema = z.object({
+  field: z.string().min(1),
+  operator: z.enum([
+    'equals',
+    'not_equals',
+    'greater_than',
+    'greater_than_or_equal',
+    'less_than',
+    'less_than_or_equal',
+    'contains',
+    'exists'
+  ]),
+  value: z.any()
+})
+
+const StepSchema = z.object({
+  id: z.string().min(1).regex(/^[A-Za-z0-9_-]+$/, 'Step ids may only contain letters, digits, "-" and "_"'),
+  name: z.string().min(1),
+  description: z.string().default(''),
+  type: z.enum(WORKFLOW_STEP_TYPES),
+  config: z.record(z.any()).default({}),
+  depends_on: z.array(z.string()).default([]),
+  next_steps: z.array(z.string()).default([]),
+  conditions: z.array(ConditionSchema).default([]),
+  retry_policy: z.object({
+    max_attempts: z.number().int().min(1).max(10),
+    delay_seconds: z.number().min(0),
+    backoff_multiplier: z.number().min(1).default(1)
+  }).optional(),
+  timeout_seconds: z.number().positive().optional(),
+  requires_approval: z.boolean().optional(),
+  approval_message: z.string().optional(),
+  idempotent: z.boolean().optional(),
+  compensation: z.object({
+    type: z.enum(['destroy_infrastructure', 'call_tool']),
+    config: z.record(z.any()).optional(),
+    description: z.string().optional()
+  }).optional()
+})
+
+export const WorkflowDefinitionSchema = z.object({
+  // Definitions created through the API are prefixed with their workspace: "{workspace}.{id}"
+  id: z.string().min(1).regex(
+    /^([A-Za-z0-9_-]+\.)?[A-Za-z0-9_-]+$/,
+    'Workflow ids may only contain letters, digits, "-" and "_", after an optional "{workspace}." prefix'
+  ),
+  name: z.string().min(1),
+  description: z.string().default(''),
+  version: z.string().default('1.0'),
+  steps: z.array(StepSchema).min(1),
+  triggers: z.array(z.object({
+    type: z.enum(['intent', 'keyword', 'pattern', 'webhook', 'schedule']),
+    config: z.record(z.any()).default({})
+  })).default([]),
+  input_schema: z.any().default({}),
+  output_schema: z.any().default({}),
+  max_parallel_steps: z.number().int().min(1).optional(),
+  priority: z.enum(['critical', 'high', 'normal', 'low']).optional(),
+  tags: z.array(z.string()).default([]),
+  author: z.string().default('unknown'),
+  workspace_id: z.string().min(1).optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional()
+})
+
+/**
+ * Validate a workflow definition's shape and step graph.
+ *
+ * Beyond the schema, rejects duplicate step ids, references to unknown
+ * steps (`depends_on`, `next_steps`, conditional `then`/`else`), dependency
+ * cycles, steps that can never start because they sit behind a cycle, and
+ * conditional branch steps that would run before the branch is decided.
+ * Webhook triggers need a unique id, a workspace (the workflow's own when it
+ * has one) and a known signature scheme; schedule triggers of a workflow
+ * with a workspace must run in it;
+ * keyword triggers need keywords and pattern triggers a compilable pattern
+ * that cannot backtrack catastrophically.
+ * `${...}` expressions in step config must parse and only read upstream steps.
+ * `input_schema`, `output_schema` and `wait_for_input` schemas must be valid
+ * JSON Schema.
+ */
+export function validateWorkflowDefinition(
+  input: unknown
+): { definition?: WorkflowDefinition; errors: string[] } {
+  const parsed = WorkflowDefinitionSchema.safeParse(input)
+  if (!parsed.success) {
+    return {
+      errors: parsed.error.errors.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    }
+  }
+
+  const now = new Date().toISOString()
+  // zod treats `any` fields such as condition values as optional
+  const definition = {
+    ...parsed.data,
+    created_at: parsed.data.created_at || now,
+    updated_at: parsed.data.updated_at || now
+  } as WorkflowDefinition
+  const errors = [
+    ...validateTriggers(definition),
+    ...validateStepGraph(definition),
+    ...validateDefinitionSchemas(definition)
+  ]
+
+  return errors.length > 0 ? { errors } : { definition, errors }
+}
+
+function validateTriggers(definition: WorkflowDefinition): string[] {
+  const errors: string[] = []
+  const webhookIds = new Set<string>()
+
+  for (const [index, trigger] of definition.triggers.entries()) {
+    const config = trigger.config || {}
+    const path = `triggers.${index}.config`
+
+    if (config.priority !== undefined && typeof config.priority !== 'number') {
+      errors.push(`${path}.priority: must be a number`)
+    }
+
+    if (trigger.type === 'keyword') {
+      if (!Array.isArray(config.keywords) || config.keywords.length === 0 ||
+          config.keywords.some((keyword: unknown) => typeof keyword !== 'string' || !keyword.trim())) {
+        errors.push(`${path}.keywords: must be a non-empty list of words or phrases`)
+      }
+      if (config.match !== undefined && !['any', 'all'].includes(config.match)) {
+        errors.push(`${path}.match: must be "any" or "all"`)
+      }
+      continue
+    }
+
+    if (trigger.type === 'pattern') {
+      try {
+        validatePatternTrigger(config)
+      } catch (error) {
+        errors.push(`${path}: ${error instanceof Error ? error.message : 'invalid pattern'}`)
+      }
+      if (config.input_mapping !== undefined &&
+          (typeof config.input_mapping !== 'object' ||
+           Object.values(config.input_mapping).some(value => typeof value !== 'string' && typeof value !== 'number'))) {
+        errors.push(`${path}.input_mapping: must map input fields to group names or numbers`)
+      }
+      continue
+    }
+
+    if (trigger.type === 'schedule') {
+      if (definition.workspace_id && config.workspace_id !== definition.workspace_id) {
+        errors.push(`${path}.workspace_id: must be the workflow's workspace`)
+      }
+      continue
+    }
+
+    if (trigger.type !== 'webhook') continue
+
+    if (typeof config.id !== 'string' || !/^[A-Za-z0-9_-]+$/.test(config.id)) {
+      errors.push(`${path}.id: webhook triggers need an id of letters, digits, "-" and "_"`)
+    } else if (webhookIds.has(config.id)) {
+      errors.push(`${path}.id: duplicate webhook trigger id "${config.id}"`)
+    } else {
+      webhookIds.add(config.id)
+    }
+
+    if (typeof config.workspace_id !== 'string' || !config.workspace_id) {
+      errors.push(`${path}.workspace_id: required`)
+    } else if (definition.workspace_id && config.workspace_id !== definition.workspace_id) {
+      errors.push(`${path}.workspace_id: must be the workflow's workspace`)
+    }
+    if (config.signature !== undefined && !WEBHOOK_SIGNATURE_SCHEMES.includes(config.signature)) {
+      errors.push(`${path}.signature: must be one of ${WEBHOOK_SIGNATURE_SCHEMES.join(', ')}`)
+    }
+    if (config.input_mapping !== undefined &&
+        (typeof config.input_mapping !== 'object' || Object.values(config.input_mapping).some(value => typeof value !== 'string'))) {
+      errors.push(`${path}.input_mapping: must map input fields to payload paths`)
+    }
+  }
+
+  return errors
+}
+
+function validateStepGraph(definition: WorkflowDefinition): string[] {
+  const errors: string[] = []
+  const stepIds = new Set<string>()
+
+  for (const step of definition.steps) {
+    if (stepIds.has(step.id)) {
+      errors.push(`steps.${step.id}: duplicate step id`)
+    }
+    stepIds.add(step.id)
+  }
+
+  for (const step of definition.steps) {
+    const references: Array<[string, string[]]> = [
+      ['depends_on', step.depends_on],
+      ['next_steps', step.next_steps]
+    ]
+    if (step.type === 'conditional') {
+      references.push(['config.then', step.config?.then || []], ['config.else', step.config?.else || []])
+    }
+
+    for (const [field, ids] of references) {
+      for (const id of ids) {
+        if (!stepIds.has(id)) {
+          errors.push(`steps.${step.id}.${field}: unknown step "${id}"`)
+        } else if (id === step.id) {
+          errors.push(`steps.${step.id}.${field}: step cannot reference itself`)
+        }
+      }
+    }
+
+    // Other workflows are checked when the step runs - they may be registered later
+    if (step.type === 'sub_workflow') {
+      if (typeof step.config?.workflow_id !== 'string' || !step.config.workflow_id) {
+        errors.push(`steps.${step.id}.config.workflow_id: required`)
+      } else if (step.config.workflow_id === definition.id) {
+        errors.push(`steps.${step.id}.config.workflow_id: a workflow cannot run itself`)
+      }
+    }
+
+    errors.push(...validateStepConfig(step))
+  }
+
+  // Dangling references make the graph checks below meaningless
+  if (errors.length > 0) return errors
+
+  const cycle = findDependencyCycle(definition)
+  if (cycle) {
+    errors.push(`steps: dependency cycle ${cycle.join(' -> ')}`)
+
+    for (const stepId of findUnreachableSteps(definition)) {
+      if (!cycle.includes(stepId)) {
+        errors.push(`steps.${stepId}: unreachable - waits on the dependency cycle`)
+      }
+    }
+    return errors
+  }
+
+  errors.push(...validateTemplateReferences(definition))
+
+  // A branch step must wait for its conditional, otherwise it is ready from
+  // the start and runs before the branch is chosen
+  for (const step of definition.steps) {
+    if (step.type !== 'conditional') continue
+
+    for (const branchId of [...(step.config?.then || []), ...(step.config?.else || [])]) {
+      if (!dependsOn(definition, branchId, step.id)) {
+        errors.push(`steps.${branchId}: branch of conditional "${step.id}" must depend on it`)
+      }
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Settings a step type cannot run without. Values may be templates, so only
+ * their presence is checked - except the agent, which picks the service.
+ */
+function validateStepConfig(step: WorkflowStep): string[] {
+  const errors: string[] = []
+  const config = step.config || {}
+  const required = (field: string) => {
+    if (config[field] === undefined || config[field] === null || config[field] === '') {
+      errors.push(`steps.${step.id}.config.${field}: required`)
+    }
+  }
+
+  switch (step.type) {
+    case 'call_agent':
+      if (!MCP_AGENTS.includes(config.agent)) {
+        errors.push(`steps.${step.id}.config.agent: must be one of ${MCP_AGENTS.join(', ')}`)
+      }
+      required('tool')
+      if (config.arguments !== undefined && (typeof config.arguments !== 'object' || Array.isArray(config.arguments))) {
+        errors.push(`steps.${step.id}.config.arguments: must be an object`)
+      }
+      break
+
+    case 'update_dns':
+      required('domain')
+      required('content')
+      break
+
+    case 'run_tests':
+      required('ip')
+      if (typeof config.min_score === 'number' && (config.min_score < 0 || config.min_score > 100)) {
+        errors.push(`steps.${step.id}.config.min_score: must be between 0 and 100`)
+      }
+      break
+  }
+
+  return errors
+}
+
+/**
+ * `${...}` expressions must parse, and step config may only read outputs of
+ * steps it depends on - anything else may not have run yet. Compensations
+ * run after the fact and may reference any step.
+ */
+function validateTemplateReferences(definition: WorkflowDefinition): string[] {
+  const errors: string[] = []
+  const stepIds = new Set(definition.steps.map(step => step.id))
+
+  for (const step of definition.steps) {
+    const expressions = [
+      ...collectTemplateExpressions(step.config, `steps.${step.id}.config`).map(found => ({ ...found, upstreamOnly: true })),
+      ...collectTemplateExpressions(step.approval_message, `steps.${step.id}.approval_message`).map(found => ({ ...found, upstreamOnly: true })),
+      ...collectTemplateExpressions(step.compensation?.config, `steps.${step.id}.compensation.config`).map(found => ({ ...found, upstreamOnly: false }))
+    ]
+
+    for (const { expression, location, upstreamOnly } of expressions) {
+      let path: string
+      try {
+        path = parseTemplateExpression(expression, location).path
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : `${location}: invalid expression`)
+        continue
+      }
+
+      const [root, referenced] = path.split('.')
+      if (root !== 'steps') continue
+
+      if (!referenced || !stepIds.has(referenced)) {
+        errors.push(`${location}: \${${path}} references unknown step "${referenced || ''}"`)
+      } else if (upstreamOnly && referenced !== step.id && !dependsOn(definition, step.id, referenced)) {
+        errors.push(`${location}: \${${path}} reads step "${referenced}" which ${step.id} does not depend on`)
+      }
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Steps that can never become ready - Kahn's algorithm over depends_on,
+ * whatever is left once no more steps can be released
+ */
+function findUnreachableSteps(definition: WorkflowDefinition): string[] {
+  const released = new Set<string>()
+  let progressed = true
+
+  while (progressed) {
+    progressed = false
+    for (const step of definition.steps) {
+      if (!released.has(step.id) && step.depends_on.every(depId => released.has(depId))) {
+        released.add(step.id)
+        progressed = true
+      }
+    }
+  }
+
+  return definition.steps.filter(step => !released.has(step.id)).map(step => step.id)
+}
+
+/**
+ * Whether `stepId` depends on `ancestorId`, directly or transitively
+ */
+function dependsOn(definition: WorkflowDefinition, stepId: string, ancestorId: string): boolean {
+  const visited = new Set<string>()
+  const queue = [stepId]
+
+  while (queue.length > 0) {
+    const currentId = queue.shift()
+    const step = definition.steps.find(s => s.id === currentId)
+    if (!step || visited.has(step.id)) continue
+    visited.add(step.id)
+
+    if (step.depends_on.includes(ancestorId)) return true
+    queue.push(...step.depends_on)
+  }
+
+  return false
+}
+
+/**
+ * Depth-first search over depends_on; returns the first cycle found
+ */
+function findDependencyCycle(definition: WorkflowDefinition): string[] | null {
+  const state = new Map<string, 'visiting' | 'done'>()
+  const path: string[] = []
+
+  const visit = (stepId: string): string[] | null => {
+    if (state.get(stepId) === 'done') return null
+    if (state.get(stepId) === 'visiting') {
+      return [...path.slice(path.indexOf(stepId)), stepId]
+    }
+
+    state.set(stepId, 'visiting')
+    path.push(stepId)
+
+    const step = definition.steps.find(s => s.id === stepId)!
+    for (const depId of step.depends_on) {
+      const cycle = visit(depId)
+      if (cycle) return cycle
+    }
+
+    path.pop()
+    state.set(stepId, 'done')
+    return null
+  }
+
+  for (const step of definition.steps) {
+    const cycle = visit(step.id)
+    if (cycle) return cycle
+  }
+
+  return null
+}
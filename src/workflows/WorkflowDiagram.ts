@@ -0,0 +1,152 @@
+import { WorkflowDefinition, WorkflowExecution } from '../types'
+
+/**
+ * Mermaid and Graphviz DOT renderings of a workflow's step graph.
+ *
+ * Edges follow `depends_on`; edges into conditional `then`/`else` branches
+ * are drawn dashed and labelled. With an execution, each step is colored by
+ * where that execution is: completed, failed, running, waiting (input or
+ * approval), skipped or pending.
+ */
+
+export const DIAGRAM_FORMATS = ['mermaid', 'dot'] as const
+export type DiagramFormat = typeof DIAGRAM_FORMATS[number]
+
+export type DiagramStepState = 'completed' | 'failed' | 'running' | 'waiting' | 'skipped' | 'pending'
+
+const STATE_STYLES: Record<DiagramStepState, { fill: string; stroke: string }> = {
+  completed: { fill: '#d4edda', stroke: '#28a745' },
+  failed: { fill: '#f8d7da', stroke: '#dc3545' },
+  running: { fill: '#cce5ff', stroke: '#007bff' },
+  waiting: { fill: '#fff3cd', stroke: '#ffc107' },
+  skipped: { fill: '#e9ecef', stroke: '#6c757d' },
+  pending: { fill: '#ffffff', stroke: '#adb5bd' }
+}
+
+interface DiagramEdge {
+  from: string
+  to: string
+  label?: 'then' | 'else'
+}
+
+export function renderWorkflowDiagram(
+  format: DiagramFormat,
+  definition: WorkflowDefinition,
+  execution?: WorkflowExecution
+): string {
+  return format === 'dot'
+    ? renderWorkflowDot(definition, execution)
+    : renderWorkflowMermaid(definition, execution)
+}
+
+export function renderWorkflowMermaid(definition: WorkflowDefinition, execution?: WorkflowExecution): string {
+  // Step ids may collide with Mermaid keywords (`end`), so nodes are numbered
+  const nodeIds = new Map(definition.steps.map((step, index) => [step.id, `step${index}`]))
+  const lines = ['flowchart TD']
+
+  for (const step of definition.steps) {
+    const label = `${escapeMermaid(step.name || step.id)}<br/><small>${step.type}</small>`
+    lines.push(`  ${nodeIds.get(step.id)}["${label}"]`)
+  }
+
+  for (const edge of diagramEdges(definition)) {
+    const arrow = edge.label ? ` -. ${edge.label} .-> ` : ' --> '
+    lines.push(`  ${nodeIds.get(edge.from)}${arrow}${nodeIds.get(edge.to)}`)
+  }
+
+  if (execution) {
+    const states = getStepStates(definition, execution)
+    for (const [state, style] of Object.entries(STATE_STYLES)) {
+      const dashed = state === 'skipped' ? ',stroke-dasharray:4 3' : ''
+      lines.push(`  classDef ${state} fill:${style.fill},stroke:${style.stroke}${dashed}`)
+    }
+    for (const step of definition.steps) {
+      lines.push(`  class ${nodeIds.get(step.id)} ${states[step.id]}`)
+    }
+  }
+
+  return lines.join('\n')
+}
+
+export function renderWorkflowDot(definition: WorkflowDefinition, execution?: WorkflowExecution): string {
+  const states = execution ? getStepStates(definition, execution) : undefined
+  const lines = [
+    `digraph ${quoteDot(definition.id)} {`,
+    '  rankdir=TB',
+    `  node [shape=box, style="rounded,filled", fillcolor="${STATE_STYLES.pending.fill}", fontname="Helvetica"]`
+  ]
+
+  if (execution) {
+    lines.push(`  label=${quoteDot(`${definition.name} - ${execution.status}`)}`, '  labelloc=t')
+  }
+
+  for (const step of definition.steps) {
+    const attributes = [`label=${quoteDot(`${step.name || step.id}\n(${step.type})`)}`]
+    const state = states?.[step.id]
+    if (state) {
+      const style = STATE_STYLES[state]
+      attributes.push(`fillcolor="${style.fill}"`, `color="${style.stroke}"`)
+      if (state === 'skipped') attributes.push('style="rounded,filled,dashed"')
+    }
+    lines.push(`  ${quoteDot(step.id)} [${attributes.join(', ')}]`)
+  }
+
+  for (const edge of diagramEdges(definition)) {
+    const attributes = edge.label ? ` [style=dashed, label=${quoteDot(edge.label)}]` : ''
+    lines.push(`  ${quoteDot(edge.from)} -> ${quoteDot(edge.to)}${attributes}`)
+  }
+
+  lines.push('}')
+  return lines.join('\n')
+}
+
+/**
+ * Where each step of the definition stands in the execution
+ */
+export function getStepStates(
+  definition: WorkflowDefinition,
+  execution: WorkflowExecution
+): Record<string, DiagramStepState> {
+  const inFlight = execution.status === 'running'
+    ? execution.progress.running_steps || (execution.current_step_id ? [execution.current_step_id] : [])
+    : []
+
+  const states: Record<string, DiagramStepState> = {}
+  for (const step of definition.steps) {
+    if (execution.completed_steps.includes(step.id)) states[step.id] = 'completed'
+    else if (execution.failed_steps.includes(step.id)) states[step.id] = 'failed'
+    else if (execution.skipped_steps.includes(step.id)) states[step.id] = 'skipped'
+    else if (execution.waiting_step_id === step.id && execution.status.startsWith('waiting')) states[step.id] = 'waiting'
+    else if (inFlight.includes(step.id)) states[step.id] = 'running'
+    else states[step.id] = 'pending'
+  }
+  return states
+}
+
+function diagramEdges(definition: WorkflowDefinition): DiagramEdge[] {
+  const steps = new Map(definition.steps.map(step => [step.id, step]))
+  const edges: DiagramEdge[] = []
+
+  for (const step of definition.steps) {
+    for (const dependency of step.depends_on || []) {
+      const from = steps.get(dependency)
+      if (!from) continue
+
+      // Branches depend on their conditional; that edge carries the branch label
+      const label = from.type === 'conditional'
+        ? (['then', 'else'] as const).find(branch => (from.config?.[branch] || []).includes(step.id))
+        : undefined
+      edges.push({ from: dependency, to: step.id, label })
+    }
+  }
+
+  return edges
+}
+
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;')
+}
+
+function quoteDot(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+}
@@ -0,0 +1,296 @@
+import { WorkflowCondition, WorkflowExecution } from '../types'
+import { InMemoryWorkflowDefinitionStore, InMemoryWorkflowExecutionStore } from '../stores'
+import { WorkflowEngine } from './WorkflowEngine'
+
+function notify(id: string, extra: Record<string, any> = {}) {
+  return { id, name: id, type: 'send_notification', ...extra }
+}
+
+async function run(engine: WorkflowEngine, definition: any, input: any = {}): Promise<WorkflowExecution> {
+  await engine.saveWorkflowDefinition(definition)
+  const finished = new Promise<WorkflowExecution>(resolve => {
+    for (const event of ['workflow.completed', 'workflow.failed']) {
+      engine.on(event, (execution: WorkflowExecution) => {
+        if (execution.workflow_id === definition.id) resolve(execution)
+      })
+    }
+  })
+  await engine.startWorkflow(definition.id, input)
+  return finished
+}
+
+describe('WorkflowEngine conditions', () => {
+  let engine: WorkflowEngine
+
+  beforeEach(() => {
+    engine = new WorkflowEngine()
+  })
+
+  async function runsWhen(conditions: WorkflowCondition[], input: any): Promise<boolean> {
+    const execution = await run(engine, {
+      id: 'conditional-step',
+      name: 'Conditional step',
+      steps: [notify('guarded', { conditions })]
+    }, input)
+    return execution.completed_steps.includes('guarded')
+  }
+
+  it.each<[WorkflowCondition['operator'], any, any, boolean]>([
+    ['equals', 'production', 'production', true],
+    ['equals', 'staging', 'production', false],
+    ['not_equals', 'staging', 'production', true],
+    ['greater_than', '150', 100, true],
+    ['greater_than', 100, 100, false],
+    ['greater_than_or_equal', 100, 100, true],
+    ['less_than', 20, 100, true],
+    ['less_than_or_equal', 101, 100, false],
+    ['contains', ['react', 'postgres'], 'postgres', true],
+    ['contains', 'my-react-app', 'react', true],
+    ['contains', undefined, 'react', false],
+    ['exists', 'anything', undefined, true],
+    ['exists', undefined, undefined, false],
+    ['exists', undefined, false, true]
+  ])('%s: %p against %p is %p', async (operator, actual, expected, holds) => {
+    const conditions = [{ field: 'input.value', operator, value: expected }]
+
+    expect(await runsWhen(conditions, { value: actual })).toBe(holds)
+  })
+
+  it('skips a step whose conditions do not hold and records why', async () => {
+    const execution = await run(engine, {
+      id: 'skipped-step',
+      name: 'Skipped step',
+      steps: [notify('production-only', { conditions: [{ field: 'input.environment', operator: 'equals', value: 'production' }] })]
+    }, { environment: 'staging' })
+
+    expect(execution.status).toBe('completed')
+    expect(execution.skipped_steps).toEqual(['production-only'])
+  })
+
+  it('reads earlier step outputs and statuses', async () => {
+    const execution = await run(engine, {
+      id: 'step-references',
+      name: 'Step references',
+      steps: [
+        notify('first', { config: { notification_type: 'started' } }),
+        notify('second', {
+          depends_on: ['first'],
+          conditions: [
+            { field: 'steps.first.status', operator: 'equals', value: 'completed' },
+            { field: 'steps.first.output.type', operator: 'equals', value: 'started' }
+          ]
+        })
+      ]
+    })
+
+    expect(execution.completed_steps).toEqual(['first', 'second'])
+  })
+
+  it('needs every condition unless match is any', async () => {
+    const conditions: WorkflowCondition[] = [
+      { field: 'input.environment', operator: 'equals', value: 'production' },
+      { field: 'input.replicas', operator: 'greater_than', value: 2 }
+    ]
+    const input = { environment: 'production', replicas: 1 }
+
+    expect(await runsWhen(conditions, input)).toBe(false)
+    expect(await run(engine, {
+      id: 'any-branch',
+      name: 'Any branch',
+      steps: [
+        { id: 'check', name: 'check', type: 'conditional', config: { conditions, match: 'any', then: ['then-step'], else: ['else-step'] } },
+        notify('then-step', { depends_on: ['check'] }),
+        notify('else-step', { depends_on: ['check'] })
+      ]
+    }, input)).toMatchObject({ completed_steps: ['check', 'then-step'], skipped_steps: ['else-step'] })
+  })
+
+  it('takes the else branch of a conditional step and skips the steps after the other branch', async () => {
+    const execution = await run(engine, {
+      id: 'branching',
+      name: 'Branching',
+      steps: [
+        {
+          id: 'check',
+          name: 'check',
+          type: 'conditional',
+          config: {
+            conditions: [{ field: 'input.environment', operator: 'equals', value: 'production' }],
+            then: ['approve'],
+            else: ['deploy-directly']
+          }
+        },
+        notify('approve', { depends_on: ['check'] }),
+        notify('after-approval', { depends_on: ['approve'] }),
+        notify('deploy-directly', { depends_on: ['check'] })
+      ]
+    }, { environment: 'staging' })
+
+    expect(execution.outputs.check).toMatchObject({ result: false, branch: 'else', selected_steps: ['deploy-directly'] })
+    expect(execution.completed_steps).toEqual(['check', 'deploy-directly'])
+    expect(execution.skipped_steps.sort()).toEqual(['after-approval', 'approve'])
+  })
+})
+
+describe('WorkflowEngine definitions in use', () => {
+  const approval = {
+    id: 'needs-approval',
+    name: 'Needs approval',
+    steps: [{ id: 'approve', name: 'approve', type: 'request_approval', approval_message: 'Go ahead?' }]
+  }
+
+  it('refuses to delete a definition with unfinished executions', async () => {
+    const engine = new WorkflowEngine()
+    await engine.saveWorkflowDefinition(approval)
+    const execution = await engine.startWorkflow('needs-approval', {})
+    await new Promise(resolve => engine.once('workflow.waiting_approval', resolve))
+
+    await expect(engine.deleteWorkflowDefinition('needs-approval')).rejects.toThrow('still has unfinished executions')
+
+    await engine.cancelExecution(execution.id)
+    expect(await engine.deleteWorkflowDefinition('needs-approval')).toBe(true)
+  })
+
+  it('creates no execution for an unknown workflow', async () => {
+    const engine = new WorkflowEngine()
+    const context: any = { user_id: 'user-1', workspace_id: 'ws-1' }
+
+    await expect(engine.startWorkflow('missing', {})).rejects.toThrow('Workflow not found: missing')
+    await expect(engine.executeWorkflow('missing', {}, context)).rejects.toThrow('Workflow not found: missing')
+    expect(await engine.listExecutions({})).toEqual([])
+  })
+
+  it('fails an execution whose definition is gone and frees its slot', async () => {
+    const engine = new WorkflowEngine(undefined, undefined, { maxConcurrentWorkflows: 1 })
+    await engine.saveWorkflowDefinition(approval)
+    const execution = await engine.startWorkflow('needs-approval', {})
+    await new Promise(resolve => engine.once('workflow.waiting_approval', resolve))
+
+    ;(engine as any).workflows.delete('needs-approval')
+    const failed = new Promise(resolve => engine.once('workflow.failed', resolve))
+    await engine.approveExecution(execution.id, { user_id: 'user-1' })
+    await failed
+    await new Promise(resolve => setTimeout(resolve, 10))
+
+    expect(execution).toMatchObject({ status: 'failed', error_message: 'Workflow not found: needs-approval' })
+    expect((await engine.getQueueStatus()).running).toBe(0)
+  })
+})
+
+describe('WorkflowEngine cancellation across instances', () => {
+  it('cancels an execution queued on another instance', async () => {
+    const store = new InMemoryWorkflowExecutionStore()
+    const owner = new WorkflowEngine(undefined, undefined, { store, maxConcurrentWorkflows: 1 })
+    const other = new WorkflowEngine(undefined, undefined, { store })
+    await owner.saveWorkflowDefinition({
+      id: 'polling',
+      name: 'Polling',
+      steps: [{
+        id: 'poll',
+        name: 'poll',
+        type: 'loop',
+        config: {
+          body: { type: 'send_notification', config: {} },
+          until: [{ field: 'input.never', operator: 'equals', value: true }],
+          max_iterations: 100,
+          interval_seconds: 0.1
+        }
+      }]
+    })
+
+    const running = await owner.startWorkflow('polling', {})
+    const queued = await owner.startWorkflow('polling', {})
+    expect(queued.status).toBe('pending')
+
+    expect(await other.cancelExecution(queued.id)).toBe(true)
+    await new Promise(resolve => setTimeout(resolve, 10))
+
+    expect((await store.get(queued.id))?.status).toBe('cancelled')
+    expect(queued.status).toBe('cancelled')
+    expect((await owner.getQueueStatus()).pending).toEqual([])
+    expect(await other.cancelExecution(queued.id)).toBe(false)
+
+    await owner.cancelExecution(running.id)
+  })
+})
+
+describe('WorkflowEngine shared definitions', () => {
+  it('loads definitions another instance saved and forgets deleted ones', async () => {
+    const definitionStore = new InMemoryWorkflowDefinitionStore()
+    const first = new WorkflowEngine(undefined, undefined, { definitionStore })
+    const second = new WorkflowEngine(undefined, undefined, { definitionStore })
+
+    await first.saveWorkflowDefinition({ id: 'ws-1.shared', name: 'Shared', steps: [notify('hello')] })
+    expect(await second.loadStoredDefinitions()).toEqual(['ws-1.shared'])
+    expect(second.getWorkflowSource('ws-1.shared')).toBe('api')
+
+    await first.deleteWorkflowDefinition('ws-1.shared')
+    expect(await definitionStore.get('ws-1.shared')).toBeUndefined()
+  })
+})
+
+describe('WorkflowEngine step timeouts', () => {
+  it('aborts a timed-out step and rolls it back when it completes anyway', async () => {
+    let signal: AbortSignal | undefined
+    const mcpService: any = {
+      withSignal: (aborts: AbortSignal) => {
+        signal = aborts
+        return mcpService
+      },
+      callAgentTool: () => new Promise(resolve => setTimeout(() => resolve({ success: true, result: { id: 'db-1' } }), 100)),
+      batchCall: jest.fn(async () => [{ success: true }])
+    }
+    const engine = new WorkflowEngine(undefined, undefined, { mcpService })
+
+    const execution = await run(engine, {
+      id: 'slow-create',
+      name: 'Slow create',
+      steps: [{
+        id: 'create',
+        name: 'create',
+        type: 'call_agent',
+        config: { agent: 'atlas', tool: 'create_database' },
+        timeout_seconds: 0.05,
+        compensation: { type: 'call_tool', config: { tool: 'delete_database', arguments: { id: '${steps.create.output.id}' } } }
+      }]
+    })
+    expect(execution.status).toBe('failed')
+    expect(signal?.aborted).toBe(true)
+
+    await new Promise(resolve => engine.once('workflow.rolled_back', resolve))
+    expect(mcpService.batchCall).toHaveBeenCalledWith([
+      { service: 'atlas', toolCall: { name: 'delete_database', arguments: { id: 'db-1' } } }
+    ])
+    expect(execution.late_steps).toEqual(['create'])
+    expect(execution.rollback).toMatchObject({ status: 'rolled_back', compensated: [{ step_id: 'create' }] })
+  })
+
+  it('stops a loop once its step times out', async () => {
+    const engine = new WorkflowEngine()
+    const iterations: number[] = []
+    engine.on('workflow.loop_iteration', ({ index }) => iterations.push(index))
+
+    const execution = await run(engine, {
+      id: 'endless-loop',
+      name: 'Endless loop',
+      steps: [{
+        id: 'poll',
+        name: 'poll',
+        type: 'loop',
+        timeout_seconds: 0.05,
+        config: {
+          body: { type: 'send_notification', config: {} },
+          until: [{ field: 'input.never', operator: 'equals', value: true }],
+          max_iterations: 100,
+          interval_seconds: 0.02
+        }
+      }]
+    })
+    const stoppedAt = iterations.length
+    await new Promise(resolve => setTimeout(resolve, 100))
+
+    expect(execution.status).toBe('failed')
+    expect(iterations.length).toBe(stoppedAt)
+    expect(stoppedAt).toBeLessThan(5)
+  })
+})
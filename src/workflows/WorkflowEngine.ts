@@ -2,343 +2,2216 @@ import { EventEmitter } from 'eventemitter3'
 import { v4 as uuidv4 } from 'uuid'
 import {
   WorkflowDefinition,
+  WorkflowTrigger,
   WorkflowExecution,
   WorkflowStep,
   WorkflowContext,
   WorkflowExecutionStatus,
   WorkflowStepType,
+  WatsonError,
   WorkflowError,
+  WorkflowValidationError,
+  WorkflowSchemaError,
+  TemplateExpressionError,
+  WorkflowCondition,
   Intent,
-  Entity
+  Entity,
+  StepAttempt,
+  Approver,
+  ApprovalRecord,
+  RollbackReport,
+  CompensationResult,
+  WorkflowExecutionNode,
+  WorkflowPriority,
+  PerformanceTier,
+  SimulatedResponse
 } from '../types'
+import { MCPService, MCPToolResult, MCPAgent } from '../services/MCPService'
+import { MCPSimulation } from '../services/MCPSimulation'
+import { SelfAssessmentService } from '../services/SelfAssessmentService'
+import { WorkflowExecutionStore, WorkflowExecutionFilter, InMemoryWorkflowExecutionStore, ExecutionSlotStore, WorkflowDefinitionStore, InMemoryWorkflowDefinitionStore } from '../stores'
+import { validateWorkflowDefinition } from './WorkflowDefinitionSchema'
+import { matchKeywordTrigger, matchPatternTrigger } from './MessageTriggers'
+import { resolveTemplates } from './TemplateExpressions'
+import { validateStepInput, validateWorkflowInput, validateWorkflowOutput } from './WorkflowSchemas'
+import { WorkflowExecutionQueue, WorkflowQueueStatus } from './WorkflowExecutionQueue'
+import { ResourceBlueprintCatalog, ResourcePlan, performanceTier } from './ResourceBlueprints'
+import {
+  loadWorkflowDefinitionFiles,
+  writeWorkflowDefinitionFile,
+  deleteWorkflowDefinitionFile
+} from './WorkflowDefinitionLoader'
+
+export interface WorkflowEngineOptions {
+  store?: WorkflowExecutionStore
+  instanceId?: string
+  maxParallelSteps?: number
+  maxConcurrentWorkflows?: number
+  maxConcurrentWorkflowsPerWorkspace?: number
+  slotStore?: ExecutionSlotStore
+  workflowTimeoutMinutes?: number
+  definitionsDir?: string
+  definitionStore?: WorkflowDefinitionStore
+  mcpService?: MCPService
+  blueprintCatalog?: ResourceBlueprintCatalog
+  selfAssessment?: SelfAssessmentService
+}
+
+export type WorkflowDefinitionSource = 'built_in' | 'file' | 'api'
+
+export interface TriggerMatch {
+  workflow_id: string
+  trigger_type: WorkflowTrigger['type']
+  // Static trigger input merged with what the message captured
+  input: Record<string, any>
+}
+
+type StepResult = {
+  status: string
+  output?: any
+  error?: string
+  retryable?: boolean
+  timed_out?: boolean
+}
+
+// Abort signals handed to a running step
+type StepSignals = {
+  // The step timed out - abandon its tool calls
+  timeout?: AbortSignal
+  // The step timed out or its run is ending (timeout, cancellation) - stop
+  // waiting and looping
+  stop?: AbortSignal
+}
+
+// Executions are leased to the instance running them; the lease is renewed
+// while steps run so a crashed instance's work can be recovered elsewhere
+const EXECUTION_LEASE_TTL_MS = 60 * 1000
+const EXECUTION_LEASE_RENEW_MS = 20 * 1000
+
+const DEFAULT_MAX_PARALLEL_STEPS = 4
+
+// Until-loops must be bounded so a condition that never holds cannot poll forever
+const DEFAULT_LOOP_MAX_ITERATIONS = 10
+
+// Tie-break between message triggers of equal priority - the more specific wins
+const MESSAGE_TRIGGER_RANK: Partial<Record<WorkflowTrigger['type'], number>> = {
+  pattern: 3,
+  keyword: 2,
+  intent: 1
+}
+
+// run_tests fails below this share of passed checks unless the step sets `min_score`
+const DEFAULT_TEST_MIN_SCORE = 80
+
+// update_dns checks propagation this often before giving up
+const DEFAULT_DNS_VERIFY_ATTEMPTS = 3
+const DEFAULT_DNS_VERIFY_INTERVAL_SECONDS = 10
+
+// Sub-workflows may nest this deep, counting the top-level execution
+const MAX_SUB_WORKFLOW_DEPTH = 5
+
+// How often a parent re-reads a child that may be running on another instance
+const CHILD_POLL_INTERVAL_MS = 5 * 1000
+
+// After a workflow timeout, how long steps still running get to finish before
+// the rollback starts. Steps finishing later are compensated as they land.
+const TIMEOUT_SETTLE_MS = 5 * 60 * 1000
+
+const TERMINAL_STATUSES: WorkflowExecutionStatus[] = ['completed', 'failed', 'cancelled', 'timeout', 'interrupted']
+const ACTIVE_STATUSES: WorkflowExecutionStatus[] = ['pending', 'running', 'waiting_approval', 'waiting_input']
+
+// Step types that are safe to re-run after an interruption
+const IDEMPOTENT_STEP_TYPES: WorkflowStepType[] = [
+  'parse_requirements',
+  'estimate_cost',
+  'request_approval',
+  'send_notification',
+  'wait_for_input',
+  'run_tests',
+  'conditional',
+  'parallel',
+  'sub_workflow' // Re-attaches to the child it already started
+]
 
 export class WorkflowEngine extends EventEmitter {
   private executions: Map<string, WorkflowExecution> = new Map()
   private workflows: Map<string, WorkflowDefinition> = new Map()
+  private workflowSources: Map<string, { source: WorkflowDefinitionSource; file?: string }> = new Map()
+  private definitionsDir?: string
+  private definitionStore: WorkflowDefinitionStore
+  private mcpService?: MCPService
+  private blueprintCatalog: ResourceBlueprintCatalog
+  private selfAssessment: SelfAssessmentService
+  private simulations: Map<string, { simulation: MCPSimulation; mcpService?: MCPService }> = new Map()
+  private activeRuns: Set<string> = new Set()
+  private runAborts: Map<string, AbortController> = new Map() // Ends sub-workflow waits of a run
+  private queue: WorkflowExecutionQueue
+  private queueLeaseRenewal?: NodeJS.Timeout
+  private store: WorkflowExecutionStore
+  private instanceId: string
+  private maxParallelSteps: number
+  private workflowTimeoutMs?: number
   
   // Agent integrations
   private atlasClient: any
   private contextClient: any
 
-  constructor(atlasClient?: any, contextClient?: any) {
+  constructor(atlasClient?: any, contextClient?: any, options: WorkflowEngineOptions = {}) {
     super()
     this.atlasClient = atlasClient
     this.contextClient = contextClient
+    this.store = options.store || new InMemoryWorkflowExecutionStore()
+    this.instanceId = options.instanceId || uuidv4()
+    this.maxParallelSteps = Math.max(1, options.maxParallelSteps || DEFAULT_MAX_PARALLEL_STEPS)
+    this.workflowTimeoutMs = options.workflowTimeoutMinutes ? options.workflowTimeoutMinutes * 60 * 1000 : undefined
+    this.definitionsDir = options.definitionsDir
+    this.definitionStore = options.definitionStore || new InMemoryWorkflowDefinitionStore()
+    this.mcpService = options.mcpService
+    this.blueprintCatalog = options.blueprintCatalog || new ResourceBlueprintCatalog()
+    this.selfAssessment = options.selfAssessment || new SelfAssessmentService()
+    this.queue = new WorkflowExecutionQueue(
+      {
+        maxConcurrent: options.maxConcurrentWorkflows || Infinity,
+        maxPerWorkspace: options.maxConcurrentWorkflowsPerWorkspace || Infinity
+      },
+      entry => this.admitExecution(entry.execution_id),
+      options.slotStore
+    )
     this.loadBuiltInWorkflows()
+    for (const id of this.workflows.keys()) {
+      this.workflowSources.set(id, { source: 'built_in' })
+    }
+
+    if (this.definitionsDir) {
+      this.loadWorkflowDefinitions(this.definitionsDir)
+    }
+
+    this.store.onCancel(executionId => {
+      this.cancelQueuedExecution(executionId).catch(error => {
+        console.error(`Failed to cancel execution ${executionId}:`, error)
+      })
+    })
+
+    this.definitionStore.subscribe(id => {
+      this.reloadStoredDefinition(id).catch(error => {
+        console.error(`Failed to reload workflow definition ${id}:`, error)
+      })
+    })
+  }
+
+  /**
+   * Load YAML/JSON definitions from a directory. Files override built-in
+   * workflows with the same id; invalid files are logged and skipped.
+   */
+  loadWorkflowDefinitions(directory: string): { loaded: string[]; errors: Array<{ file: string; errors: string[] }> } {
+    const result = { loaded: [] as string[], errors: [] as Array<{ file: string; errors: string[] }> }
+
+    for (const { file, definition, errors } of loadWorkflowDefinitionFiles(directory)) {
+      if (!definition) {
+        console.error(`Invalid workflow definition ${file}: ${errors.join('; ')}`)
+        result.errors.push({ file, errors })
+        continue
+      }
+
+      this.workflows.set(definition.id, definition)
+      this.workflowSources.set(definition.id, { source: 'file', file })
+      result.loaded.push(definition.id)
+    }
+
+    return result
+  }
+
+  /**
+   * Register the definitions saved through the API on any instance. They
+   * replace file definitions with the same id; built-in workflows are never
+   * replaced.
+   */
+  async loadStoredDefinitions(): Promise<string[]> {
+    const loaded: string[] = []
+
+    for (const definition of await this.definitionStore.list()) {
+      const source = this.workflowSources.get(definition.id)
+      if (source?.source === 'built_in') continue
+
+      this.workflows.set(definition.id, definition)
+      this.workflowSources.set(definition.id, { source: source?.file ? 'file' : 'api', file: source?.file })
+      this.emit('workflow.definition_saved', definition)
+      loaded.push(definition.id)
+    }
+
+    return loaded
+  }
+
+  /**
+   * Validate and register a workflow definition, replacing any existing
+   * definition with the same id except a built-in one. Definitions are
+   * saved to the shared definition store, so every instance runs them, and
+   * written to the definitions directory when one is configured.
+   */
+  async saveWorkflowDefinition(input: unknown): Promise<WorkflowDefinition> {
+    const { definition, errors } = validateWorkflowDefinition(input)
+    if (!definition) {
+      throw new WorkflowValidationError('Invalid workflow definition', (input as any)?.id, errors)
+    }
+
+    if (this.workflowSources.get(definition.id)?.source === 'built_in') {
+      throw new WorkflowError(`Built-in workflow ${definition.id} cannot be replaced`, definition.id)
+    }
+
+    const webhookConflicts = definition.triggers
+      .filter(trigger => trigger.type === 'webhook')
+      .map(trigger => ({ triggerId: trigger.config.id, owner: this.findWebhookTrigger(trigger.config.id)?.workflow }))
+      .filter(({ owner }) => owner && owner.id !== definition.id)
+    if (webhookConflicts.length > 0) {
+      // The owner may belong to another workspace - do not name it
+      throw new WorkflowValidationError('Invalid workflow definition', definition.id, webhookConflicts.map(
+        ({ triggerId }) => `triggers: webhook trigger "${triggerId}" is already used by another workflow`
+      ))
+    }
+
+    const existing = this.workflows.get(definition.id)
+    if (existing) {
+      definition.created_at = existing.created_at
+      definition.updated_at = new Date().toISOString()
+    }
+
+    let file = this.workflowSources.get(definition.id)?.file
+    if (this.definitionsDir) {
+      file = await writeWorkflowDefinitionFile(this.definitionsDir, definition, file)
+    }
+    await this.definitionStore.save(definition)
+
+    this.workflows.set(definition.id, definition)
+    this.workflowSources.set(definition.id, { source: file ? 'file' : 'api', file })
+    this.emit('workflow.definition_saved', definition)
+
+    return definition
+  }
+
+  /**
+   * Remove a workflow definition (and its file). Built-in workflows cannot
+   * be removed, nor can a definition while any of its executions is
+   * unfinished - they would have nothing left to run.
+   */
+  async deleteWorkflowDefinition(id: string): Promise<boolean> {
+    const source = this.workflowSources.get(id)
+    if (!source) return false
+
+    if (source.source === 'built_in') {
+      throw new WorkflowError(`Built-in workflow ${id} cannot be deleted`, id)
+    }
+
+    if (await this.store.count({ workflow_id: id, statuses: ACTIVE_STATUSES }) > 0) {
+      throw new WorkflowError(`Workflow ${id} still has unfinished executions; cancel them first`, id)
+    }
+
+    if (source.file) {
+      await deleteWorkflowDefinitionFile(source.file)
+    }
+    await this.definitionStore.delete(id)
+
+    this.workflows.delete(id)
+    this.workflowSources.delete(id)
+    this.emit('workflow.definition_deleted', { id })
+
+    return true
+  }
+
+  /**
+   * Apply a definition another instance saved or deleted
+   */
+  private async reloadStoredDefinition(id: string): Promise<void> {
+    const source = this.workflowSources.get(id)
+    if (source?.source === 'built_in') return
+
+    const definition = await this.definitionStore.get(id)
+    if (definition) {
+      this.workflows.set(id, definition)
+      this.workflowSources.set(id, { source: source?.file ? 'file' : 'api', file: source?.file })
+      this.emit('workflow.definition_saved', definition)
+    } else if (source) {
+      this.workflows.delete(id)
+      this.workflowSources.delete(id)
+      this.emit('workflow.definition_deleted', { id })
+    }
+  }
+
+  /**
+   * Get a workflow definition by ID
+   */
+  getWorkflow(id: string): WorkflowDefinition | undefined {
+    return this.workflows.get(id)
+  }
+
+  /**
+   * The workflow and trigger bound to an inbound webhook id
+   */
+  findWebhookTrigger(triggerId: string): { workflow: WorkflowDefinition; trigger: WorkflowTrigger } | undefined {
+    for (const workflow of this.workflows.values()) {
+      const trigger = workflow.triggers.find(t => t.type === 'webhook' && t.config?.id === triggerId)
+      if (trigger) return { workflow, trigger }
+    }
+    return undefined
+  }
+
+  /**
+   * Where a workflow definition came from
+   */
+  getWorkflowSource(id: string): WorkflowDefinitionSource | undefined {
+    return this.workflowSources.get(id)?.source
+  }
+
+  /**
+   * Reload unfinished executions from the store after a restart.
+   *
+   * Executions waiting on a human are restored as-is and pending ones are
+   * queued again. Running executions are
+   * resumed from their last checkpoint, unless a step in flight when the
+   * previous instance died is not idempotent - those are marked interrupted
+   * rather than risk provisioning the same resources twice.
+   */
+  async recoverExecutions(): Promise<{ restored: string[]; queued: string[]; resumed: string[]; interrupted: string[] }> {
+    const recovered = { restored: [] as string[], queued: [] as string[], resumed: [] as string[], interrupted: [] as string[] }
+
+    const executions = await this.store.list({
+      statuses: ACTIVE_STATUSES
+    })
+
+    for (const execution of executions) {
+      if (this.executions.has(execution.id)) continue
+      execution.skipped_steps = execution.skipped_steps || []
+
+      if (execution.status === 'pending') {
+        // Still queued on another live instance
+        if (!await this.store.acquireLease(execution.id, this.instanceId, EXECUTION_LEASE_TTL_MS)) continue
+
+        this.executions.set(execution.id, execution)
+        await this.enqueueExecution(execution)
+        recovered.queued.push(execution.id)
+        continue
+      }
+
+      if (execution.status !== 'running') {
+        this.executions.set(execution.id, execution)
+        recovered.restored.push(execution.id)
+        continue
+      }
+
+      // Another live instance still owns this execution
+      if (!await this.store.acquireLease(execution.id, this.instanceId, EXECUTION_LEASE_TTL_MS)) {
+        continue
+      }
+
+      this.executions.set(execution.id, execution)
+      const workflow = this.workflows.get(execution.workflow_id)
+      const inFlightIds = execution.progress.running_steps ||
+        (execution.current_step_id ? [execution.current_step_id] : [])
+      const unsafeSteps = (workflow?.steps || []).filter(step =>
+        inFlightIds.includes(step.id) &&
+        !this.isStepSettled(step.id, execution) &&
+        !this.isIdempotent(step)
+      )
+
+      if (!workflow || unsafeSteps.length > 0) {
+        execution.status = 'interrupted'
+        execution.error_message = workflow
+          ? `Watson restarted while step ${unsafeSteps.map(step => step.id).join(', ')} was running; it is not safe to re-run automatically`
+          : `Workflow not found: ${execution.workflow_id}`
+        execution.completed_at = new Date().toISOString()
+        await this.checkpoint(execution)
+        await this.store.releaseLease(execution.id, this.instanceId)
+
+        this.emit('workflow.interrupted', execution)
+        recovered.interrupted.push(execution.id)
+        continue
+      }
+
+      this.runExecution(execution).catch(error => {
+        console.error('Recovered workflow execution failed:', error)
+      })
+      recovered.resumed.push(execution.id)
+    }
+
+    return recovered
   }
 
   /**
-   * Execute a workflow based on intent and entities
+   * Execute a workflow with a prepared context - `startWorkflow` for callers
+   * that already hold the user's preferences and requirements
    */
   async executeWorkflow(
     workflowId: string,
     input: any,
     context: WorkflowContext
+  ): Promise<WorkflowExecution> {
+    const execution = await this.createExecution(workflowId, {
+      ...input,
+      user_id: context.user_id,
+      workspace_id: context.workspace_id
+    })
+    execution.context = { ...execution.context, ...context }
+    execution.priority = this.workflows.get(workflowId)!.priority || 'normal'
+    await this.checkpoint(execution)
+    this.emit('workflow.started', execution)
+
+    // Runs asynchronously once the queue admits it
+    await this.enqueueExecution(execution)
+
+    return execution
+  }
+
+  /**
+   * Get workflow execution by ID
+   */
+  getExecution(id: string): WorkflowExecution | undefined {
+    return this.executions.get(id)
+  }
+
+  /**
+   * Get workflow execution by ID, falling back to the durable store for
+   * executions started by another instance
+   */
+  async loadExecution(id: string): Promise<WorkflowExecution | undefined> {
+    return this.executions.get(id) || await this.store.get(id)
+  }
+
+  /**
+   * Executions in the durable store matching `filter`, newest first and
+   * paged by its `limit` and `offset`. Ones running on this instance are
+   * returned in their live state.
+   */
+  async listExecutions(filter: WorkflowExecutionFilter = {}): Promise<WorkflowExecution[]> {
+    const stored = await this.store.list(filter)
+    return stored.map(execution => this.executions.get(execution.id) || execution)
+  }
+
+  /**
+   * Number of executions in the durable store matching `filter`
+   */
+  async countExecutions(filter: WorkflowExecutionFilter = {}): Promise<number> {
+    return this.store.count(filter)
+  }
+
+  /**
+   * Cancel workflow execution
+   */
+  async cancelExecution(id: string): Promise<boolean> {
+    const execution = this.executions.get(id)
+    if (!execution) return this.cancelRemoteExecution(id)
+
+    // Nothing has run yet, so there is nothing to roll back
+    if (execution.status === 'pending' && this.queue.remove(id)) {
+      execution.status = 'cancelled'
+      execution.progress.queue_position = undefined
+      execution.completed_at = new Date().toISOString()
+      await this.checkpoint(execution)
+      await this.store.releaseLease(execution.id, this.instanceId).catch(() => undefined)
+      this.emit('workflow.cancelled', execution)
+      await this.updateQueuePositions()
+      return true
+    }
+
+    if (['running', 'waiting_input', 'waiting_approval'].includes(execution.status)) {
+      execution.status = 'cancelled'
+      execution.completed_at = new Date().toISOString()
+      await this.checkpoint(execution)
+      this.emit('workflow.cancelled', execution)
+
+      // Sub-workflow steps settle once their children are cancelled, or stop
+      // waiting on children running elsewhere
+      await this.cancelChildren(execution)
+      this.runAborts.get(execution.id)?.abort()
+
+      // A running execution rolls back once its in-flight steps settle
+      if (!this.activeRuns.has(execution.id)) {
+        this.compensate(execution).catch(error => {
+          console.error(`Rollback failed for execution ${execution.id}:`, error)
+        })
+      }
+      return true
+    }
+
+    return false
+  }
+
+  /**
+   * Cancel an execution queued on another instance: mark it cancelled in the
+   * store while it is still pending there, then tell its instance to drop it
+   */
+  private async cancelRemoteExecution(id: string): Promise<boolean> {
+    const execution = await this.store.get(id)
+    if (execution?.status !== 'pending') return false
+
+    execution.status = 'cancelled'
+    execution.progress.queue_position = undefined
+    execution.completed_at = new Date().toISOString()
+    execution.checkpointed_at = execution.completed_at
+    if (!await this.store.saveIfStatus(execution, 'pending')) return false
+
+    this.emit('workflow.cancelled', execution)
+    await this.store.announceCancel(id)
+    return true
+  }
+
+  /**
+   * Drop an execution cancelled by another instance from this instance's
+   * queue. One admitted before the cancellation arrived is cancelled here.
+   */
+  private async cancelQueuedExecution(id: string): Promise<void> {
+    const execution = this.executions.get(id)
+    if (!execution || TERMINAL_STATUSES.includes(execution.status)) return
+
+    if (execution.status === 'pending' && this.queue.remove(id)) {
+      execution.status = 'cancelled'
+      execution.progress.queue_position = undefined
+      execution.completed_at = new Date().toISOString()
+      await this.checkpoint(execution)
+      await this.store.releaseLease(execution.id, this.instanceId).catch(() => undefined)
+      await this.updateQueuePositions()
+      return
+    }
+
+    await this.cancelExecution(id)
+  }
+
+  /**
+   * Create an execution and queue it. It starts straight away unless the
+   * global or workspace concurrency limit is reached, in which case it stays
+   * `pending` with its `progress.queue_position`.
+   */
+  async startWorkflow(
+    workflowId: string,
+    input: any,
+    options: { priority?: WorkflowPriority; dryRun?: boolean; simulatedResponses?: SimulatedResponse[] } = {}
+  ): Promise<WorkflowExecution> {
+    const execution = await this.createExecution(workflowId, input, options)
+    execution.priority = options.priority || this.workflows.get(workflowId)?.priority || 'normal'
+    await this.enqueueExecution(execution)
+    return execution
+  }
+
+  /**
+   * Cluster-wide running counts and the executions pending on this instance
+   */
+  async getQueueStatus(): Promise<WorkflowQueueStatus & { instance_id: string }> {
+    return { instance_id: this.instanceId, ...await this.queue.status() }
+  }
+
+  /**
+   * The lease is taken while the execution is pending so that no other
+   * instance's recovery picks it up
+   */
+  private async enqueueExecution(execution: WorkflowExecution): Promise<void> {
+    await this.store.acquireLease(execution.id, this.instanceId, EXECUTION_LEASE_TTL_MS)
+    await this.queue.enqueue({
+      execution_id: execution.id,
+      workflow_id: execution.workflow_id,
+      workspace_id: execution.context.workspace_id,
+      priority: execution.priority || 'normal',
+      queued_at: new Date().toISOString()
+    })
+
+    const position = this.queue.positions().get(execution.id)
+    if (position !== undefined) {
+      execution.progress.queue_position = position
+      await this.checkpoint(execution)
+      console.log(`Workflow execution ${execution.id} queued at position ${position}`)
+      this.emit('workflow.queued', execution)
+    }
+    await this.updateQueuePositions()
+  }
+
+  private admitExecution(executionId: string): void {
+    const execution = this.executions.get(executionId)
+    if (!execution) {
+      this.releaseSlot(executionId)
+      return
+    }
+
+    execution.progress.queue_position = undefined
+    this.launchExecution(execution).catch(async (error: Error) => {
+      console.error(`Failed to start workflow execution ${executionId}:`, error)
+      execution.status = 'failed'
+      execution.error_message = error.message
+      await this.checkpoint(execution)
+      this.emit('workflow.failed', execution)
+      this.releaseSlot(executionId)
+    })
+  }
+
+  private releaseSlot(executionId: string): void {
+    this.queue.finished(executionId).catch(error => {
+      console.error(`Failed to release the queue slot of execution ${executionId}:`, error)
+    })
+  }
+
+  /**
+   * Record each pending execution's place in the queue, and keep their
+   * leases alive while any are waiting
+   */
+  private async updateQueuePositions(): Promise<void> {
+    const positions = this.queue.positions()
+
+    if (positions.size > 0 && !this.queueLeaseRenewal) {
+      this.queueLeaseRenewal = setInterval(() => {
+        for (const executionId of this.queue.positions().keys()) {
+          this.store.acquireLease(executionId, this.instanceId, EXECUTION_LEASE_TTL_MS).catch(error => {
+            console.error(`Failed to renew lease for queued execution ${executionId}:`, error)
+          })
+        }
+        // Slots freed on other instances are not announced here
+        this.queue.drain()
+          .then(() => this.updateQueuePositions())
+          .catch(error => console.error('Failed to admit queued workflow executions:', error))
+      }, EXECUTION_LEASE_RENEW_MS)
+    } else if (positions.size === 0 && this.queueLeaseRenewal) {
+      clearInterval(this.queueLeaseRenewal)
+      this.queueLeaseRenewal = undefined
+    }
+
+    for (const [executionId, position] of positions) {
+      const execution = this.executions.get(executionId)
+      if (!execution || execution.progress.queue_position === position) continue
+
+      execution.progress.queue_position = position
+      await this.checkpoint(execution)
+      this.emit('workflow.progress', execution)
+    }
+  }
+
+  private async launchExecution(execution: WorkflowExecution): Promise<void> {
+    await this.store.acquireLease(execution.id, this.instanceId, EXECUTION_LEASE_TTL_MS)
+
+    // It may have been cancelled from another instance while it was queued
+    const stored = await this.store.get(execution.id)
+    if (stored?.status === 'cancelled') {
+      Object.assign(execution, stored)
+      await this.store.releaseLease(execution.id, this.instanceId).catch(() => undefined)
+      this.releaseSlot(execution.id)
+      return
+    }
+    this.runExecution(execution).catch(async (error: Error) => {
+      execution.status = 'failed'
+      execution.error_message = error.message
+      await this.checkpoint(execution)
+      this.emit('workflow.failed', execution)
+    })
+  }
+
+  /**
+   * An execution and its sub-workflow executions, recursively
+   */
+  async getExecutionTree(id: string, depth = 0): Promise<WorkflowExecutionNode | undefined> {
+    const execution = await this.loadExecution(id)
+    if (!execution) return undefined
+
+    const children: WorkflowExecutionNode[] = []
+    if (depth < MAX_SUB_WORKFLOW_DEPTH) {
+      for (const childId of Object.values(execution.child_executions || {})) {
+        const child = await this.getExecutionTree(childId, depth + 1)
+        if (child) children.push(child)
+      }
+    }
+
+    return {
+      id: execution.id,
+      workflow_id: execution.workflow_id,
+      status: execution.status,
+      parent_execution_id: execution.parent_execution_id,
+      parent_step_id: execution.parent_step_id,
+      started_at: execution.started_at,
+      completed_at: execution.completed_at,
+      error_message: execution.error_message,
+      children
+    }
+  }
+
+  /**
+   * Create and checkpoint an execution. Input is checked against the
+   * workflow's `input_schema` first; an unknown workflow or invalid input
+   * creates nothing.
+   */
+  private async createExecution(
+    workflowId: string,
+    input: any,
+    options: { dryRun?: boolean; simulatedResponses?: SimulatedResponse[]; simulation?: MCPSimulation } = {}
   ): Promise<WorkflowExecution> {
     const workflow = this.workflows.get(workflowId)
     if (!workflow) {
       throw new WorkflowError(`Workflow not found: ${workflowId}`, workflowId)
     }
 
+    const checked = validateWorkflowInput(workflow, input)
+    if (checked.errors.length > 0) {
+      throw new WorkflowSchemaError(`Invalid input for workflow ${workflowId}`, workflowId, checked.errors)
+    }
+    input = checked.input
+
     const execution: WorkflowExecution = {
       id: uuidv4(),
       workflow_id: workflowId,
-      conversation_id: context.user_id + '_' + Date.now(),
+      conversation_id: input.conversation_id,
       status: 'pending',
       input,
-      context,
-      current_step_id: undefined,
-      completed_steps: [],
-      failed_steps: [],
-      outputs: {},
-      started_at: new Date().toISOString(),
-      progress: {
-        total_steps: workflow.steps.length,
-        completed_steps: 0
+      context: {
+        user_id: input.user_id,
+        workspace_id: input.workspace_id,
+        existing_infrastructure: [],
+        target_infrastructure: null,
+        requirements: [],
+        preferences: {
+          preferred_cloud_provider: 'digitalocean',
+          preferred_regions: ['nyc3'],
+          cost_optimization: 'balanced',
+          budget_alerts: true,
+          deployment_style: 'balanced',
+          auto_scaling: false,
+          backup_frequency: 'daily',
+          notification_channels: ['email'],
+          progress_updates: 'normal',
+          container_orchestration: 'none',
+          ci_cd_integration: false,
+          monitoring_level: 'basic'
+        },
+        estimated_costs: 0,
+        resource_limits: {
+          max_monthly_cost: 1000,
+          max_instances: 10,
+          max_storage_gb: 1000,
+          max_bandwidth_gb: 1000
+        }
+      },
+      current_step_id: undefined,
+      completed_steps: [],
+      failed_steps: [],
+      skipped_steps: [],
+      outputs: {},
+      started_at: new Date().toISOString(),
+      progress: {
+        total_steps: workflow.steps.length,
+        completed_steps: 0,
+        skipped_steps: 0
+      }
+    }
+
+    if (options.dryRun) {
+      const simulation = options.simulation || new MCPSimulation()
+      execution.dry_run = true
+      execution.simulation = { responses: options.simulatedResponses || [], report: simulation.report() }
+      if (options.simulation) {
+        this.simulations.set(execution.id, { simulation: options.simulation })
       }
     }
 
     this.executions.set(execution.id, execution)
-    this.emit('workflow.started', execution)
+    await this.checkpoint(execution)
+    return execution
+  }
+
+  /**
+   * The simulation answering a dry run's tool calls. Sub-workflows share
+   * their parent's, so the top-level report covers the whole tree. After a
+   * restart the simulation continues from the checkpointed report.
+   */
+  private simulationFor(execution: WorkflowExecution): MCPSimulation {
+    let entry = this.simulations.get(execution.id)
+    if (!entry) {
+      const { responses = [], report } = execution.simulation || {}
+      entry = {
+        simulation: this.mcpService
+          ? this.mcpService.createSimulation(responses, report)
+          : new MCPSimulation({ responses, report })
+      }
+      this.simulations.set(execution.id, entry)
+    }
+    return entry.simulation
+  }
+
+  /**
+   * MCP calls for an execution - simulated for dry runs, and aborted once
+   * `signal` fires
+   */
+  private mcpFor(execution: WorkflowExecution, signal?: AbortSignal): MCPService | undefined {
+    let mcpService = this.mcpService
+    if (execution.dry_run && mcpService) {
+      const simulation = this.simulationFor(execution)
+      const entry = this.simulations.get(execution.id)!
+      entry.mcpService = entry.mcpService || mcpService.withSimulation(simulation)
+      mcpService = entry.mcpService
+    }
+    return signal && mcpService ? mcpService.withSignal(signal) : mcpService
+  }
+
+  /**
+   * Atlas client for an execution. Without a dedicated client, estimates and
+   * provisioning go through Atlas MCP tools, aborted once `signal` fires; dry
+   * runs always go through the simulation.
+   */
+  private atlasFor(execution: WorkflowExecution, signal?: AbortSignal): any {
+    if (this.atlasClient && !execution.dry_run) return this.atlasClient
+
+    let callTool: (toolCall: { name: string; arguments: Record<string, any> }) => Promise<MCPToolResult>
+    if (execution.dry_run) {
+      const simulation = this.simulationFor(execution)
+      callTool = async toolCall => simulation.call('atlas', toolCall)
+    } else if (this.mcpService) {
+      const mcpService = signal ? this.mcpService.withSignal(signal) : this.mcpService
+      callTool = toolCall => mcpService.callAtlasTool(toolCall)
+    } else {
+      return undefined
+    }
+
+    const call = async (name: string, args: Record<string, any>) => {
+      const result = await callTool({ name, arguments: args })
+      if (!result.success) throw new Error(result.error || `${name} failed`)
+      return result.result
+    }
+
+    return {
+      estimateCost: async (request: any) => {
+        const estimate = await call('estimate_infrastructure_cost', { requirements: request })
+        return estimate?.monthly_cost ?? estimate
+      },
+      createInfrastructure: async (userId: string, workspaceId: string, request: any) =>
+        call('provision_infrastructure', { requirements: request, user_id: userId, workspace_id: workspaceId })
+    }
+  }
+
+  /**
+   * Resume workflow execution with user input. Input that does not match the
+   * waiting step's `input_schema` throws and leaves the execution waiting.
+   */
+  async resumeExecution(id: string, userInput: any): Promise<boolean> {
+    const execution = await this.loadExecution(id)
+    if (!execution || execution.status !== 'waiting_input') {
+      return false
+    }
+
+    const waitingStep = this.workflows.get(execution.workflow_id)?.steps.find(step => step.id === execution.waiting_step_id)
+    if (waitingStep) {
+      const checked = validateStepInput(waitingStep, userInput)
+      if (checked.errors.length > 0) {
+        throw new WorkflowSchemaError(`Invalid input for step ${waitingStep.id}`, execution.workflow_id, checked.errors)
+      }
+      userInput = checked.input
+    }
+
+    // Another instance may be resuming the same execution
+    if (!await this.store.acquireLease(execution.id, this.instanceId, EXECUTION_LEASE_TTL_MS)) {
+      return false
+    }
+    this.executions.set(execution.id, execution)
+
+    // Store user input in context
+    execution.context.user_input = userInput
+    this.completeWaitingStep(execution, { user_input: userInput })
+    execution.status = 'running'
+    await this.checkpoint(execution)
+
+    // Resume execution
+    this.runExecution(execution).catch(async (error: Error) => {
+      execution.status = 'failed'
+      execution.error_message = error.message
+      await this.checkpoint(execution)
+      this.emit('workflow.failed', execution)
+    })
+
+    return true
+  }
+
+  /**
+   * Approve the step an execution is waiting on and continue running it
+   */
+  async approveExecution(id: string, approver: Approver, comment?: string): Promise<WorkflowExecution> {
+    return this.decideApproval(id, 'approved', approver, comment)
+  }
+
+  /**
+   * Reject the step an execution is waiting on; the execution is cancelled
+   */
+  async rejectExecution(id: string, approver: Approver, comment?: string): Promise<WorkflowExecution> {
+    return this.decideApproval(id, 'rejected', approver, comment)
+  }
+
+  private async decideApproval(
+    id: string,
+    decision: 'approved' | 'rejected',
+    approver: Approver,
+    comment?: string
+  ): Promise<WorkflowExecution> {
+    const execution = await this.loadExecution(id)
+    if (!execution) {
+      throw new WatsonError(`Workflow execution not found: ${id}`, 'EXECUTION_NOT_FOUND', 404)
+    }
+    if (execution.status !== 'waiting_approval') {
+      throw new WatsonError(`Workflow execution is ${execution.status}, not waiting for approval`, 'EXECUTION_NOT_AWAITING_APPROVAL', 409)
+    }
+    if (execution.context.workspace_id && approver.workspace_id !== execution.context.workspace_id) {
+      throw new WatsonError('Approver does not belong to this workspace', 'APPROVER_FORBIDDEN', 403)
+    }
+
+    // Another instance may be deciding the same approval
+    if (!await this.store.acquireLease(execution.id, this.instanceId, EXECUTION_LEASE_TTL_MS)) {
+      throw new WatsonError('Workflow execution is being handled by another instance', 'EXECUTION_LOCKED', 409)
+    }
+    this.executions.set(execution.id, execution)
+
+    const request = execution.outputs['approval_request'] || {}
+    const record: ApprovalRecord = {
+      step_id: execution.waiting_step_id || request.step_id,
+      decision,
+      approver_id: approver.user_id,
+      approver_email: approver.email,
+      comment,
+      approval_message: request.message,
+      estimated_cost: request.cost,
+      requested_at: request.timestamp,
+      decided_at: new Date().toISOString()
+    }
+    execution.approvals = [...(execution.approvals || []), record]
+    console.log(`Workflow execution ${execution.id} step ${record.step_id} ${decision} by ${approver.user_id}`)
+    this.emit('workflow.approval_decided', { execution, approval: record })
+
+    if (decision === 'rejected') {
+      execution.outputs[record.step_id] = { approved: false, ...record }
+      execution.waiting_step_id = undefined
+      execution.status = 'cancelled'
+      execution.error_message = `Rejected by ${approver.email || approver.user_id}${comment ? `: ${comment}` : ''}`
+      execution.completed_at = new Date().toISOString()
+      await this.checkpoint(execution)
+      await this.store.releaseLease(execution.id, this.instanceId).catch(() => undefined)
+
+      this.emit('workflow.cancelled', execution)
+
+      await this.compensate(execution)
+      return execution
+    }
+
+    this.completeWaitingStep(execution, { approved: true, ...record })
+    execution.status = 'running'
+    await this.checkpoint(execution)
+
+    this.runExecution(execution).catch(async (error: Error) => {
+      execution.status = 'failed'
+      execution.error_message = error.message
+      await this.checkpoint(execution)
+      this.emit('workflow.failed', execution)
+    })
+
+    return execution
+  }
+
+  /**
+   * Mark the step the execution was paused on as completed so resuming
+   * continues past it instead of pausing again
+   */
+  private completeWaitingStep(execution: WorkflowExecution, output: any): void {
+    const stepId = execution.waiting_step_id
+    if (!stepId || this.isStepSettled(stepId, execution)) return
+
+    execution.completed_steps.push(stepId)
+    execution.progress.completed_steps++
+    execution.outputs[stepId] = output
+    execution.waiting_step_id = undefined
+  }
+
+  /**
+   * Run workflow execution
+   */
+  private async runExecution(execution: WorkflowExecution): Promise<void> {
+    this.activeRuns.add(execution.id)
+    const abort = new AbortController()
+    this.runAborts.set(execution.id, abort)
+
+    const inFlight: Map<string, Promise<void>> = new Map()
+    // Assigned from step callbacks - asserted so TS does not narrow them to null
+    let pause = null as 'waiting_input' | 'waiting_approval' | null
+    let failure = null as WorkflowError | null
+    let timedOut = false
+
+    // The workflow timeout budgets time spent running; waiting on a user
+    // does not count against it
+    const activeBefore = execution.active_duration_ms || 0
+    const segmentStarted = Date.now()
+    const trackActiveTime = () => {
+      execution.active_duration_ms = activeBefore + (Date.now() - segmentStarted)
+    }
+
+    let leaseRenewal: NodeJS.Timeout | undefined
+    let deadlineTimer: NodeJS.Timeout | undefined
+
+    try {
+      await this.queue.started(execution.id, execution.context.workspace_id)
+
+      // The definition may have been removed while the execution was
+      // queued or waiting
+      const workflow = this.workflows.get(execution.workflow_id)
+      if (!workflow) {
+        throw new WorkflowError(`Workflow not found: ${execution.workflow_id}`, execution.workflow_id)
+      }
+
+      execution.status = 'running'
+      await this.checkpoint(execution)
+      this.emit('workflow.progress', execution)
+
+      // Keep our lease alive for long-running steps
+      leaseRenewal = setInterval(() => {
+        this.store.acquireLease(execution.id, this.instanceId, EXECUTION_LEASE_TTL_MS).catch(error => {
+          console.error(`Failed to renew lease for execution ${execution.id}:`, error)
+        })
+        this.queue.renew(execution.id).catch(error => {
+          console.error(`Failed to renew the queue slot of execution ${execution.id}:`, error)
+        })
+      }, EXECUTION_LEASE_RENEW_MS)
+
+      const limit = Math.max(1, workflow.max_parallel_steps || this.maxParallelSteps)
+      const deadline = new Promise<void>(resolve => {
+        if (this.workflowTimeoutMs === undefined) return
+        deadlineTimer = setTimeout(() => {
+          timedOut = true
+          abort.abort()
+          resolve()
+        }, Math.max(0, this.workflowTimeoutMs - activeBefore))
+      })
+
+      const launch = (step: WorkflowStep) => {
+        execution.current_step_id = step.id
+        this.updateRunningSteps(workflow, execution, [...inFlight.keys(), step.id])
+
+        const task = this.executeStepWithPolicy(step, execution)
+          .then(async result => {
+            if (result.status === 'completed') {
+              execution.completed_steps.push(step.id)
+              execution.progress.completed_steps++
+
+              // Store step outputs
+              execution.outputs[step.id] = result.output
+
+              // Finished after the timeout rollback began - undo it too
+              if (execution.rollback) {
+                await this.compensateLateStep(step, execution)
+              }
+
+            } else if (result.status === 'waiting_input' || result.status === 'waiting_approval') {
+              pause = pause || result.status
+              execution.waiting_step_id = execution.waiting_step_id || step.id
+
+            } else {
+              // Step failed
+              execution.failed_steps.push(step.id)
+              failure = failure || new WorkflowError(
+                `Step ${step.id} failed: ${result.error}`,
+                execution.workflow_id,
+                step.id
+              )
+            }
+          })
+          .catch(error => {
+            execution.failed_steps.push(step.id)
+            failure = failure || new WorkflowError(
+              `Step ${step.id} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              execution.workflow_id,
+              step.id
+            )
+          })
+          .finally(() => {
+            inFlight.delete(step.id)
+            this.updateRunningSteps(workflow, execution, [...inFlight.keys()])
+          })
+
+        inFlight.set(step.id, task)
+      }
+
+      // Fan out every ready step up to the concurrency limit, then wait for
+      // any one to settle before looking for newly unblocked steps. Once a
+      // step fails or pauses nothing new is started, but steps already in
+      // flight are allowed to finish.
+      while (!timedOut) {
+        if (execution.status === 'running' && !failure && !pause) {
+          const ready = this.findReadySteps(workflow, execution, inFlight)
+          const startable = ready.slice(0, limit - inFlight.size)
+
+          startable.forEach(launch)
+          if (startable.length > 0) {
+            await this.checkpoint(execution)
+            this.emit('workflow.progress', execution)
+          }
+        }
+
+        if (inFlight.size === 0) break
+
+        await Promise.race([...inFlight.values(), deadline])
+        await this.checkpoint(execution)
+        this.emit('workflow.progress', execution)
+      }
+
+      // Nothing new starts; steps in flight get TIMEOUT_SETTLE_MS to finish
+      // (sub-workflows are cancelled) so the rollback sees what they created
+      if (timedOut && execution.status === 'running') {
+        trackActiveTime()
+        execution.status = 'timeout'
+        execution.error_message = `Workflow exceeded its ${this.workflowTimeoutMs! / 60000} minute timeout` +
+          (inFlight.size > 0 ? ` while running ${[...inFlight.keys()].join(', ')}` : '')
+        execution.completed_at = new Date().toISOString()
+        execution.duration_ms = Date.now() - new Date(execution.started_at).getTime()
+        await this.checkpoint(execution)
+
+        this.emit('workflow.timeout', execution)
+        await this.cancelChildren(execution)
+        await this.settleInFlight(execution, inFlight)
+        await this.compensate(execution)
+        return
+      }
+
+      if (failure) throw failure
+
+      // Cancelled while steps were running
+      if (execution.status !== 'running') {
+        if (execution.status === 'cancelled') {
+          await this.compensate(execution)
+        }
+        return
+      }
+
+      if (pause) {
+        trackActiveTime()
+        execution.status = pause
+        await this.checkpoint(execution)
+        this.emit(`workflow.${pause}`, execution)
+        return
+      }
+
+      const outputErrors = validateWorkflowOutput(workflow, execution.outputs)
+      if (outputErrors.length > 0) {
+        const fields = outputErrors.map(error => `${error.field}: ${error.message}`)
+        throw new WorkflowError(`Workflow output does not match output_schema: ${fields.join('; ')}`, workflow.id)
+      }
+
+      // Workflow completed
+      trackActiveTime()
+      execution.status = 'completed'
+      execution.completed_at = new Date().toISOString()
+      execution.duration_ms = Date.now() - new Date(execution.started_at).getTime()
+      await this.checkpoint(execution)
+      
+      this.emit('workflow.completed', execution)
+      
+    } catch (error) {
+      trackActiveTime()
+      execution.status = 'failed'
+      execution.error_message = error instanceof Error ? error.message : 'Unknown error'
+      execution.completed_at = new Date().toISOString()
+      await this.checkpoint(execution)
+      
+      this.emit('workflow.failed', execution)
+      await this.compensate(execution)
+    } finally {
+      this.activeRuns.delete(execution.id)
+      abort.abort()
+      this.runAborts.delete(execution.id)
+      this.queue.finished(execution.id)
+        .then(() => this.updateQueuePositions())
+        .catch(error => console.error('Failed to update queue positions:', error))
+      clearInterval(leaseRenewal)
+      clearTimeout(deadlineTimer)
+      if (TERMINAL_STATUSES.includes(execution.status)) {
+        this.simulations.delete(execution.id)
+      }
+      await this.store.releaseLease(execution.id, this.instanceId).catch(() => undefined)
+    }
+  }
+
+  /**
+   * Undo completed steps that declare a compensation, most recent first.
+   * Every compensation is attempted even when an earlier one fails; the
+   * rollback report records what was undone and what needs manual cleanup.
+   */
+  private async compensate(
+    execution: WorkflowExecution,
+    trigger: WorkflowExecutionStatus = execution.status
+  ): Promise<RollbackReport> {
+    if (execution.rollback) return execution.rollback
+
+    const workflow = this.workflows.get(execution.workflow_id)
+    const steps = [...execution.completed_steps, ...(execution.late_steps || [])]
+      .reverse()
+      .map(stepId => workflow?.steps.find(step => step.id === stepId))
+      .filter((step): step is WorkflowStep => !!step?.compensation || step?.type === 'sub_workflow')
+
+    const report: RollbackReport = {
+      trigger,
+      status: steps.length > 0 ? 'rolling_back' : 'nothing_to_roll_back',
+      started_at: new Date().toISOString(),
+      compensated: [],
+      failed: []
+    }
+    execution.rollback = report
+
+    for (const step of steps) {
+      await this.checkpoint(execution)
+      const result = await this.runCompensation(step, execution)
+      if (result.status === 'compensated') {
+        report.compensated.push(result)
+      } else {
+        report.failed.push(result)
+      }
+    }
+
+    if (steps.length > 0) {
+      report.status = report.failed.length > 0 ? 'partially_rolled_back' : 'rolled_back'
+    }
+    report.completed_at = new Date().toISOString()
+    await this.checkpoint(execution)
+
+    if (steps.length > 0) {
+      console.log(`Execution ${execution.id} rollback ${report.status}: ${report.compensated.length} compensated, ${report.failed.length} failed`)
+      this.emit('workflow.rolled_back', execution)
+    }
+
+    return report
+  }
+
+  /**
+   * Wait up to TIMEOUT_SETTLE_MS for steps still running after a timeout
+   */
+  private async settleInFlight(execution: WorkflowExecution, inFlight: Map<string, Promise<void>>): Promise<void> {
+    if (inFlight.size === 0) return
+
+    let settleTimer: NodeJS.Timeout | undefined
+    const settled = await Promise.race([
+      Promise.allSettled([...inFlight.values()]).then(() => true),
+      new Promise<boolean>(resolve => {
+        settleTimer = setTimeout(() => resolve(false), TIMEOUT_SETTLE_MS)
+      })
+    ])
+    clearTimeout(settleTimer)
+
+    if (!settled) {
+      console.warn(`Execution ${execution.id} rolling back with steps still running: ${[...inFlight.keys()].join(', ')}`)
+    }
+  }
+
+  /**
+   * Compensate a step that completed after its execution was rolled back
+   */
+  private async compensateLateStep(step: WorkflowStep, execution: WorkflowExecution): Promise<void> {
+    const report = execution.rollback!
+    if (!step.compensation && step.type !== 'sub_workflow') return
+
+    const result = await this.runCompensation(step, execution)
+    if (result.status === 'compensated') {
+      report.compensated.push(result)
+    } else {
+      report.failed.push(result)
+    }
+    report.status = report.failed.length > 0 ? 'partially_rolled_back' : 'rolled_back'
+    report.completed_at = new Date().toISOString()
+    await this.checkpoint(execution)
+
+    console.log(`Execution ${execution.id} compensated late step ${step.id}: ${result.status}`)
+    this.emit('workflow.rolled_back', execution)
+  }
+
+  /**
+   * Run a single step's compensating action
+   */
+  private async runCompensation(step: WorkflowStep, execution: WorkflowExecution): Promise<CompensationResult> {
+    if (!step.compensation) {
+      return this.rollbackSubWorkflow(step, execution)
+    }
+    const compensation = step.compensation
+
+    try {
+      const config = resolveTemplates(
+        compensation.config || {},
+        (path: string) => this.getContextValue(path, execution),
+        'compensation.config'
+      )
+
+      const mcpService = this.mcpFor(execution)
+      if (!mcpService) {
+        throw new Error('MCP service is not configured')
+      }
+
+      let result: MCPToolResult
+      switch (compensation.type) {
+        case 'destroy_infrastructure': {
+          // resource_ids is a field path, or a template already resolved to the ids
+          const resolved = /\$\{/.test(String(compensation.config?.resource_ids ?? ''))
+            ? config.resource_ids
+            : this.getContextValue(config.resource_ids || `steps.${step.id}.output.infrastructure.id`, execution)
+          const resourceIds = (Array.isArray(resolved) ? resolved : [resolved]).filter(Boolean).map(String)
+          if (resourceIds.length === 0) {
+            throw new Error('No resource ids found to destroy')
+          }
+          result = await mcpService.destroyInfrastructure(resourceIds, true)
+          break
+        }
+
+        case 'call_tool': {
+          if (!config.tool) {
+            throw new Error('call_tool compensation requires config.tool')
+          }
+          ;[result] = await mcpService.batchCall([{
+            service: config.service || 'atlas',
+            toolCall: { name: config.tool, arguments: config.arguments || {} }
+          }])
+          break
+        }
+
+        default:
+          throw new Error(`Unknown compensation type: ${compensation.type}`)
+      }
+
+      if (!result.success) {
+        throw new Error(result.error || 'Compensating action failed')
+      }
+
+      return {
+        step_id: step.id,
+        type: compensation.type,
+        status: 'compensated',
+        output: result.result,
+        completed_at: new Date().toISOString()
+      }
+    } catch (error) {
+      console.error(`Compensation for step ${step.id} of execution ${execution.id} failed:`, error)
+      return {
+        step_id: step.id,
+        type: compensation.type,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        completed_at: new Date().toISOString()
+      }
+    }
+  }
+
+  /**
+   * Persist the execution's current state. Storage failures are logged
+   * rather than failing the step - losing a checkpoint is better than
+   * abandoning infrastructure that is half-provisioned.
+   */
+  private async checkpoint(execution: WorkflowExecution): Promise<void> {
+    execution.checkpointed_at = new Date().toISOString()
+    if (execution.dry_run && execution.simulation) {
+      execution.simulation.report = this.simulationFor(execution).report()
+    }
+    try {
+      await this.store.save(execution)
+    } catch (error) {
+      console.error(`Failed to checkpoint workflow execution ${execution.id}:`, error)
+    }
+  }
+
+  /**
+   * Wait `ms`, or until `signal` fires
+   */
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      if (signal?.aborted) return resolve()
+
+      const done = () => {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', done)
+        resolve()
+      }
+      const timer = setTimeout(done, ms)
+      signal?.addEventListener('abort', done)
+    })
+  }
+
+  /**
+   * Whether a step can be safely re-run after an interruption
+   */
+  private isIdempotent(step: WorkflowStep): boolean {
+    return step.idempotent ?? IDEMPOTENT_STEP_TYPES.includes(step.type)
+  }
+
+  /**
+   * Record which steps are in flight on the execution's progress
+   */
+  private updateRunningSteps(workflow: WorkflowDefinition, execution: WorkflowExecution, stepIds: string[]): void {
+    const descriptions = workflow.steps
+      .filter(step => stepIds.includes(step.id))
+      .map(step => step.description)
+
+    execution.progress.running_steps = stepIds
+    execution.progress.current_step_description = descriptions.length > 1
+      ? `Running ${descriptions.length} steps in parallel: ${descriptions.join('; ')}`
+      : descriptions[0] || execution.progress.current_step_description
+  }
+
+  /**
+   * Find every step that can start now.
+   *
+   * A step is ready once each dependency has completed or been skipped.
+   * Steps whose conditions evaluate false are skipped and their dependents
+   * carry on; steps whose dependencies were all pruned by a `conditional`
+   * branch are pruned as well.
+   */
+  private findReadySteps(
+    workflow: WorkflowDefinition,
+    execution: WorkflowExecution,
+    running: Map<string, unknown>
+  ): WorkflowStep[] {
+    const ready: WorkflowStep[] = []
+    let skippedAny = true
+
+    while (skippedAny) {
+      skippedAny = false
+      ready.length = 0
+
+      for (const step of workflow.steps) {
+        if (this.isStepSettled(step.id, execution) || running.has(step.id)) continue
+        if (!this.dependenciesMet(step, execution)) continue
+
+        if (step.depends_on.length > 0 && step.depends_on.every(depId => this.isBranchPruned(depId, execution))) {
+          this.skipStep(step, execution, 'branch_not_taken')
+          skippedAny = true
+          continue
+        }
+
+        if (!this.evaluateConditions(step.conditions, execution)) {
+          this.skipStep(step, execution, 'conditions_not_met')
+          skippedAny = true
+          continue
+        }
+
+        ready.push(step)
+      }
+    }
+    
+    return ready
+  }
+
+  /**
+   * Whether a step's dependencies allow it to start. A `parallel` step with
+   * `join: 'any'` starts as soon as one branch completes; every other step
+   * waits for all of its dependencies to complete or be skipped.
+   */
+  private dependenciesMet(step: WorkflowStep, execution: WorkflowExecution): boolean {
+    const settled = (depId: string) =>
+      execution.completed_steps.includes(depId) || execution.skipped_steps.includes(depId)
+
+    if (step.type === 'parallel' && step.config?.join === 'any' && step.depends_on.length > 0) {
+      return step.depends_on.some(depId => execution.completed_steps.includes(depId)) ||
+        step.depends_on.every(settled)
+    }
+
+    return step.depends_on.every(settled)
+  }
+
+  /**
+   * Whether a step has reached a terminal state in this execution
+   */
+  private isStepSettled(stepId: string, execution: WorkflowExecution): boolean {
+    return execution.completed_steps.includes(stepId) ||
+      execution.failed_steps.includes(stepId) ||
+      execution.skipped_steps.includes(stepId)
+  }
+
+  /**
+   * Whether a step was skipped because a conditional took the other branch
+   */
+  private isBranchPruned(stepId: string, execution: WorkflowExecution): boolean {
+    return execution.skipped_steps.includes(stepId) &&
+      execution.outputs[stepId]?.reason === 'branch_not_taken'
+  }
+
+  /**
+   * Record a step as skipped - distinct from completed and failed
+   */
+  private skipStep(
+    step: WorkflowStep,
+    execution: WorkflowExecution,
+    reason: 'conditions_not_met' | 'branch_not_taken',
+    decidedBy?: string
+  ): void {
+    execution.skipped_steps.push(step.id)
+    execution.progress.skipped_steps = execution.skipped_steps.length
+    execution.outputs[step.id] = {
+      skipped: true,
+      reason,
+      decided_by: decidedBy,
+      skipped_at: new Date().toISOString()
+    }
+
+    this.emit('workflow.step_skipped', { execution, step_id: step.id, reason })
+  }
+
+  /**
+   * Evaluate a list of conditions - all must hold unless `match` is 'any'
+   */
+  private evaluateConditions(
+    conditions: WorkflowCondition[] | undefined,
+    execution: WorkflowExecution,
+    match: 'all' | 'any' = 'all',
+    scope?: Record<string, any>
+  ): boolean {
+    if (!conditions || conditions.length === 0) return true
+
+    const check = (condition: WorkflowCondition) => {
+      const value = this.getContextValue(condition.field, execution, scope)
+      
+      switch (condition.operator) {
+        case 'equals': return value === condition.value
+        case 'not_equals': return value !== condition.value
+        case 'greater_than': return Number(value) > Number(condition.value)
+        case 'greater_than_or_equal': return Number(value) >= Number(condition.value)
+        case 'less_than': return Number(value) < Number(condition.value)
+        case 'less_than_or_equal': return Number(value) <= Number(condition.value)
+        case 'contains':
+          return Array.isArray(value)
+            ? value.includes(condition.value)
+            : value !== undefined && value !== null && String(value).includes(String(condition.value))
+        case 'exists': return (value !== undefined && value !== null) === (condition.value !== false)
+        default: return false
+      }
+    }
+
+    return match === 'any' ? conditions.some(check) : conditions.every(check)
+  }
+
+  /**
+   * Resolve a field path against the execution.
+   *
+   * Paths may start with `context.`, `input.`, `outputs.` or
+   * `steps.<stepId>.output` / `steps.<stepId>.status`; bare paths such as
+   * `estimated_costs` resolve against the execution context. Inside a loop,
+   * `loop.item`, `loop.index`, `loop.iteration` and `loop.output` resolve
+   * against the current iteration.
+   */
+  private getContextValue(field: string, execution: WorkflowExecution, scope?: Record<string, any>): any {
+    const [root, ...rest] = field.replace(/\[(\d+)\]/g, '.$1').split('.')
+    let value: any
+    let parts: string[] = rest
+
+    switch (root) {
+      case 'context': value = execution.context; break
+      case 'input': value = execution.input; break
+      case 'outputs': value = execution.outputs; break
+      case 'loop': value = scope; break
+      case 'steps': {
+        const [stepId, ...stepPath] = rest
+        value = { output: execution.outputs[stepId], status: this.getStepStatus(stepId, execution) }
+        parts = stepPath
+        break
+      }
+      default:
+        value = execution.context
+        parts = [root, ...rest]
+    }
+    
+    for (const part of parts) {
+      value = value?.[part]
+    }
+    
+    return value
+  }
+
+  /**
+   * Resolve `${...}` expressions in a step's config and approval message.
+   * A loop's body is left as authored and resolved on each iteration; the
+   * iteration injected as `config.loop` is data and is never resolved.
+   */
+  private resolveStepTemplates(step: WorkflowStep, execution: WorkflowExecution, scope?: Record<string, any>): WorkflowStep {
+    const lookup = (path: string) => this.getContextValue(path, execution, scope)
+    const { loop, ...authored } = step.config || {}
+
+    const config = resolveTemplates(step.type === 'loop' ? { ...authored, body: undefined } : authored, lookup)
+    if (step.type === 'loop') config.body = authored.body
+    if (loop !== undefined) config.loop = loop
+
+    return {
+      ...step,
+      config,
+      approval_message: step.approval_message && resolveTemplates(step.approval_message, lookup, 'approval_message')
+    }
+  }
+
+  /**
+   * Get the status of a single step within an execution
+   */
+  private getStepStatus(stepId: string, execution: WorkflowExecution): string {
+    if (execution.completed_steps.includes(stepId)) return 'completed'
+    if (execution.failed_steps.includes(stepId)) return 'failed'
+    if (execution.skipped_steps.includes(stepId)) return 'skipped'
+    if ((execution.progress.running_steps || [execution.current_step_id]).includes(stepId)) return 'running'
+    return 'pending'
+  }
+
+  /**
+   * Execute a step under its retry policy and timeout, recording every
+   * attempt on the execution.
+   *
+   * Failed attempts are retried after `delay_seconds * backoff_multiplier^n`.
+   * A timed-out attempt may still be running in the background, so it is
+   * only retried when the step is idempotent.
+   */
+  private async executeStepWithPolicy(step: WorkflowStep, execution: WorkflowExecution): Promise<StepResult> {
+    const policy = step.retry_policy
+    const maxAttempts = Math.max(1, policy?.max_attempts || 1)
+    execution.step_attempts = execution.step_attempts || {}
+    const attempts: StepAttempt[] = execution.step_attempts[step.id] = execution.step_attempts[step.id] || []
+
+    let result: StepResult = { status: 'failed' }
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const startedAt = new Date()
+      result = await this.executeStepWithTimeout(step, execution)
+
+      attempts.push({
+        attempt: attempts.length + 1,
+        status: result.status,
+        error: result.error,
+        timed_out: result.timed_out,
+        started_at: startedAt.toISOString(),
+        finished_at: new Date().toISOString(),
+        duration_ms: Date.now() - startedAt.getTime()
+      })
+
+      const retryable = result.status === 'failed' &&
+        result.retryable !== false &&
+        (!result.timed_out || this.isIdempotent(step))
+
+      if (!retryable || attempt === maxAttempts || execution.status !== 'running') break
+
+      const backoffMs = (policy!.delay_seconds || 0) * 1000 * Math.pow(policy!.backoff_multiplier || 1, attempt - 1)
+      this.emit('workflow.step_retry', {
+        execution,
+        step_id: step.id,
+        attempt,
+        error: result.error,
+        next_attempt_in_ms: backoffMs
+      })
+      await this.checkpoint(execution)
+      await this.delay(backoffMs)
+    }
+
+    if (result.status === 'failed' && attempts.length > 1) {
+      result = { ...result, error: `${result.error || 'Step failed'} (after ${attempts.length} attempts)` }
+    }
+
+    return result
+  }
+
+  /**
+   * Execute a step, failing it if it runs longer than `timeout_seconds`.
+   * A timed-out step has its tool calls aborted; if it completes anyway it
+   * is rolled back with the execution.
+   */
+  private async executeStepWithTimeout(step: WorkflowStep, execution: WorkflowExecution): Promise<StepResult> {
+    const runSignal = this.runAborts.get(execution.id)?.signal
+    const execute = (signals: StepSignals) => this.executeStep(step, execution, undefined, signals)
+      .catch((error): StepResult => ({
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }))
+
+    if (!step.timeout_seconds) {
+      return execute({ stop: runSignal })
+    }
+
+    const timeoutAbort = new AbortController()
+    const stopAbort = new AbortController()
+    const stopStep = () => stopAbort.abort()
+    runSignal?.addEventListener('abort', stopStep)
+
+    const run = execute({ timeout: timeoutAbort.signal, stop: stopAbort.signal })
+
+    let timer: NodeJS.Timeout | undefined
+    const timeout = new Promise<StepResult>(resolve => {
+      timer = setTimeout(() => resolve({
+        status: 'failed',
+        error: `Step ${step.id} timed out after ${step.timeout_seconds}s`,
+        timed_out: true
+      }), step.timeout_seconds! * 1000)
+    })
+
+    try {
+      const result = await Promise.race([run, timeout])
+      if (result.timed_out) {
+        timeoutAbort.abort()
+        // An abandoned sub-workflow step must not leave its child running
+        if (step.type === 'sub_workflow') {
+          await this.cancelChildren(execution, [step.id])
+        }
+        run.then(late => this.compensateTimedOutStep(step, execution, late)).catch(error => {
+          console.error(`Failed to roll back timed-out step ${step.id} of execution ${execution.id}:`, error)
+        })
+      }
+      return result
+    } finally {
+      clearTimeout(timer)
+      stopAbort.abort()
+      runSignal?.removeEventListener('abort', stopStep)
+    }
+  }
+
+  /**
+   * A step that completed after timing out has made its changes even though
+   * it counts as failed. Unless a retry may have picked its work up, it is
+   * rolled back: straight away if the execution's rollback already ran,
+   * otherwise with the rest of it.
+   */
+  private async compensateTimedOutStep(step: WorkflowStep, execution: WorkflowExecution, result: StepResult): Promise<void> {
+    if (result.status !== 'completed' || !step.compensation || this.isIdempotent(step)) return
+
+    execution.outputs[step.id] = result.output
+    execution.late_steps = [...(execution.late_steps || []), step.id]
+    if (execution.rollback) {
+      await this.compensateLateStep(step, execution)
+    } else {
+      await this.checkpoint(execution)
+    }
+  }
+
+  /**
+   * Execute a single workflow step
+   */
+  private async executeStep(
+    step: WorkflowStep, 
+    execution: WorkflowExecution,
+    scope?: Record<string, any>,
+    signals: StepSignals = {}
+  ): Promise<StepResult> {
+    try {
+      step = this.resolveStepTemplates(step, execution, scope)
+    } catch (error) {
+      if (error instanceof TemplateExpressionError) {
+        return { status: 'failed', error: error.message, retryable: false }
+      }
+      throw error
+    }
+
+    switch (step.type) {
+      case 'parse_requirements':
+        return await this.executeParseRequirements(step, execution)
+      
+      case 'estimate_cost':
+        return await this.executeEstimateCost(step, execution, signals.timeout)
+      
+      case 'request_approval':
+        return await this.executeRequestApproval(step, execution)
+      
+      case 'create_infrastructure':
+        return await this.executeCreateInfrastructure(step, execution, signals.timeout)
+      
+      case 'wait_for_input':
+        return { status: 'waiting_input' }
+      
+      case 'send_notification':
+        return await this.executeSendNotification(step, execution)
+
+      case 'call_agent':
+        return await this.executeCallAgent(step, execution, signals.timeout)
+
+      case 'update_dns':
+        return await this.executeUpdateDNS(step, execution, signals)
+
+      case 'run_tests':
+        return await this.executeRunTests(step, execution)
+
+      case 'conditional':
+        return await this.executeConditional(step, execution)
+
+      case 'parallel':
+        return await this.executeParallel(step, execution)
+
+      case 'loop':
+        return await this.executeLoop(step, execution, signals)
+
+      case 'sub_workflow':
+        return await this.executeSubWorkflow(step, execution, signals.stop)
+      
+      default:
+        return { status: 'failed', error: `Unknown step type: ${step.type}`, retryable: false }
+    }
+  }
+
+  /**
+   * Execute conditional step - evaluate `config.conditions` and prune the
+   * branch that was not taken.
+   *
+   * config: { conditions: WorkflowCondition[], match?: 'all' | 'any',
+   *           then?: string[], else?: string[] }
+   */
+  private async executeConditional(
+    step: WorkflowStep,
+    execution: WorkflowExecution
+  ): Promise<{ status: string; output?: any; error?: string }> {
+    const workflow = this.workflows.get(execution.workflow_id)!
+    const conditions: WorkflowCondition[] = step.config?.conditions || []
+    const thenSteps: string[] = step.config?.then || []
+    const elseSteps: string[] = step.config?.else || []
+
+    const unknown = [...thenSteps, ...elseSteps].filter(id => !workflow.steps.some(s => s.id === id))
+    if (unknown.length > 0) {
+      return { status: 'failed', error: `Conditional references unknown steps: ${unknown.join(', ')}` }
+    }
+
+    const result = this.evaluateConditions(conditions, execution, step.config?.match === 'any' ? 'any' : 'all')
+    const notTaken = result ? elseSteps : thenSteps
+
+    for (const stepId of notTaken) {
+      if (!this.isStepSettled(stepId, execution)) {
+        this.skipStep(workflow.steps.find(s => s.id === stepId)!, execution, 'branch_not_taken', step.id)
+      }
+    }
+
+    return {
+      status: 'completed',
+      output: {
+        result,
+        branch: result ? 'then' : 'else',
+        selected_steps: result ? thenSteps : elseSteps,
+        skipped_steps: notTaken
+      }
+    }
+  }
+
+  /**
+   * Execute parallel step - the fan-in point for the branches it depends on.
+   * The branches themselves run concurrently because they share no
+   * dependencies; this step joins them and gathers their outputs.
+   *
+   * config: { join?: 'all' | 'any' }
+   */
+  private async executeParallel(
+    step: WorkflowStep,
+    execution: WorkflowExecution
+  ): Promise<{ status: string; output?: any; error?: string }> {
+    const join = step.config?.join === 'any' ? 'any' : 'all'
+    const branches: Record<string, { status: string; output?: any }> = {}
+
+    for (const branchId of step.depends_on) {
+      branches[branchId] = {
+        status: this.getStepStatus(branchId, execution),
+        output: execution.outputs[branchId]
+      }
+    }
+
+    return {
+      status: 'completed',
+      output: {
+        join,
+        branches,
+        completed_branches: step.depends_on.filter(id => execution.completed_steps.includes(id))
+      }
+    }
+  }
+
+  /**
+   * Execute loop step - run `config.body` once per item of a collection, or
+   * repeatedly until `config.until` holds.
+   *
+   * config: { body?: { type, config, name?, description? },
+   *           items?: string | any[],           // field path or literal array
+   *           until?: WorkflowCondition[], match?: 'all' | 'any',
+   *           max_iterations?: number, interval_seconds?: number,
+   *           continue_on_error?: boolean }
+   *
+   * The body receives the current iteration as `config.loop` and conditions
+   * can refer to it through `loop.*`. Each iteration is recorded in the
+   * step's output as it finishes so progress survives a checkpoint. The loop
+   * stops before the next iteration once the step times out or the
+   * execution stops running.
+   */
+  private async executeLoop(
+    step: WorkflowStep,
+    execution: WorkflowExecution,
+    signals: StepSignals = {}
+  ): Promise<{ status: string; output?: any; error?: string }> {
+    const config = step.config || {}
+    const mode: 'each' | 'until' = config.items !== undefined ? 'each' : 'until'
+
+    if (mode === 'until' && !config.until) {
+      return { status: 'failed', error: 'Loop step requires either `items` or `until`' }
+    }
+    if (config.body?.type === 'wait_for_input' || config.body?.type === 'request_approval') {
+      return { status: 'failed', error: `Loop body cannot pause for ${config.body.type}` }
+    }
+
+    let items: any[] = []
+    if (mode === 'each') {
+      const resolved = typeof config.items === 'string'
+        ? this.getContextValue(config.items, execution)
+        : config.items
+      if (!Array.isArray(resolved)) {
+        return { status: 'failed', error: `Loop items did not resolve to an array: ${JSON.stringify(config.items)}` }
+      }
+      items = resolved
+    }
+
+    const maxIterations = mode === 'each'
+      ? Math.min(items.length, config.max_iterations ?? items.length)
+      : config.max_iterations ?? DEFAULT_LOOP_MAX_ITERATIONS
+    const intervalMs = (config.interval_seconds || 0) * 1000
+
+    const output = {
+      mode,
+      iterations: [] as Array<{ index: number; item?: any; status: string; output?: any; error?: string }>,
+      condition_met: mode === 'each'
+    }
+    execution.outputs[step.id] = output
+
+    for (let index = 0; index < maxIterations; index++) {
+      if (index > 0 && intervalMs > 0) {
+        await this.delay(intervalMs, signals.stop)
+      }
+      if (execution.status !== 'running' || signals.stop?.aborted) {
+        const reason = execution.status !== 'running' ? `execution ${execution.status}` : 'step stopped'
+        return { status: 'failed', output, error: `Loop stopped at iteration ${index}: ${reason}` }
+      }
+
+      const scope = { item: items[index], index, iteration: index + 1, output: undefined as any }
+      let result: { status: string; output?: any; error?: string } = { status: 'completed' }
+
+      if (config.body) {
+        result = await this.executeStep({
+          id: `${step.id}[${index}]`,
+          name: config.body.name || `${step.name} #${index + 1}`,
+          description: config.body.description || step.description,
+          type: config.body.type,
+          config: { ...config.body.config, loop: { item: scope.item, index, iteration: scope.iteration } },
+          depends_on: [],
+          next_steps: [],
+          conditions: []
+        }, execution, scope, signals)
+      }
+
+      scope.output = result.output
+      output.iterations.push({
+        index,
+        item: mode === 'each' ? scope.item : undefined,
+        status: result.status,
+        output: result.output,
+        error: result.error
+      })
+      await this.checkpoint(execution)
+      this.emit('workflow.loop_iteration', { execution, step_id: step.id, index, status: result.status })
+
+      if (result.status !== 'completed' && !config.continue_on_error) {
+        return { status: 'failed', output, error: `Iteration ${index + 1} failed: ${result.error || result.status}` }
+      }
 
-    // Start execution asynchronously
-    this.runExecution(execution).catch(error => {
-      console.error('Workflow execution failed:', error)
-      execution.status = 'failed'
-      execution.error_message = error.message
-      execution.completed_at = new Date().toISOString()
-      this.emit('workflow.failed', execution)
-    })
+      if (mode === 'until' && this.evaluateConditions(config.until, execution, config.match === 'any' ? 'any' : 'all', scope)) {
+        output.condition_met = true
+        break
+      }
+    }
 
-    return execution
-  }
+    if (mode === 'until' && !output.condition_met) {
+      return { status: 'failed', output, error: `Loop condition not met after ${maxIterations} iterations` }
+    }
 
-  /**
-   * Get workflow execution by ID
-   */
-  getExecution(id: string): WorkflowExecution | undefined {
-    return this.executions.get(id)
+    return { status: 'completed', output }
   }
 
   /**
-   * Cancel workflow execution
+   * Execute sub-workflow step - run another workflow as a child execution
+   * and wait for it. The child's outputs become this step's output.
+   *
+   * config: { workflow_id, input?: {...}, inherit_input?: boolean }
+   *
+   * A retried or recovered step re-attaches to the child it already started
+   * unless that child failed, in which case a new child is started. The child
+   * is queued like any other execution. The wait ends early when the step
+   * times out or the parent's run ends (timeout, cancellation); the child is
+   * cancelled separately.
    */
-  async cancelExecution(id: string): Promise<boolean> {
-    const execution = this.executions.get(id)
-    if (!execution) return false
+  private async executeSubWorkflow(
+    step: WorkflowStep,
+    execution: WorkflowExecution,
+    signal = this.runAborts.get(execution.id)?.signal
+  ): Promise<StepResult> {
+    const workflowId: string | undefined = step.config?.workflow_id
+    if (!workflowId || !this.workflows.has(workflowId)) {
+      return { status: 'failed', error: `Sub-workflow not found: ${workflowId}`, retryable: false }
+    }
 
-    if (execution.status === 'running' || execution.status === 'waiting_input') {
-      execution.status = 'cancelled'
-      execution.completed_at = new Date().toISOString()
-      this.emit('workflow.cancelled', execution)
-      return true
+    const ancestors = await this.getAncestorWorkflowIds(execution)
+    if (ancestors.includes(workflowId)) {
+      return {
+        status: 'failed',
+        error: `Sub-workflow ${workflowId} would run itself: ${[...ancestors].reverse().join(' -> ')} -> ${workflowId}`,
+        retryable: false
+      }
+    }
+    if (ancestors.length >= MAX_SUB_WORKFLOW_DEPTH) {
+      return { status: 'failed', error: `Sub-workflows are nested more than ${MAX_SUB_WORKFLOW_DEPTH} deep`, retryable: false }
     }
 
-    return false
-  }
+    const existingId = execution.child_executions?.[step.id]
+    let child = existingId ? await this.loadExecution(existingId) : undefined
 
-  async startWorkflow(workflowId: string, input: any): Promise<WorkflowExecution> {
-    const execution = await this.createExecution(workflowId, input)
-    this.runExecution(execution).catch((error: Error) => {
-      execution.status = 'failed'
-      execution.error_message = error.message
-      this.emit('workflow.failed', execution)
-    })
-    return execution
-  }
+    if (!child || ['failed', 'cancelled', 'timeout', 'interrupted'].includes(child.status)) {
+      try {
+        child = await this.createExecution(workflowId, {
+          ...(step.config.inherit_input ? execution.input : {}),
+          ...(step.config.input || {}),
+          user_id: execution.context.user_id,
+          workspace_id: execution.context.workspace_id,
+          conversation_id: execution.conversation_id
+        }, {
+          dryRun: execution.dry_run,
+          simulatedResponses: execution.simulation?.responses,
+          simulation: execution.dry_run ? this.simulationFor(execution) : undefined
+        })
+      } catch (error) {
+        if (!(error instanceof WorkflowSchemaError)) throw error
+        return { status: 'failed', error: `${error.message}: ${error.errors.join('; ')}`, retryable: false }
+      }
+      child.parent_execution_id = execution.id
+      child.parent_step_id = step.id
+      child.priority = execution.priority
+      await this.checkpoint(child)
 
-  private async createExecution(workflowId: string, input: any): Promise<WorkflowExecution> {
-    const execution: WorkflowExecution = {
-      id: uuidv4(),
-      workflow_id: workflowId,
-      conversation_id: input.conversation_id,
-      status: 'pending',
-      input,
-      context: {
-        user_id: input.user_id,
-        workspace_id: input.workspace_id,
-        existing_infrastructure: [],
-        target_infrastructure: null,
-        requirements: [],
-        preferences: {
-          preferred_cloud_provider: 'digitalocean',
-          preferred_regions: ['nyc3'],
-          cost_optimization: 'balanced',
-          budget_alerts: true,
-          deployment_style: 'balanced',
-          auto_scaling: false,
-          backup_frequency: 'daily',
-          notification_channels: ['email'],
-          progress_updates: 'normal',
-          container_orchestration: 'none',
-          ci_cd_integration: false,
-          monitoring_level: 'basic'
-        },
-        estimated_costs: 0,
-        resource_limits: {
-          max_monthly_cost: 1000,
-          max_instances: 10,
-          max_storage_gb: 1000,
-          max_bandwidth_gb: 1000
-        }
-      },
-      current_step_id: undefined,
-      completed_steps: [],
-      failed_steps: [],
-      outputs: {},
-      started_at: new Date().toISOString(),
-      progress: {
-        total_steps: 0,
-        completed_steps: 0
+      execution.child_executions = { ...execution.child_executions, [step.id]: child.id }
+      await this.checkpoint(execution)
+      this.emit('workflow.started', child)
+
+      await this.enqueueExecution(child)
+    }
+
+    await this.queue.waitingOnChild(execution.id)
+    let finished: WorkflowExecution | undefined
+    try {
+      finished = await this.waitForExecution(child.id, signal)
+    } finally {
+      await this.queue.childSettled(execution.id)
+    }
+
+    if (!finished) {
+      return {
+        status: 'failed',
+        output: { execution_id: child.id, workflow_id: child.workflow_id },
+        error: `Stopped waiting for sub-workflow ${workflowId} (${child.id})`,
+        retryable: false
       }
     }
 
-    const workflow = this.workflows.get(workflowId)
-    if (workflow) {
-      execution.progress.total_steps = workflow.steps.length
+    const output = {
+      execution_id: finished.id,
+      workflow_id: finished.workflow_id,
+      status: finished.status,
+      outputs: finished.outputs,
+      duration_ms: finished.duration_ms
     }
 
-    this.executions.set(execution.id, execution)
-    return execution
+    if (finished.status !== 'completed') {
+      return {
+        status: 'failed',
+        output,
+        error: `Sub-workflow ${workflowId} (${finished.id}) ${finished.status}` +
+          (finished.error_message ? `: ${finished.error_message}` : ''),
+        // The child already applied its own retry policies
+        retryable: false
+      }
+    }
+
+    return { status: 'completed', output }
   }
 
   /**
-   * Resume workflow execution with user input
+   * Workflow ids from this execution up through its parents
    */
-  async resumeExecution(id: string, userInput: any): Promise<boolean> {
-    const execution = this.executions.get(id)
-    if (!execution || execution.status !== 'waiting_input') {
-      return false
-    }
+  private async getAncestorWorkflowIds(execution: WorkflowExecution): Promise<string[]> {
+    const ids = [execution.workflow_id]
+    let parentId = execution.parent_execution_id
 
-    // Store user input in context
-    (execution.context as any).user_input = userInput
-    execution.status = 'running'
-
-    // Resume execution
-    this.runExecution(execution).catch((error: Error) => {
-      execution.status = 'failed'
-      execution.error_message = error.message
-      this.emit('workflow.failed', execution)
-    })
+    while (parentId && ids.length <= MAX_SUB_WORKFLOW_DEPTH) {
+      const parent = await this.loadExecution(parentId)
+      if (!parent) break
+      ids.push(parent.workflow_id)
+      parentId = parent.parent_execution_id
+    }
 
-    return true
+    return ids
   }
 
   /**
-   * Run workflow execution
+   * Resolve once an execution reaches a terminal status, or with undefined
+   * once `signal` aborts. Events cover executions run here; polling the store
+   * covers ones recovered elsewhere.
    */
-  private async runExecution(execution: WorkflowExecution): Promise<void> {
-    execution.status = 'running'
-    this.emit('workflow.progress', execution)
+  private async waitForExecution(executionId: string, signal?: AbortSignal): Promise<WorkflowExecution | undefined> {
+    if (signal?.aborted) return undefined
+
+    const events = ['workflow.completed', 'workflow.failed', 'workflow.cancelled', 'workflow.timeout', 'workflow.interrupted']
+    let stopWatching = () => {}
 
-    const workflow = this.workflows.get(execution.workflow_id)!
-    
     try {
-      // Find next step to execute
-      let currentStep = this.findNextStep(workflow, execution)
-      
-      while (currentStep && execution.status === 'running') {
-        execution.current_step_id = currentStep.id
-        execution.progress.current_step_description = currentStep.description
+      return await new Promise<WorkflowExecution | undefined>(resolve => {
+        const listener = (execution: WorkflowExecution) => {
+          if (execution.id === executionId) resolve(execution)
+        }
+        const check = async () => {
+          const execution = await this.loadExecution(executionId)
+          if (execution && TERMINAL_STATUSES.includes(execution.status)) resolve(execution)
+        }
+        const abort = () => resolve(undefined)
 
-        this.emit('workflow.progress', execution)
+        events.forEach(event => this.on(event, listener))
+        signal?.addEventListener('abort', abort)
+        const poll = setInterval(() => {
+          check().catch(error => console.error(`Failed to check sub-workflow ${executionId}:`, error))
+        }, CHILD_POLL_INTERVAL_MS)
 
-        const result = await this.executeStep(currentStep, execution)
-
-        if (result.status === 'completed') {
-          execution.completed_steps.push(currentStep.id)
-          execution.progress.completed_steps++
-          
-          // Store step outputs
-          execution.outputs[currentStep.id] = result.output
-
-          // Find next step
-          currentStep = this.findNextStep(workflow, execution)
-          
-        } else if (result.status === 'waiting_input') {
-          execution.status = 'waiting_input'
-          this.emit('workflow.waiting_input', execution)
-          return
-          
-        } else if (result.status === 'waiting_approval') {
-          execution.status = 'waiting_approval'
-          this.emit('workflow.waiting_approval', execution)
-          return
-          
-        } else {
-          // Step failed
-          execution.failed_steps.push(currentStep.id)
-          throw new WorkflowError(
-            `Step ${currentStep.id} failed: ${result.error}`,
-            execution.workflow_id,
-            currentStep.id
-          )
+        stopWatching = () => {
+          events.forEach(event => this.off(event, listener))
+          signal?.removeEventListener('abort', abort)
+          clearInterval(poll)
         }
-      }
-
-      // Workflow completed
-      execution.status = 'completed'
-      execution.completed_at = new Date().toISOString()
-      execution.duration_ms = Date.now() - new Date(execution.started_at).getTime()
-      
-      this.emit('workflow.completed', execution)
-      
-    } catch (error) {
-      execution.status = 'failed'
-      execution.error_message = error instanceof Error ? error.message : 'Unknown error'
-      execution.completed_at = new Date().toISOString()
-      
-      this.emit('workflow.failed', execution)
+        check().catch(error => console.error(`Failed to check sub-workflow ${executionId}:`, error))
+      })
+    } finally {
+      stopWatching()
     }
   }
 
   /**
-   * Find the next step to execute
+   * Cancel unfinished child executions, optionally only those of some steps
    */
-  private findNextStep(workflow: WorkflowDefinition, execution: WorkflowExecution): WorkflowStep | null {
-    // Simple sequential execution for now
-    const completedCount = execution.completed_steps.length
-    
-    if (completedCount < workflow.steps.length) {
-      const nextStep = workflow.steps[completedCount]
-      
-      // Check if all dependencies are completed
-      const dependenciesMet = nextStep.depends_on.every(depId => 
-        execution.completed_steps.includes(depId)
-      )
-      
-      if (dependenciesMet && this.evaluateConditions(nextStep, execution)) {
-        return nextStep
+  private async cancelChildren(execution: WorkflowExecution, stepIds?: string[]): Promise<void> {
+    for (const [stepId, childId] of Object.entries(execution.child_executions || {})) {
+      if (stepIds && !stepIds.includes(stepId)) continue
+
+      const child = await this.loadExecution(childId)
+      if (child && !TERMINAL_STATUSES.includes(child.status)) {
+        console.log(`Cancelling sub-workflow ${childId} of execution ${execution.id}`)
+        await this.cancelExecution(childId)
       }
     }
-    
-    return null
   }
 
   /**
-   * Evaluate step conditions
+   * Undo a completed sub-workflow step by rolling back its child
    */
-  private evaluateConditions(step: WorkflowStep, execution: WorkflowExecution): boolean {
-    if (!step.conditions || step.conditions.length === 0) return true
+  private async rollbackSubWorkflow(step: WorkflowStep, execution: WorkflowExecution): Promise<CompensationResult> {
+    const childId = execution.child_executions?.[step.id]
+    const child = childId ? await this.loadExecution(childId) : undefined
 
-    return step.conditions.every(condition => {
-      const value = this.getContextValue(condition.field, execution)
-      
-      switch (condition.operator) {
-        case 'equals': return value === condition.value
-        case 'not_equals': return value !== condition.value
-        case 'greater_than': return Number(value) > Number(condition.value)
-        case 'less_than': return Number(value) < Number(condition.value)
-        case 'contains': return String(value).includes(String(condition.value))
-        default: return false
+    if (!child) {
+      return {
+        step_id: step.id,
+        type: 'rollback_sub_workflow',
+        status: 'failed',
+        error: `Sub-workflow execution ${childId} not found`,
+        completed_at: new Date().toISOString()
       }
-    })
-  }
-
-  /**
-   * Get value from execution context
-   */
-  private getContextValue(field: string, execution: WorkflowExecution): any {
-    const parts = field.split('.')
-    let value: any = execution.context
-    
-    for (const part of parts) {
-      value = value?.[part]
     }
-    
-    return value
-  }
 
-  /**
-   * Execute a single workflow step
-   */
-  private async executeStep(
-    step: WorkflowStep, 
-    execution: WorkflowExecution
-  ): Promise<{ status: string; output?: any; error?: string }> {
-    
-    switch (step.type) {
-      case 'parse_requirements':
-        return await this.executeParseRequirements(step, execution)
-      
-      case 'estimate_cost':
-        return await this.executeEstimateCost(step, execution)
-      
-      case 'request_approval':
-        return await this.executeRequestApproval(step, execution)
-      
-      case 'create_infrastructure':
-        return await this.executeCreateInfrastructure(step, execution)
-      
-      case 'wait_for_input':
-        return { status: 'waiting_input' }
-      
-      case 'send_notification':
-        return await this.executeSendNotification(step, execution)
-      
-      default:
-        return { status: 'failed', error: `Unknown step type: ${step.type}` }
+    const report = await this.compensate(child, execution.status)
+    return {
+      step_id: step.id,
+      type: 'rollback_sub_workflow',
+      status: report.failed.length > 0 ? 'failed' : 'compensated',
+      output: { execution_id: child.id, rollback: report.status },
+      error: report.failed.length > 0
+        ? `${report.failed.length} compensation(s) failed in sub-workflow ${child.id}`
+        : undefined,
+      completed_at: new Date().toISOString()
     }
   }
 
@@ -376,32 +2249,38 @@ export class WorkflowEngine extends EventEmitter {
    */
   private async executeEstimateCost(
     step: WorkflowStep,
-    execution: WorkflowExecution
-  ): Promise<{ status: string; output?: any }> {
-    if (!this.atlasClient) {
-      return { status: 'failed' }
+    execution: WorkflowExecution,
+    signal?: AbortSignal
+  ): Promise<StepResult> {
+    const atlas = this.atlasFor(execution, signal)
+    if (!atlas) {
+      return { status: 'failed', error: 'Atlas client is not configured', retryable: false }
     }
 
     try {
-      const requirements = execution.context.requirements
+      const settings = this.infrastructureSettings(step, execution)
+      const plan = await this.planResources(settings, execution)
       
       // Build infrastructure request for cost estimation
       const infraRequest = {
         name: 'cost-estimate',
-        provider: ((requirements[0] as any).specification?.provider) || 'digitalocean',
-        region: ((requirements[0] as any).specification?.region) || 'nyc3',
-        resources: this.buildResourcesFromRequirements((requirements[0] as any).specification)
+        provider: settings.provider,
+        region: settings.region,
+        resources: plan.resources
       }
 
-      const costEstimate = await this.atlasClient.estimateCost(infraRequest)
+      const costEstimate = await atlas.estimateCost(infraRequest)
       
       // Store cost in context
       execution.context.estimated_costs = costEstimate
 
-      return { status: 'completed', output: { estimated_cost: costEstimate, breakdown: infraRequest.resources } }
+      return {
+        status: 'completed',
+        output: { estimated_cost: costEstimate, breakdown: infraRequest.resources, blueprints: plan.blueprints, tier: settings.tier }
+      }
       
     } catch (error) {
-      return { status: 'failed' }
+      return this.resourcePlanningFailure(error)
     }
   }
 
@@ -414,19 +2293,27 @@ export class WorkflowEngine extends EventEmitter {
   ): Promise<{ status: string; output?: any }> {
     const cost = execution.context.estimated_costs
     const requirements = execution.context.requirements
+    const { specification } = this.infrastructureSettings(step, execution)
     
     // Create approval message
     const message = step.approval_message || 
-      `Ready to deploy ${((requirements[0] as any).specification?.technologies || []).join(', ')} with estimated cost of $${cost}/month. Proceed?`
+      `Ready to deploy ${(specification.technologies || []).join(', ')} with estimated cost of $${cost}/month. Proceed?`
 
     // Store approval request
     execution.outputs['approval_request'] = {
+      step_id: step.id,
       message,
       cost,
       requirements,
       timestamp: new Date().toISOString()
     }
 
+    // Dry runs record the approval and carry on
+    if (execution.dry_run) {
+      this.simulationFor(execution).recordApproval(message, step.id)
+      return { status: 'completed', output: { approved: true, simulated: true, message, cost } }
+    }
+
     return { status: 'waiting_approval' }
   }
 
@@ -435,47 +2322,51 @@ export class WorkflowEngine extends EventEmitter {
    */
   private async executeCreateInfrastructure(
     step: WorkflowStep,
-    execution: WorkflowExecution
-  ): Promise<{ status: string; output?: any }> {
-    if (!this.atlasClient) {
-      return { status: 'failed' }
+    execution: WorkflowExecution,
+    signal?: AbortSignal
+  ): Promise<StepResult> {
+    const atlas = this.atlasFor(execution, signal)
+    if (!atlas) {
+      return { status: 'failed', error: 'Atlas client is not configured', retryable: false }
     }
 
     try {
-      const requirements = execution.context.requirements
+      const settings = this.infrastructureSettings(step, execution)
+      const plan = await this.planResources(settings, execution)
       
       const infraRequest = {
-        name: `${execution.conversation_id}-infrastructure`,
-        provider: ((requirements[0] as any).specification?.provider) || 'digitalocean',
-        region: ((requirements[0] as any).specification?.region) || 'nyc3',
-        resources: this.buildResourcesFromRequirements((requirements[0] as any).specification),
+        name: step.config?.name || `${execution.conversation_id}-infrastructure`,
+        provider: settings.provider,
+        region: settings.region,
+        resources: plan.resources,
         tags: {
           created_by: 'watson',
           conversation_id: execution.conversation_id,
-          environment: ((requirements[0] as any).specification?.environment) || 'development'
+          environment: settings.environment
         }
       }
 
-      const result = await this.atlasClient.createInfrastructure(
+      const result = await atlas.createInfrastructure(
         execution.context.user_id,
         execution.context.workspace_id,
         infraRequest
       )
 
       // Store infrastructure and operation IDs
-      ;(execution.context as any).infrastructure_id = result.infrastructure.id
-      ;(execution.context as any).operation_id = result.operation.id
+      execution.context.infrastructure_id = result.infrastructure.id
+      execution.context.operation_id = result.operation.id
 
       return { 
         status: 'completed', 
         output: { 
           infrastructure: result.infrastructure,
-          operation: result.operation
+          operation: result.operation,
+          blueprints: plan.blueprints
         } 
       }
       
     } catch (error) {
-      return { status: 'failed' }
+      return this.resourcePlanningFailure(error)
     }
   }
 
@@ -501,81 +2392,180 @@ export class WorkflowEngine extends EventEmitter {
   }
 
   /**
-   * Build infrastructure resources from requirements
+   * Execute call agent step - invoke a tool on any ControlVector agent.
+   * The execution's workspace and user are passed unless the arguments set them.
+   *
+   * config: { agent: 'atlas' | 'context' | 'neptune' | 'mercury' | 'hermes' | 'phoenix',
+   *           tool: string, arguments?: object }
    */
-  private buildResourcesFromRequirements(requirements: any): any[] {
-    const resources = []
+  private async executeCallAgent(
+    step: WorkflowStep,
+    execution: WorkflowExecution,
+    signal?: AbortSignal
+  ): Promise<StepResult> {
+    const mcpService = this.mcpFor(execution, signal)
+    if (!mcpService) {
+      return { status: 'failed', error: 'MCP service is not configured', retryable: false }
+    }
 
-    // Add web server if web technologies detected
-    const webTechs = ['react', 'vue', 'angular', 'nodejs', 'node.js', 'nginx', 'apache']
-    if (requirements.technologies?.some((tech: string) => webTechs.includes(tech.toLowerCase()))) {
-      resources.push({
-        type: 'droplet',
-        name: 'web-server',
-        specifications: {
-          size: 's-1vcpu-2gb',
-          image: 'ubuntu-22-04-x64',
-          monitoring: true,
-          backups: requirements.environment === 'production'
-        }
-      })
+    const agent: MCPAgent = step.config.agent
+    const result = await mcpService.callAgentTool(agent, {
+      name: step.config.tool,
+      arguments: {
+        workspace_id: execution.context.workspace_id,
+        user_id: execution.context.user_id,
+        ...step.config.arguments
+      }
+    })
+
+    if (!result.success) {
+      return { status: 'failed', error: `${agent} tool ${step.config.tool} failed: ${result.error || 'Unknown error'}` }
     }
+    return { status: 'completed', output: result.result }
+  }
 
-    // Add database if database technologies detected
-    const dbTechs = ['postgresql', 'postgres', 'mysql', 'mongodb', 'redis']
-    const detectedDb = requirements.technologies?.find((tech: string) => 
-      dbTechs.includes(tech.toLowerCase())
-    )
-    
-    if (detectedDb) {
-      let engine = 'postgresql'
-      if (detectedDb.toLowerCase().includes('mysql')) engine = 'mysql'
-      if (detectedDb.toLowerCase().includes('mongo')) engine = 'mongodb'
-      if (detectedDb.toLowerCase().includes('redis')) engine = 'redis'
-
-      resources.push({
-        type: 'database',
-        name: `${engine}-database`,
-        specifications: {
-          engine,
-          version: engine === 'postgresql' ? '15' : '8.0',
-          size: 'db-s-1vcpu-2gb',
-          num_nodes: 1
-        }
-      })
+  /**
+   * Execute update DNS step - create a record through Neptune, then wait for
+   * it to propagate. A record that has not propagated after the last check
+   * fails the step; its retry policy decides whether to try again.
+   *
+   * config: { domain, name?, record_type?, content, provider?, verify?,
+   *           verify_attempts?, verify_interval_seconds? }
+   */
+  private async executeUpdateDNS(
+    step: WorkflowStep,
+    execution: WorkflowExecution,
+    signals: StepSignals = {}
+  ): Promise<StepResult> {
+    const mcpService = this.mcpFor(execution, signals.timeout)
+    if (!mcpService) {
+      return { status: 'failed', error: 'MCP service is not configured', retryable: false }
     }
 
-    // Add load balancer for production environments
-    if (requirements.environment === 'production' && resources.length > 1) {
-      resources.push({
-        type: 'load_balancer',
-        name: 'app-load-balancer',
-        specifications: {
-          algorithm: 'round_robin',
-          forwarding_rules: [{
-            entry_protocol: 'https',
-            entry_port: 443,
-            target_protocol: 'http',
-            target_port: 80
-          }]
-        }
-      })
+    const {
+      domain,
+      name = '@',
+      record_type: recordType = 'A',
+      content,
+      provider = 'digitalocean',
+      verify = true,
+      verify_attempts: verifyAttempts = DEFAULT_DNS_VERIFY_ATTEMPTS,
+      verify_interval_seconds: verifyIntervalSeconds = DEFAULT_DNS_VERIFY_INTERVAL_SECONDS
+    } = step.config
+    const { workspace_id: workspaceId, user_id: userId } = execution.context
+
+    const record = await mcpService.createDNSRecord(domain, recordType, name, String(content), provider, workspaceId, userId)
+    if (!record.success) {
+      return { status: 'failed', error: `Failed to create ${recordType} record for ${domain}: ${record.error || 'Unknown error'}` }
+    }
+    if (!verify) {
+      return { status: 'completed', output: { record: record.result } }
     }
 
-    // Default to simple droplet if no specific requirements detected
-    if (resources.length === 0) {
-      resources.push({
-        type: 'droplet',
-        name: 'app-server',
-        specifications: {
-          size: 's-1vcpu-1gb',
-          image: 'ubuntu-22-04-x64',
-          monitoring: true
-        }
-      })
+    const fqdn = name === '@' ? domain : `${name}.${domain}`
+    let propagation: MCPToolResult | undefined
+    for (let attempt = 1; attempt <= verifyAttempts; attempt++) {
+      propagation = await mcpService.verifyDNSPropagation(fqdn, recordType, String(content), workspaceId, userId)
+      if (propagation.success && propagation.result?.propagated !== false) {
+        return { status: 'completed', output: { record: record.result, propagation: propagation.result } }
+      }
+      if (attempt < verifyAttempts && !execution.dry_run) {
+        await this.delay(verifyIntervalSeconds * 1000, signals.stop)
+        if (signals.stop?.aborted) break
+      }
+    }
+
+    return {
+      status: 'failed',
+      error: `${recordType} record for ${fqdn} has not propagated after ${verifyAttempts} check(s)` +
+        (propagation?.error ? `: ${propagation.error}` : '')
+    }
+  }
+
+  /**
+   * Execute run tests step - check a deployment with the self-assessment
+   * suite and fail below `min_score` percent of checks passed. Dry runs have
+   * nothing deployed to check, so the suite is skipped.
+   *
+   * config: { ip, domain?, port?, expected_service?, min_score? }
+   */
+  private async executeRunTests(step: WorkflowStep, execution: WorkflowExecution): Promise<StepResult> {
+    const minScore = step.config.min_score ?? DEFAULT_TEST_MIN_SCORE
+    if (execution.dry_run) {
+      return { status: 'completed', output: { skipped: true, reason: 'dry_run', min_score: minScore } }
+    }
+
+    const validation = await this.selfAssessment.validateDeployment({
+      ip: String(step.config.ip),
+      domain: step.config.domain,
+      port: step.config.port,
+      expectedService: step.config.expected_service || 'web',
+      provider: step.config.provider
+    })
+    if (validation.score.percentage < minScore) {
+      const failed = validation.checks.filter(check => check.status === 'failed').map(check => check.name)
+      return {
+        status: 'failed',
+        error: `Deployment scored ${validation.score.percentage}%, below ${minScore}%` +
+          (failed.length > 0 ? ` (failed: ${failed.join(', ')})` : '')
+      }
+    }
+    return { status: 'completed', output: { ...validation, min_score: minScore } }
+  }
+
+  /**
+   * Provider, region, environment and performance tier for an infrastructure
+   * step - from its (template-resolved) config, falling back to the parsed
+   * requirements and then the user's preferences
+   *
+   * config: { specification?, provider?, region?, environment?, tier? }
+   */
+  private infrastructureSettings(step: WorkflowStep, execution: WorkflowExecution): {
+    specification: any
+    provider: string
+    region: string
+    environment: string
+    tier: PerformanceTier
+  } {
+    const specification = step.config?.specification ?? execution.context.requirements[0]?.specification ?? {}
+    const preferences = execution.context.preferences
+
+    return {
+      specification,
+      provider: step.config?.provider || specification.provider || preferences?.preferred_cloud_provider || 'digitalocean',
+      region: step.config?.region || specification.region || preferences?.preferred_regions?.[0] || 'nyc3',
+      environment: step.config?.environment || specification.environment || 'development',
+      tier: performanceTier(step.config?.tier ?? specification.performance_tier ?? specification.tier, preferences)
     }
+  }
+
+  /**
+   * Resources for the detected stack from the workspace's blueprint catalog
+   */
+  private async planResources(
+    settings: ReturnType<WorkflowEngine['infrastructureSettings']>,
+    execution: WorkflowExecution
+  ): Promise<ResourcePlan> {
+    return this.blueprintCatalog.resolve(
+      execution.context.workspace_id,
+      {
+        technologies: settings.specification.technologies || [],
+        provider: settings.provider,
+        environment: settings.environment,
+        tier: settings.tier
+      },
+      { preferences: execution.context.preferences, limits: execution.context.resource_limits }
+    )
+  }
 
-    return resources
+  /**
+   * A plan that breaks the catalog or resource limits will not succeed on retry
+   */
+  private resourcePlanningFailure(error: unknown): StepResult {
+    if (error instanceof WatsonError && ['RESOURCE_LIMIT_EXCEEDED', 'NO_MATCHING_BLUEPRINT'].includes(error.code)) {
+      return { status: 'failed', error: error.message, retryable: false }
+    }
+    return { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' }
   }
 
   /**
@@ -604,7 +2594,7 @@ export class WorkflowEngine extends EventEmitter {
           name: 'Estimate Cost',
           description: 'Calculating infrastructure costs...',
           type: 'estimate_cost',
-          config: {},
+          config: { specification: '${steps.parse-requirements.output}' },
           depends_on: ['parse-requirements'],
           next_steps: ['request-approval'],
           conditions: []
@@ -626,11 +2616,12 @@ export class WorkflowEngine extends EventEmitter {
           name: 'Create Infrastructure',
           description: 'Provisioning cloud infrastructure...',
           type: 'create_infrastructure',
-          config: {},
+          config: { specification: '${steps.parse-requirements.output}' },
           depends_on: ['request-approval'],
           next_steps: ['send-notification'],
           conditions: [],
-          timeout_seconds: 600
+          timeout_seconds: 600,
+          compensation: { type: 'destroy_infrastructure', description: 'Destroy provisioned infrastructure' }
         },
         {
           id: 'send-notification',
@@ -684,7 +2675,7 @@ export class WorkflowEngine extends EventEmitter {
           name: 'Estimate Cost',
           description: 'Calculating costs...',
           type: 'estimate_cost',
-          config: {},
+          config: { specification: '${steps.parse-requirements.output}' },
           depends_on: ['parse-requirements'],
           next_steps: ['create-infrastructure'],
           conditions: []
@@ -694,10 +2685,11 @@ export class WorkflowEngine extends EventEmitter {
           name: 'Create Infrastructure',
           description: 'Creating infrastructure resources...',
           type: 'create_infrastructure',
-          config: {},
+          config: { specification: '${steps.parse-requirements.output}' },
           depends_on: ['estimate-cost'],
           next_steps: [],
-          conditions: []
+          conditions: [],
+          compensation: { type: 'destroy_infrastructure', description: 'Destroy provisioned infrastructure' }
         }
       ],
       triggers: [
@@ -721,17 +2713,57 @@ export class WorkflowEngine extends EventEmitter {
    * Find appropriate workflow for intent
    */
   findWorkflowForIntent(intent: Intent): string | null {
+    return this.findWorkflowForMessage('', intent)?.workflow_id || null
+  }
+
+  /**
+   * Match a user message against keyword, pattern and intent triggers.
+   * Workflows authored in a workspace only match its messages.
+   *
+   * Precedence: higher `config.priority` wins (default 0); on a tie pattern
+   * triggers beat keyword triggers, which beat intent triggers; then authored
+   * workflows beat the built-in defaults. A keyword or pattern trigger with a
+   * negative priority therefore only applies when no intent trigger matches.
+   */
+  findWorkflowForMessage(message: string, intent?: Intent, workspaceId?: string): TriggerMatch | null {
+    const matches: Array<TriggerMatch & { priority: number; rank: number; built_in: boolean }> = []
+
     for (const workflow of this.workflows.values()) {
-      const intentTrigger = workflow.triggers.find(trigger => 
-        trigger.type === 'intent' && trigger.config.intent === intent.name
-      )
-      
-      if (intentTrigger) {
-        return workflow.id
+      if (workflow.workspace_id && workflow.workspace_id !== workspaceId) continue
+
+      for (const trigger of workflow.triggers) {
+        let captured: Record<string, any> | null = null
+        try {
+          if (trigger.type === 'pattern') {
+            captured = matchPatternTrigger(trigger.config, message)
+          } else if (trigger.type === 'keyword') {
+            captured = matchKeywordTrigger(trigger.config, message)
+          } else if (trigger.type === 'intent' && intent && trigger.config.intent === intent.name) {
+            captured = { ...intent.parameters }
+          }
+        } catch (error) {
+          console.warn(`Workflow ${workflow.id} has an unusable ${trigger.type} trigger:`, error)
+        }
+        if (!captured) continue
+
+        matches.push({
+          workflow_id: workflow.id,
+          trigger_type: trigger.type,
+          input: { ...(trigger.config.input || {}), ...captured },
+          priority: Number(trigger.config.priority) || 0,
+          rank: MESSAGE_TRIGGER_RANK[trigger.type] ?? 0,
+          built_in: this.workflowSources.get(workflow.id)?.source === 'built_in'
+        })
       }
     }
-    
-    return null
+
+    matches.sort((a, b) =>
+      b.priority - a.priority || b.rank - a.rank || Number(a.built_in) - Number(b.built_in)
+    )
+
+    if (matches.length === 0) return null
+    const { workflow_id, trigger_type, input } = matches[0]
+    return { workflow_id, trigger_type, input }
   }
 
   /**
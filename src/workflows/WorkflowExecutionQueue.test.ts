@@ -0,0 +1,153 @@
+import { WorkflowPriority } from '../types'
+import { InMemoryExecutionSlotStore } from '../stores'
+import { QueuedExecution, WorkflowExecutionQueue } from './WorkflowExecutionQueue'
+
+function entry(executionId: string, workspaceId = 'ws-1', priority: WorkflowPriority = 'normal'): QueuedExecution {
+  return {
+    execution_id: executionId,
+    workflow_id: 'deploy-application',
+    workspace_id: workspaceId,
+    priority,
+    queued_at: '2026-10-19T10:00:00.000Z'
+  }
+}
+
+describe('WorkflowExecutionQueue admission', () => {
+  let admitted: string[]
+  let queue: WorkflowExecutionQueue
+
+  beforeEach(() => {
+    admitted = []
+    queue = new WorkflowExecutionQueue({ maxConcurrent: 2, maxPerWorkspace: 1 }, admit => admitted.push(admit.execution_id))
+  })
+
+  it('admits straight away while slots are free', async () => {
+    await queue.enqueue(entry('a', 'ws-1'))
+    await queue.enqueue(entry('b', 'ws-2'))
+
+    expect(admitted).toEqual(['a', 'b'])
+    expect(await queue.status()).toMatchObject({ running: 2, running_by_workspace: { 'ws-1': 1, 'ws-2': 1 }, pending: [] })
+  })
+
+  it('holds executions over the global limit until a slot frees', async () => {
+    await queue.enqueue(entry('a', 'ws-1'))
+    await queue.enqueue(entry('b', 'ws-2'))
+    await queue.enqueue(entry('c', 'ws-3'))
+    expect(queue.isPending('c')).toBe(true)
+
+    await queue.finished('a')
+
+    expect(admitted).toEqual(['a', 'b', 'c'])
+  })
+
+  it('admits by priority, then in arrival order', async () => {
+    await queue.enqueue(entry('a', 'ws-1'))
+    await queue.enqueue(entry('b', 'ws-2'))
+    await queue.enqueue(entry('low', 'ws-3', 'low'))
+    await queue.enqueue(entry('normal', 'ws-4'))
+    await queue.enqueue(entry('critical', 'ws-5', 'critical'))
+    await queue.enqueue(entry('normal-later', 'ws-6'))
+
+    expect([...queue.positions()]).toEqual([['critical', 1], ['normal', 2], ['normal-later', 3], ['low', 4]])
+
+    await queue.finished('a')
+    await queue.finished('b')
+    expect(admitted.slice(2)).toEqual(['critical', 'normal'])
+  })
+
+  it('does not let a full workspace hold up the others', async () => {
+    await queue.enqueue(entry('a', 'ws-1'))
+    await queue.enqueue(entry('a-2', 'ws-1', 'critical'))
+    await queue.enqueue(entry('b', 'ws-2'))
+
+    expect(admitted).toEqual(['a', 'b'])
+    expect((await queue.status()).pending).toEqual([expect.objectContaining({ execution_id: 'a-2', position: 1 })])
+
+    await queue.finished('b')
+    expect(admitted).toEqual(['a', 'b'])
+
+    await queue.finished('a')
+    expect(admitted).toEqual(['a', 'b', 'a-2'])
+  })
+
+  it('drops a removed execution from the queue', async () => {
+    await queue.enqueue(entry('a', 'ws-1'))
+    await queue.enqueue(entry('a-2', 'ws-1'))
+
+    expect(queue.remove('a-2')).toBe(true)
+    expect(queue.remove('a-2')).toBe(false)
+    await queue.finished('a')
+
+    expect(admitted).toEqual(['a'])
+  })
+
+  it('counts executions started outside the queue against the limits', async () => {
+    await queue.started('resumed', 'ws-1')
+    await queue.enqueue(entry('a', 'ws-1'))
+
+    expect(admitted).toEqual([])
+    expect((await queue.status()).running_by_workspace).toEqual({ 'ws-1': 1 })
+  })
+})
+
+describe('WorkflowExecutionQueue sub-workflows', () => {
+  let admitted: string[]
+  let queue: WorkflowExecutionQueue
+
+  beforeEach(() => {
+    admitted = []
+    queue = new WorkflowExecutionQueue({ maxConcurrent: 1, maxPerWorkspace: 1 }, admit => admitted.push(admit.execution_id))
+  })
+
+  it('admits a child into the slot of the parent waiting on it', async () => {
+    await queue.enqueue(entry('parent'))
+    await queue.enqueue(entry('child'))
+    expect(admitted).toEqual(['parent'])
+
+    await queue.waitingOnChild('parent')
+
+    expect(admitted).toEqual(['parent', 'child'])
+  })
+
+  it('counts the parent again once its children settle', async () => {
+    await queue.enqueue(entry('parent'))
+    await queue.waitingOnChild('parent')
+    await queue.waitingOnChild('parent')
+    await queue.enqueue(entry('child-1'))
+
+    await queue.childSettled('parent')
+    await queue.finished('child-1')
+    await queue.enqueue(entry('other'))
+    expect(admitted).toEqual(['parent', 'child-1', 'other'])
+
+    await queue.finished('other')
+    await queue.childSettled('parent')
+    await queue.enqueue(entry('later'))
+    expect(admitted).toEqual(['parent', 'child-1', 'other'])
+    expect((await queue.status()).running).toBe(1)
+  })
+})
+
+describe('WorkflowExecutionQueue shared slots', () => {
+  it('applies the limits across queues sharing a slot store', async () => {
+    const slots = new InMemoryExecutionSlotStore()
+    const admitted: string[] = []
+    const limits = { maxConcurrent: 2, maxPerWorkspace: 1 }
+    const first = new WorkflowExecutionQueue(limits, admit => admitted.push(admit.execution_id), slots)
+    const second = new WorkflowExecutionQueue(limits, admit => admitted.push(admit.execution_id), slots)
+
+    await first.enqueue(entry('a', 'ws-1'))
+    await second.enqueue(entry('a-2', 'ws-1'))
+    await second.enqueue(entry('b', 'ws-2'))
+    await second.enqueue(entry('c', 'ws-3'))
+    expect(admitted).toEqual(['a', 'b'])
+    expect(await second.status()).toMatchObject({ running: 2, running_by_workspace: { 'ws-1': 1, 'ws-2': 1 } })
+
+    // The other instance frees a slot; this one only notices on its next drain
+    await first.finished('a')
+    expect(admitted).toEqual(['a', 'b'])
+
+    await second.drain()
+    expect(admitted).toEqual(['a', 'b', 'a-2'])
+  })
+})
@@ -0,0 +1,216 @@
+import { WorkflowPriority } from '../types'
+import { ExecutionSlotStore, InMemoryExecutionSlotStore } from '../stores'
+
+export const WORKFLOW_PRIORITIES: WorkflowPriority[] = ['critical', 'high', 'normal', 'low']
+
+export interface WorkflowQueueLimits {
+  maxConcurrent: number
+  maxPerWorkspace: number
+}
+
+export interface QueuedExecution {
+  execution_id: string
+  workflow_id: string
+  workspace_id?: string
+  priority: WorkflowPriority
+  queued_at: string
+}
+
+export interface WorkflowQueueStatus {
+  limits: { max_concurrent: number | null; max_per_workspace: number | null }
+  running: number
+  running_by_workspace: Record<string, number>
+  pending: Array<QueuedExecution & { position: number }>
+}
+
+// Executions without a workspace share one bucket
+const NO_WORKSPACE = ''
+
+// Slots of an instance that stops renewing them free up after this long
+const SLOT_TTL_MS = 60 * 1000
+
+/**
+ * Admission control for new workflow executions. The limits are cluster-wide:
+ * slots are taken from an `ExecutionSlotStore`, which is shared through
+ * Redis when one is configured.
+ *
+ * An execution is admitted once fewer than `maxConcurrent` executions are
+ * running and its workspace has fewer than `maxPerWorkspace`. Pending
+ * executions are admitted by priority, then in arrival order; one whose
+ * workspace is full does not hold up the rest. Pending executions are only
+ * known to the instance that queued them, so capacity freed on another
+ * instance is picked up the next time `drain` runs here.
+ *
+ * Executions that continue after a pause and recovered executions start
+ * without waiting but still occupy slots. Sub-workflow children are queued
+ * like any other execution; while a parent waits on them it gives up its
+ * slot, so children queued behind their parents cannot deadlock. The parent
+ * takes its slot back when they finish, even if that briefly puts it over a
+ * limit.
+ */
+export class WorkflowExecutionQueue {
+  private pending: Array<QueuedExecution & { sequence: number }> = []
+  private running: Map<string, string> = new Map() // Execution ID -> workspace, slots held by this instance
+  private waitingOnChildren: Map<string, number> = new Map() // Execution ID -> children awaited
+  private sequence = 0
+  private draining?: Promise<void>
+  private drainAgain = false
+
+  constructor(
+    private limits: WorkflowQueueLimits,
+    private onAdmit: (entry: QueuedExecution) => void,
+    private slots: ExecutionSlotStore = new InMemoryExecutionSlotStore()
+  ) {}
+
+  /**
+   * Queue an execution; it is admitted straight away when slots are free
+   */
+  async enqueue(entry: QueuedExecution): Promise<void> {
+    this.pending.push({ ...entry, sequence: this.sequence++ })
+    this.pending.sort((a, b) =>
+      WORKFLOW_PRIORITIES.indexOf(a.priority) - WORKFLOW_PRIORITIES.indexOf(b.priority) ||
+      a.sequence - b.sequence
+    )
+    await this.drain()
+  }
+
+  /**
+   * Drop a pending execution, e.g. when it is cancelled before it started
+   */
+  remove(executionId: string): boolean {
+    const index = this.pending.findIndex(entry => entry.execution_id === executionId)
+    if (index === -1) return false
+    this.pending.splice(index, 1)
+    return true
+  }
+
+  async started(executionId: string, workspaceId?: string): Promise<void> {
+    this.running.set(executionId, workspaceId || NO_WORKSPACE)
+    await this.slots.acquire(executionId, workspaceId || NO_WORKSPACE, this.limits, SLOT_TTL_MS, true)
+  }
+
+  async finished(executionId: string): Promise<void> {
+    this.waitingOnChildren.delete(executionId)
+    if (this.running.delete(executionId)) {
+      await this.slots.release(executionId)
+      await this.drain()
+    }
+  }
+
+  /**
+   * Keep the slot of a running execution from expiring
+   */
+  async renew(executionId: string): Promise<void> {
+    if (this.running.has(executionId) && !this.waitingOnChildren.has(executionId)) {
+      await this.slots.renew(executionId, SLOT_TTL_MS)
+    }
+  }
+
+  /**
+   * A running execution is blocked on a sub-workflow; its slot is free until
+   * every child it waits on has settled
+   */
+  async waitingOnChild(executionId: string): Promise<void> {
+    if (!this.running.has(executionId)) return
+
+    const waiting = this.waitingOnChildren.get(executionId) || 0
+    this.waitingOnChildren.set(executionId, waiting + 1)
+    if (waiting === 0) {
+      await this.slots.release(executionId)
+      await this.drain()
+    }
+  }
+
+  async childSettled(executionId: string): Promise<void> {
+    const waiting = this.waitingOnChildren.get(executionId)
+    if (waiting === undefined) return
+
+    if (waiting > 1) {
+      this.waitingOnChildren.set(executionId, waiting - 1)
+    } else {
+      this.waitingOnChildren.delete(executionId)
+      const workspaceId = this.running.get(executionId)
+      if (workspaceId !== undefined) {
+        await this.slots.acquire(executionId, workspaceId, this.limits, SLOT_TTL_MS, true)
+      }
+    }
+  }
+
+  isPending(executionId: string): boolean {
+    return this.pending.some(entry => entry.execution_id === executionId)
+  }
+
+  /**
+   * 1-based position of each pending execution
+   */
+  positions(): Map<string, number> {
+    return new Map(this.pending.map((entry, index) => [entry.execution_id, index + 1]))
+  }
+
+  /**
+   * Running counts cover the whole cluster; pending entries are this
+   * instance's
+   */
+  async status(): Promise<WorkflowQueueStatus> {
+    const counts = await this.slots.counts()
+
+    return {
+      limits: {
+        max_concurrent: Number.isFinite(this.limits.maxConcurrent) ? this.limits.maxConcurrent : null,
+        max_per_workspace: Number.isFinite(this.limits.maxPerWorkspace) ? this.limits.maxPerWorkspace : null
+      },
+      running: counts.running,
+      running_by_workspace: counts.by_workspace,
+      pending: this.pending.map(({ sequence, ...entry }, index) => ({ ...entry, position: index + 1 }))
+    }
+  }
+
+  /**
+   * Admit pending executions while slots are free. Runs one pass at a time;
+   * a call made during a pass schedules another one.
+   */
+  drain(): Promise<void> {
+    if (this.draining) {
+      this.drainAgain = true
+      return this.draining
+    }
+
+    this.draining = (async () => {
+      do {
+        this.drainAgain = false
+        await this.admitPending()
+      } while (this.drainAgain)
+    })().finally(() => {
+      this.draining = undefined
+    })
+    return this.draining
+  }
+
+  private async admitPending(): Promise<void> {
+    const fullWorkspaces: Set<string> = new Set()
+
+    for (const entry of [...this.pending]) {
+      const workspaceId = entry.workspace_id || NO_WORKSPACE
+      if (fullWorkspaces.has(workspaceId) || !this.pending.includes(entry)) continue
+
+      const acquired = await this.slots.acquire(entry.execution_id, workspaceId, this.limits, SLOT_TTL_MS)
+      if (acquired === 'full') return
+      if (acquired === 'workspace_full') {
+        fullWorkspaces.add(workspaceId)
+        continue
+      }
+
+      // Removed while the slot was being taken
+      const index = this.pending.indexOf(entry)
+      if (index === -1) {
+        await this.slots.release(entry.execution_id)
+        continue
+      }
+
+      this.pending.splice(index, 1)
+      this.running.set(entry.execution_id, workspaceId)
+      const { sequence, ...admitted } = entry
+      this.onAdmit(admitted)
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import Redis from 'ioredis'
+import { WatsonConfig, WorkflowExecution, WorkflowSchedule } from '../types'
+import { InMemoryScheduleStore, RedisScheduleStore, ScheduleStore } from '../stores'
+import { WorkflowEngine } from './WorkflowEngine'
+import { WorkflowScheduler } from './WorkflowScheduler'
+
+/**
+ * Just enough of ioredis for RedisScheduleStore, over a Map
+ */
+function fakeRedis() {
+  const data = new Map<string, any>()
+  const redis = {
+    keys: () => [...data.keys()],
+    async get(key: string) {
+      return data.get(key) ?? null
+    },
+    async set(key: string, value: string, ...options: any[]) {
+      if (options.includes('NX') && data.has(key)) return null
+      data.set(key, value)
+      return 'OK'
+    },
+    async smembers(key: string) {
+      return [...(data.get(key) || [])]
+    },
+    async mget(keys: string[]) {
+      return keys.map(key => data.get(key) ?? null)
+    },
+    multi() {
+      const commands: Array<() => any> = []
+      const transaction = {
+        set: (key: string, value: string) => { commands.push(() => data.set(key, value) && 'OK'); return transaction },
+        sadd: (key: string, member: string) => {
+          commands.push(() => data.set(key, new Set([...(data.get(key) || []), member])) && 1)
+          return transaction
+        },
+        del: (key: string) => { commands.push(() => Number(data.delete(key))); return transaction },
+        srem: (key: string, member: string) => { commands.push(() => Number(data.get(key)?.delete(member))); return transaction },
+        exec: async () => commands.map(command => [null, command()])
+      }
+      return transaction
+    }
+  }
+  return redis
+}
+
+function schedule(nextRunAt: string): WorkflowSchedule {
+  return {
+    id: 'nightly',
+    workflow_id: 'deploy-application',
+    workspace_id: 'ws-1',
+    cron: '* * * * *',
+    timezone: 'UTC',
+    input: {},
+    status: 'active',
+    missed_run_policy: 'skip',
+    source: 'api',
+    next_run_at: nextRunAt,
+    missed_runs: 0,
+    created_at: nextRunAt,
+    updated_at: nextRunAt
+  }
+}
+
+describe('RedisScheduleStore.claimRun', () => {
+  const config = { redis_key_prefix: 'test' } as WatsonConfig
+
+  it('keys run and batch claims on the raw run key', async () => {
+    const redis = fakeRedis()
+    const store = new RedisScheduleStore(redis as unknown as Redis, config)
+
+    await store.claimRun('nightly', 'batch_2026-10-19T10:00:00.000Z', 'instance-1', 1000)
+    await store.claimRun('nightly', '2026-10-19T10:00:00.000Z', 'instance-1', 1000)
+
+    expect(redis.keys()).toEqual([
+      'test:schedule:nightly:run:batch_2026-10-19T10:00:00.000Z',
+      'test:schedule:nightly:run:2026-10-19T10:00:00.000Z'
+    ])
+  })
+
+  it('grants each key once', async () => {
+    const store = new RedisScheduleStore(fakeRedis() as unknown as Redis, config)
+
+    expect(await store.claimRun('nightly', 'batch_2026-10-19T10:00:00.000Z', 'instance-1', 1000)).toBe(true)
+    expect(await store.claimRun('nightly', 'batch_2026-10-19T10:00:00.000Z', 'instance-2', 1000)).toBe(false)
+    expect(await store.claimRun('nightly', 'batch_2026-10-19T10:01:00.000Z', 'instance-2', 1000)).toBe(true)
+  })
+})
+
+describe.each<[string, () => ScheduleStore]>([
+  ['in memory', () => new InMemoryScheduleStore()],
+  ['Redis', () => new RedisScheduleStore(fakeRedis() as unknown as Redis, {} as WatsonConfig)]
+])('WorkflowScheduler with the %s store', (_name, createStore) => {
+  let engine: WorkflowEngine
+  let store: ScheduleStore
+  let startWorkflow: jest.SpyInstance
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T10:00:30.000Z'), doNotFake: ['nextTick', 'setImmediate'] })
+    engine = new WorkflowEngine()
+    store = createStore()
+    startWorkflow = jest.spyOn(engine, 'startWorkflow')
+      .mockImplementation(async () => ({ id: `execution-${startWorkflow.mock.calls.length}` }) as WorkflowExecution)
+    await store.save(schedule('2026-10-19T10:00:00.000Z'))
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('fires a due run once across replicas', async () => {
+    const replicas = [
+      new WorkflowScheduler(engine, { store, instanceId: 'instance-1' }),
+      new WorkflowScheduler(engine, { store, instanceId: 'instance-2' })
+    ]
+
+    await Promise.all(replicas.map(replica => replica.tick()))
+
+    expect(startWorkflow).toHaveBeenCalledTimes(1)
+    expect(startWorkflow).toHaveBeenCalledWith('deploy-application', expect.objectContaining({
+      workspace_id: 'ws-1',
+      trigger: { type: 'schedule', schedule_id: 'nightly', scheduled_for: '2026-10-19T10:00:00.000Z' }
+    }))
+    expect(await store.get('nightly')).toMatchObject({
+      next_run_at: '2026-10-19T10:01:00.000Z',
+      last_execution_id: 'execution-1'
+    })
+  })
+
+  it('fires the following run on the next tick', async () => {
+    const scheduler = new WorkflowScheduler(engine, { store, instanceId: 'instance-1' })
+
+    await scheduler.tick()
+    jest.setSystemTime(new Date('2026-10-19T10:01:30.000Z'))
+    await scheduler.tick()
+
+    expect(startWorkflow.mock.calls.map(([, input]) => input.trigger.scheduled_for)).toEqual([
+      '2026-10-19T10:00:00.000Z',
+      '2026-10-19T10:01:00.000Z'
+    ])
+  })
+
+  it('counts runs older than the grace period as missed', async () => {
+    jest.setSystemTime(new Date('2026-10-19T10:05:30.000Z'))
+    const scheduler = new WorkflowScheduler(engine, { store, instanceId: 'instance-1' })
+
+    await scheduler.tick()
+
+    expect(startWorkflow.mock.calls.map(([, input]) => input.trigger.scheduled_for)).toEqual([
+      '2026-10-19T10:04:00.000Z',
+      '2026-10-19T10:05:00.000Z'
+    ])
+    expect(await store.get('nightly')).toMatchObject({ missed_runs: 4, next_run_at: '2026-10-19T10:06:00.000Z' })
+  })
+})
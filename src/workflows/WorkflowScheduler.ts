@@ -0,0 +1,390 @@
+import { EventEmitter } from 'eventemitter3'
+import { v4 as uuidv4 } from 'uuid'
+import { CronExpressionParser } from 'cron-parser'
+import { WorkflowSchedule, WatsonError, WorkflowSchemaError } from '../types'
+import { ScheduleStore, ScheduleFilter, InMemoryScheduleStore } from '../stores'
+import { WorkflowEngine } from './WorkflowEngine'
+import { validateWorkflowInput } from './WorkflowSchemas'
+
+export interface WorkflowSchedulerOptions {
+  store?: ScheduleStore
+  instanceId?: string
+  tickIntervalMs?: number
+}
+
+export interface CreateScheduleInput {
+  workflow_id: string
+  workspace_id: string
+  user_id?: string
+  cron: string
+  timezone?: string
+  input?: any
+  missed_run_policy?: WorkflowSchedule['missed_run_policy']
+}
+
+const DEFAULT_TICK_INTERVAL_MS = 30 * 1000
+
+// A run that has not fired this long after its scheduled time was missed
+// (every instance was down) and is handled by the missed-run policy
+const MISSED_RUN_GRACE_MS = 2 * 60 * 1000
+
+// Upper bounds for catching up after a long outage
+const MAX_CATCH_UP_RUNS = 10
+const MAX_DUE_RUNS_SCANNED = 1000
+
+// Claims only need to outlive the window in which replicas could race
+const RUN_CLAIM_TTL_MS = 24 * 60 * 60 * 1000
+
+// One replica processes a batch of due runs at a time; the lease expires so
+// a replica that dies mid-batch does not stall the schedule
+const BATCH_CLAIM_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Starts workflows from cron schedules.
+ *
+ * Every replica ticks; a scheduled run is started by whichever instance
+ * claims it first in the schedule store, so runs fire once per cluster.
+ */
+export class WorkflowScheduler extends EventEmitter {
+  private store: ScheduleStore
+  private instanceId: string
+  private tickIntervalMs: number
+  private timer?: NodeJS.Timeout
+  private ticking = false
+
+  constructor(private engine: WorkflowEngine, options: WorkflowSchedulerOptions = {}) {
+    super()
+    this.store = options.store || new InMemoryScheduleStore()
+    this.instanceId = options.instanceId || uuidv4()
+    this.tickIntervalMs = options.tickIntervalMs || DEFAULT_TICK_INTERVAL_MS
+
+    // Keep trigger-defined schedules in step with their workflow definitions
+    const resync = () => {
+      this.syncTriggerSchedules().catch(error => {
+        console.error('[Scheduler] Failed to sync schedule triggers:', error)
+      })
+    }
+    this.engine.on('workflow.definition_saved', resync)
+    this.engine.on('workflow.definition_deleted', resync)
+  }
+
+  start(): void {
+    if (this.timer) return
+
+    this.syncTriggerSchedules()
+      .catch(error => console.error('[Scheduler] Failed to sync schedule triggers:', error))
+      .then(() => this.tick())
+
+    this.timer = setInterval(() => this.tick(), this.tickIntervalMs)
+    this.timer.unref?.()
+  }
+
+  stop(): void {
+    clearInterval(this.timer)
+    this.timer = undefined
+  }
+
+  async createSchedule(input: CreateScheduleInput): Promise<WorkflowSchedule> {
+    const workflow = this.engine.getWorkflow(input.workflow_id)
+    if (!workflow) {
+      throw new WatsonError(`Workflow not found: ${input.workflow_id}`, 'WORKFLOW_NOT_FOUND', 404)
+    }
+
+    // Caught now rather than on every run
+    const { errors } = validateWorkflowInput(workflow, input.input || {})
+    if (errors.length > 0) {
+      throw new WorkflowSchemaError(`Invalid input for workflow ${workflow.id}`, workflow.id, errors)
+    }
+
+    const timezone = input.timezone || 'UTC'
+    if (!isValidCron(input.cron, timezone)) {
+      throw new WatsonError(`Invalid cron expression or timezone: ${input.cron} (${timezone})`, 'INVALID_SCHEDULE', 400)
+    }
+
+    const now = new Date().toISOString()
+    const schedule: WorkflowSchedule = {
+      id: uuidv4(),
+      workflow_id: input.workflow_id,
+      workspace_id: input.workspace_id,
+      user_id: input.user_id,
+      cron: input.cron,
+      timezone,
+      input: input.input || {},
+      status: 'active',
+      missed_run_policy: input.missed_run_policy || 'skip',
+      source: 'api',
+      next_run_at: this.nextRunAfter(input.cron, timezone, new Date()),
+      missed_runs: 0,
+      created_at: now,
+      updated_at: now
+    }
+
+    await this.store.save(schedule)
+    this.emit('schedule.created', schedule)
+    return schedule
+  }
+
+  async getSchedule(scheduleId: string): Promise<WorkflowSchedule | undefined> {
+    return this.store.get(scheduleId)
+  }
+
+  async listSchedules(filter: ScheduleFilter = {}): Promise<WorkflowSchedule[]> {
+    return this.store.list(filter)
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<boolean> {
+    const schedule = await this.store.get(scheduleId)
+    if (!schedule) return false
+
+    if (schedule.source === 'trigger') {
+      throw new WatsonError(
+        `Schedule ${scheduleId} comes from a trigger on workflow ${schedule.workflow_id}; remove the trigger or pause the schedule`,
+        'SCHEDULE_MANAGED_BY_TRIGGER',
+        409
+      )
+    }
+
+    return this.store.delete(scheduleId)
+  }
+
+  async pauseSchedule(scheduleId: string): Promise<WorkflowSchedule | undefined> {
+    const schedule = await this.store.get(scheduleId)
+    if (!schedule) return undefined
+
+    schedule.status = 'paused'
+    schedule.updated_at = new Date().toISOString()
+    await this.store.save(schedule)
+    return schedule
+  }
+
+  /**
+   * Resume a paused schedule. Runs that fell inside the pause are not
+   * treated as missed - the schedule continues from its next occurrence.
+   */
+  async resumeSchedule(scheduleId: string): Promise<WorkflowSchedule | undefined> {
+    const schedule = await this.store.get(scheduleId)
+    if (!schedule) return undefined
+
+    schedule.status = 'active'
+    schedule.next_run_at = this.nextRunAfter(schedule.cron, schedule.timezone, new Date())
+    schedule.updated_at = new Date().toISOString()
+    await this.store.save(schedule)
+    return schedule
+  }
+
+  /**
+   * The next `count` run times for a schedule
+   */
+  getUpcomingRuns(schedule: WorkflowSchedule, count: number): string[] {
+    if (schedule.status !== 'active') return []
+
+    const interval = CronExpressionParser.parse(schedule.cron, {
+      currentDate: new Date(Date.now() - 1),
+      tz: schedule.timezone
+    })
+
+    const runs: string[] = []
+    while (runs.length < count && interval.hasNext()) {
+      runs.push(interval.next().toDate().toISOString())
+    }
+    return runs
+  }
+
+  /**
+   * Fire every due run. Safe to call concurrently from several replicas.
+   */
+  async tick(): Promise<void> {
+    if (this.ticking) return
+    this.ticking = true
+
+    try {
+      const now = new Date()
+      const schedules = await this.store.list({ status: 'active' })
+
+      for (const schedule of schedules) {
+        if (!schedule.next_run_at || new Date(schedule.next_run_at) > now) continue
+
+        await this.processDueSchedule(schedule, now).catch(error => {
+          console.error(`[Scheduler] Failed to process schedule ${schedule.id}:`, error)
+        })
+      }
+    } catch (error) {
+      console.error('[Scheduler] Tick failed:', error)
+    } finally {
+      this.ticking = false
+    }
+  }
+
+  private async processDueSchedule(schedule: WorkflowSchedule, now: Date): Promise<void> {
+    const batchKey = `batch_${schedule.next_run_at}`
+    if (!await this.store.claimRun(schedule.id, batchKey, this.instanceId, BATCH_CLAIM_TTL_MS)) return
+
+    const due = this.dueRuns(schedule, now)
+    const onTime = due.filter(runAt => now.getTime() - new Date(runAt).getTime() <= MISSED_RUN_GRACE_MS)
+
+    let toFire: string[]
+    switch (schedule.missed_run_policy) {
+      case 'run_all':
+        toFire = due.slice(-MAX_CATCH_UP_RUNS)
+        break
+      case 'run_once':
+        toFire = due.slice(-1)
+        break
+      default:
+        toFire = onTime
+    }
+
+    let fired = 0
+    let missed = 0
+    let lastExecutionId: string | undefined
+
+    for (const runAt of due) {
+      // Whoever claims a run owns it - fired or counted as missed exactly once
+      if (!await this.store.claimRun(schedule.id, runAt, this.instanceId, RUN_CLAIM_TTL_MS)) continue
+
+      if (!toFire.includes(runAt)) {
+        missed++
+        continue
+      }
+
+      const executionId = await this.fire(schedule, runAt)
+      if (executionId) {
+        fired++
+        lastExecutionId = executionId
+      }
+    }
+
+    // Re-read so a concurrent pause or edit is not overwritten
+    const current = await this.store.get(schedule.id)
+    if (!current) return
+
+    const nextRunAt = this.nextRunAfter(current.cron, current.timezone, now)
+    if (!current.next_run_at || current.next_run_at < nextRunAt) {
+      current.next_run_at = nextRunAt
+    }
+    if (fired > 0) {
+      current.last_run_at = now.toISOString()
+      current.last_execution_id = lastExecutionId
+    }
+    if (missed > 0) {
+      current.missed_runs += missed
+      console.log(`[Scheduler] Schedule ${current.id} skipped ${missed} missed run(s)`)
+    }
+    current.updated_at = now.toISOString()
+
+    await this.store.save(current)
+  }
+
+  private async fire(schedule: WorkflowSchedule, runAt: string): Promise<string | undefined> {
+    if (!this.engine.getWorkflow(schedule.workflow_id)) {
+      console.error(`[Scheduler] Schedule ${schedule.id} references missing workflow ${schedule.workflow_id}`)
+      return undefined
+    }
+
+    try {
+      const execution = await this.engine.startWorkflow(schedule.workflow_id, {
+        ...schedule.input,
+        workspace_id: schedule.workspace_id,
+        user_id: schedule.user_id,
+        conversation_id: `schedule_${schedule.id}`,
+        trigger: { type: 'schedule', schedule_id: schedule.id, scheduled_for: runAt }
+      })
+
+      console.log(`[Scheduler] Schedule ${schedule.id} started ${schedule.workflow_id} (${execution.id}) for ${runAt}`)
+      this.emit('schedule.fired', { schedule, execution, scheduled_for: runAt })
+      return execution.id
+    } catch (error) {
+      console.error(`[Scheduler] Schedule ${schedule.id} failed to start ${schedule.workflow_id}:`, error)
+      this.emit('schedule.failed', { schedule, scheduled_for: runAt, error })
+      return undefined
+    }
+  }
+
+  /**
+   * Scheduled times from `next_run_at` up to `now`
+   */
+  private dueRuns(schedule: WorkflowSchedule, now: Date): string[] {
+    const interval = CronExpressionParser.parse(schedule.cron, {
+      currentDate: new Date(new Date(schedule.next_run_at!).getTime() - 1),
+      endDate: now,
+      tz: schedule.timezone
+    })
+
+    const runs: string[] = []
+    while (runs.length < MAX_DUE_RUNS_SCANNED && interval.hasNext()) {
+      runs.push(interval.next().toDate().toISOString())
+    }
+    return runs
+  }
+
+  private nextRunAfter(cron: string, timezone: string, after: Date): string {
+    return CronExpressionParser.parse(cron, { currentDate: after, tz: timezone }).next().toDate().toISOString()
+  }
+
+  /**
+   * Mirror `schedule` triggers on workflow definitions into the store.
+   * Trigger config: { cron, timezone?, workspace_id, user_id?, input?, missed_run_policy? }
+   */
+  async syncTriggerSchedules(): Promise<void> {
+    const existing = (await this.store.list()).filter(schedule => schedule.source === 'trigger')
+    const wanted = new Set<string>()
+    const now = new Date()
+
+    for (const workflow of this.engine.getAvailableWorkflows()) {
+      for (const [index, trigger] of workflow.triggers.entries()) {
+        if (trigger.type !== 'schedule') continue
+
+        const config = trigger.config || {}
+        if (!config.cron || !config.workspace_id) {
+          console.warn(`[Scheduler] Workflow ${workflow.id} schedule trigger needs cron and workspace_id`)
+          continue
+        }
+        if (!isValidCron(config.cron, config.timezone || 'UTC')) {
+          console.warn(`[Scheduler] Workflow ${workflow.id} has an invalid cron expression: ${config.cron}`)
+          continue
+        }
+
+        const id = `trigger_${workflow.id}_${index}`
+        wanted.add(id)
+
+        const current = existing.find(schedule => schedule.id === id)
+        const timezone = config.timezone || 'UTC'
+        const cronChanged = !current || current.cron !== config.cron || current.timezone !== timezone
+
+        await this.store.save({
+          id,
+          workflow_id: workflow.id,
+          workspace_id: config.workspace_id,
+          user_id: config.user_id,
+          cron: config.cron,
+          timezone,
+          input: config.input || {},
+          status: current?.status || 'active',
+          missed_run_policy: config.missed_run_policy || 'skip',
+          source: 'trigger',
+          next_run_at: cronChanged ? this.nextRunAfter(config.cron, timezone, now) : current!.next_run_at,
+          last_run_at: current?.last_run_at,
+          last_execution_id: current?.last_execution_id,
+          missed_runs: current?.missed_runs || 0,
+          created_at: current?.created_at || now.toISOString(),
+          updated_at: now.toISOString()
+        })
+      }
+    }
+
+    for (const schedule of existing) {
+      if (!wanted.has(schedule.id)) {
+        await this.store.delete(schedule.id)
+      }
+    }
+  }
+}
+
+export function isValidCron(cron: string, timezone = 'UTC'): boolean {
+  try {
+    CronExpressionParser.parse(cron, { tz: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
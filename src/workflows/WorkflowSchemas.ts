@@ -0,0 +1,154 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv'
+import addFormats from 'ajv-formats'
+import { SchemaFieldError, WorkflowDefinition, WorkflowStep } from '../types'
+
+/**
+ * JSON Schema (draft-07) validation for workflow input and output.
+ *
+ *   input_schema              launch input, checked before an execution is created
+ *   output_schema             `execution.outputs` (keyed by step id), checked on completion
+ *   wait_for_input step
+ *     config.input_schema     the answer to that step, checked on resume
+ *
+ * An empty schema accepts anything. `default`s in a schema are filled in.
+ */
+
+// Watson adds these to every execution's input; schemas only describe what the caller sends
+const SYSTEM_INPUT_FIELDS = ['user_id', 'workspace_id', 'conversation_id', 'trigger']
+
+const ajv = new Ajv({ allErrors: true, strict: false, useDefaults: true })
+addFormats(ajv)
+
+// Definitions are replaced rather than mutated, so schema objects are stable keys
+const validators = new WeakMap<object, ValidateFunction>()
+
+export interface WorkflowSchemas {
+  workflow_id: string
+  input_schema: any
+  output_schema: any
+  steps: Record<string, { type: WorkflowStep['type']; input_schema: any }>
+}
+
+/**
+ * Schemas a client needs to render launch and `wait_for_input` forms
+ */
+export function getWorkflowSchemas(definition: WorkflowDefinition): WorkflowSchemas {
+  const steps: WorkflowSchemas['steps'] = {}
+  for (const step of definition.steps) {
+    if (step.type === 'wait_for_input' && !isEmptySchema(step.config?.input_schema)) {
+      steps[step.id] = { type: step.type, input_schema: step.config.input_schema }
+    }
+  }
+
+  return {
+    workflow_id: definition.id,
+    input_schema: definition.input_schema || {},
+    output_schema: definition.output_schema || {},
+    steps
+  }
+}
+
+/**
+ * Problems compiling the definition's schemas, for definition validation
+ */
+export function validateDefinitionSchemas(definition: WorkflowDefinition): string[] {
+  const schemas: Array<[string, any]> = [
+    ['input_schema', definition.input_schema],
+    ['output_schema', definition.output_schema],
+    ...definition.steps
+      .filter(step => step.type === 'wait_for_input')
+      .map((step): [string, any] => [`steps.${step.id}.config.input_schema`, step.config?.input_schema])
+  ]
+
+  const errors: string[] = []
+  for (const [location, schema] of schemas) {
+    if (isEmptySchema(schema)) continue
+    if (typeof schema !== 'object' || Array.isArray(schema)) {
+      errors.push(`${location}: must be a JSON Schema object`)
+      continue
+    }
+    try {
+      compile(schema)
+    } catch (error) {
+      errors.push(`${location}: ${error instanceof Error ? error.message : 'invalid JSON Schema'}`)
+    }
+  }
+  return errors
+}
+
+/**
+ * Launch input with schema defaults applied, or the field errors
+ */
+export function validateWorkflowInput(
+  definition: WorkflowDefinition,
+  input: Record<string, any>
+): { input: Record<string, any>; errors: SchemaFieldError[] } {
+  const provided: Record<string, any> = {}
+  const system: Record<string, any> = {}
+  for (const [field, value] of Object.entries(input || {})) {
+    (SYSTEM_INPUT_FIELDS.includes(field) ? system : provided)[field] = value
+  }
+
+  const { value, errors } = validateValue(definition.input_schema, provided, 'input')
+  return { input: { ...value, ...system }, errors }
+}
+
+export function validateWorkflowOutput(definition: WorkflowDefinition, outputs: Record<string, any>): SchemaFieldError[] {
+  return validateValue(definition.output_schema, outputs, 'outputs').errors
+}
+
+/**
+ * An answer to a `wait_for_input` step, with defaults applied
+ */
+export function validateStepInput(step: WorkflowStep, input: any): { input: any; errors: SchemaFieldError[] } {
+  const { value, errors } = validateValue(step.config?.input_schema, input, 'input')
+  return { input: value, errors }
+}
+
+function validateValue(schema: any, value: any, root: string): { value: any; errors: SchemaFieldError[] } {
+  if (isEmptySchema(schema)) return { value, errors: [] }
+
+  // Defaults are written into the value being validated
+  const copy = value === undefined ? value : structuredClone(value)
+  const validate = compile(schema)
+  if (validate(copy)) return { value: copy, errors: [] }
+
+  return { value, errors: (validate.errors || []).map(error => toFieldError(error, root)) }
+}
+
+function compile(schema: object): ValidateFunction {
+  let validate = validators.get(schema)
+  if (!validate) {
+    // A redefined workflow may reuse its schema's `$id`
+    const id = (schema as any).$id
+    if (typeof id === 'string') ajv.removeSchema(id)
+    validate = ajv.compile(schema)
+    validators.set(schema, validate)
+  }
+  return validate
+}
+
+function toFieldError(error: ErrorObject, root: string): SchemaFieldError {
+  // `/resources/0/size` -> `input.resources[0].size`
+  let field = root + error.instancePath
+    .split('/')
+    .slice(1)
+    .map(part => /^\d+$/.test(part) ? `[${part}]` : `.${part.replace(/~1/g, '/').replace(/~0/g, '~')}`)
+    .join('')
+
+  if (error.keyword === 'required') field += `.${error.params.missingProperty}`
+  if (error.keyword === 'additionalProperties') field += `.${error.params.additionalProperty}`
+
+  const message = error.keyword === 'additionalProperties'
+    ? 'is not allowed'
+    : error.keyword === 'required'
+      ? 'is required'
+      : error.message || 'is invalid'
+
+  return { field, message, keyword: error.keyword }
+}
+
+function isEmptySchema(schema: any): boolean {
+  return schema === undefined || schema === null || schema === true ||
+    (typeof schema === 'object' && !Array.isArray(schema) && Object.keys(schema).length === 0)
+}
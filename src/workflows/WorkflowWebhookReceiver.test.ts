@@ -0,0 +1,131 @@
+import { createHmac } from 'crypto'
+import { WorkflowExecution } from '../types'
+import { validateWorkflowDefinition } from './WorkflowDefinitionSchema'
+import { WorkflowEngine } from './WorkflowEngine'
+import { WorkflowWebhookReceiver } from './WorkflowWebhookReceiver'
+
+const SECRET = 'webhook-secret'
+
+function definition(signature: string) {
+  return {
+    id: `on-${signature}-push`,
+    name: 'On push',
+    steps: [{ id: 'notify', name: 'Notify', type: 'send_notification' }],
+    triggers: [{
+      type: 'webhook',
+      config: { id: `${signature}-push`, workspace_id: 'ws-1', signature, secret: SECRET }
+    }]
+  }
+}
+
+function sign(data: string): string {
+  return `sha256=${createHmac('sha256', SECRET).update(data, 'utf8').digest('hex')}`
+}
+
+function githubDelivery(body: string, deliveryId: string, signature = sign(body)) {
+  return {
+    triggerId: 'github-push',
+    rawBody: body,
+    headers: {
+      'content-type': 'application/json',
+      'x-github-event': 'push',
+      'x-github-delivery': deliveryId,
+      'x-hub-signature-256': signature
+    }
+  }
+}
+
+function genericDelivery(body: string, deliveryId: string, timestamp = Math.floor(Date.now() / 1000)) {
+  return {
+    triggerId: 'generic-push',
+    rawBody: body,
+    headers: {
+      'content-type': 'application/json',
+      'x-watson-delivery': deliveryId,
+      'x-watson-timestamp': String(timestamp),
+      'x-watson-signature': sign(`${timestamp}.${body}`)
+    }
+  }
+}
+
+describe('WorkflowWebhookReceiver', () => {
+  let engine: WorkflowEngine
+  let receiver: WorkflowWebhookReceiver
+  let startWorkflow: jest.SpyInstance
+
+  beforeEach(async () => {
+    engine = new WorkflowEngine()
+    await engine.saveWorkflowDefinition(definition('github'))
+    await engine.saveWorkflowDefinition(definition('generic'))
+    receiver = new WorkflowWebhookReceiver(engine)
+    startWorkflow = jest.spyOn(engine, 'startWorkflow')
+      .mockImplementation(async () => ({ id: 'execution-1' }) as WorkflowExecution)
+  })
+
+  it('starts the workflow for a valid GitHub signature', async () => {
+    const delivery = await receiver.receive(githubDelivery('{"ref":"main"}', 'delivery-1'))
+
+    expect(delivery).toMatchObject({ status: 'accepted', status_code: 202, execution_id: 'execution-1' })
+    expect(startWorkflow).toHaveBeenCalledWith('on-github-push', expect.objectContaining({
+      payload: { ref: 'main' },
+      event: 'push',
+      workspace_id: 'ws-1'
+    }))
+  })
+
+  it('rejects a body that does not match the signature', async () => {
+    const delivery = await receiver.receive(githubDelivery('{"ref":"evil"}', 'delivery-1', sign('{"ref":"main"}')))
+
+    expect(delivery).toMatchObject({ status: 'rejected', status_code: 401, error: 'Signature mismatch' })
+    expect(startWorkflow).not.toHaveBeenCalled()
+  })
+
+  it('rejects a generic delivery signed outside the timestamp window', async () => {
+    const stale = Math.floor(Date.now() / 1000) - 10 * 60
+    const delivery = await receiver.receive(genericDelivery('{}', 'delivery-1', stale))
+
+    expect(delivery).toMatchObject({ status: 'rejected', status_code: 401 })
+    expect(startWorkflow).not.toHaveBeenCalled()
+  })
+
+  it('treats a replayed request with a new delivery id as a duplicate', async () => {
+    await receiver.receive(githubDelivery('{"ref":"main"}', 'delivery-1'))
+    const replay = await receiver.receive(githubDelivery('{"ref":"main"}', 'forged-delivery-id'))
+
+    expect(replay).toMatchObject({ status: 'duplicate', status_code: 200 })
+    expect(startWorkflow).toHaveBeenCalledTimes(1)
+  })
+
+  it('treats a sender retry with a fresh signature as a duplicate', async () => {
+    const now = Math.floor(Date.now() / 1000)
+    await receiver.receive(genericDelivery('{}', 'delivery-1', now - 30))
+    const retry = await receiver.receive(genericDelivery('{}', 'delivery-1', now))
+
+    expect(retry).toMatchObject({ status: 'duplicate' })
+    expect(startWorkflow).toHaveBeenCalledTimes(1)
+  })
+
+  it('lets the retry through when the workflow failed to start', async () => {
+    startWorkflow.mockRejectedValueOnce(new Error('queue unavailable'))
+
+    const failed = await receiver.receive(githubDelivery('{"ref":"main"}', 'delivery-1'))
+    const retry = await receiver.receive(githubDelivery('{"ref":"main"}', 'delivery-1'))
+
+    expect(failed).toMatchObject({ status: 'failed', status_code: 500 })
+    expect(retry).toMatchObject({ status: 'accepted' })
+  })
+
+  it('records every outcome in the delivery log', async () => {
+    await receiver.receive(githubDelivery('{"ref":"main"}', 'delivery-1'))
+    await receiver.receive(githubDelivery('{"ref":"main"}', 'delivery-1'))
+
+    const deliveries = await receiver.getDeliveries('github-push')
+    expect(deliveries.map(delivery => delivery.status).sort()).toEqual(['accepted', 'duplicate'])
+  })
+
+  it('refuses unsigned webhook triggers', () => {
+    const { errors } = validateWorkflowDefinition(definition('none'))
+
+    expect(errors).toContain('triggers.0.config.signature: must be one of github, generic')
+  })
+})
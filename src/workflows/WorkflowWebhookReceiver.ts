@@ -0,0 +1,274 @@
+import { EventEmitter } from 'eventemitter3'
+import { createHmac, timingSafeEqual } from 'crypto'
+import { FastifyBaseLogger } from 'fastify'
+import { v4 as uuidv4 } from 'uuid'
+import { WebhookDelivery, WorkflowDefinition, WatsonError, WorkflowSchemaError } from '../types'
+import { WebhookDeliveryStore, InMemoryWebhookDeliveryStore } from '../stores'
+import { WorkflowEngine } from './WorkflowEngine'
+
+export interface WorkflowWebhookReceiverOptions {
+  store?: WebhookDeliveryStore
+}
+
+export interface InboundWebhook {
+  triggerId: string
+  rawBody: string
+  headers: Record<string, string | string[] | undefined>
+  query?: Record<string, any>
+  // The request's logger; defaults to the console
+  log?: WebhookLogger
+}
+
+type WebhookLogger = Pick<FastifyBaseLogger, 'info' | 'warn' | 'error'>
+
+// Generic senders must sign within this window of their timestamp
+const DEFAULT_TIMESTAMP_TOLERANCE_SECONDS = 5 * 60
+
+// Delivery ids are remembered long enough to cover sender retry schedules
+const DELIVERY_REPLAY_TTL_MS = 24 * 60 * 60 * 1000
+
+// GitHub signs no timestamp, so a captured delivery verifies forever and is
+// only caught as a replay while it is remembered. Cover GitHub's manual
+// redelivery window (3 days) with room to spare.
+const GITHUB_DELIVERY_REPLAY_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * Starts workflows from inbound webhook calls.
+ *
+ * A `webhook` trigger binds a public id to a workflow:
+ *   { id, workspace_id, user_id?, signature: 'github' | 'generic',
+ *     secret_env | secret, events?, input_mapping?, input?, tolerance_seconds? }
+ *
+ * `github` verifies `X-Hub-Signature-256` over the raw body. `generic`
+ * verifies `X-Watson-Signature` (`sha256=` HMAC of
+ * `<X-Watson-Timestamp>.<body>`) and rejects stale timestamps. Every
+ * request must be signed. Replays are caught by the signature, which an
+ * attacker cannot vary; sender retries are also caught by their unsigned
+ * delivery id (`X-GitHub-Delivery`, `X-Watson-Delivery`). GitHub deliveries
+ * are remembered for 7 days - a `github` delivery replayed later than that
+ * is accepted again.
+ */
+export class WorkflowWebhookReceiver extends EventEmitter {
+  private store: WebhookDeliveryStore
+
+  constructor(private engine: WorkflowEngine, options: WorkflowWebhookReceiverOptions = {}) {
+    super()
+    this.store = options.store || new InMemoryWebhookDeliveryStore()
+  }
+
+  /**
+   * Verify and act on one inbound call. Every outcome for a known trigger is
+   * recorded in its delivery log; unknown trigger ids throw a 404.
+   */
+  async receive(webhook: InboundWebhook): Promise<WebhookDelivery> {
+    const binding = this.engine.findWebhookTrigger(webhook.triggerId)
+    if (!binding) {
+      throw new WatsonError(`Webhook trigger not found: ${webhook.triggerId}`, 'WEBHOOK_NOT_FOUND', 404)
+    }
+
+    const { workflow, trigger } = binding
+    const log: WebhookLogger = webhook.log || console
+    const config = trigger.config || {}
+    const headers = normalizeHeaders(webhook.headers)
+    const scheme: string = config.signature || 'generic'
+
+    const delivery: WebhookDelivery = {
+      id: uuidv4(),
+      trigger_id: webhook.triggerId,
+      workflow_id: workflow.id,
+      external_id: scheme === 'github' ? headers['x-github-delivery'] : headers['x-watson-delivery'],
+      event: scheme === 'github' ? headers['x-github-event'] : headers['x-watson-event'],
+      status: 'accepted',
+      status_code: 202,
+      received_at: new Date().toISOString()
+    }
+
+    const finish = async (status: WebhookDelivery['status'], statusCode: number, error?: string) => {
+      delivery.status = status
+      delivery.status_code = statusCode
+      delivery.error = error
+      await this.store.append(delivery)
+      this.emit('webhook.received', delivery)
+      return delivery
+    }
+
+    const secret = config.secret_env ? process.env[config.secret_env] : config.secret
+    if (!secret) {
+      log.error(`[Webhooks] Trigger ${webhook.triggerId} has no signing secret configured`)
+      return finish('failed', 500, 'Webhook secret is not configured')
+    }
+
+    const verification = this.verifySignature(scheme, secret, webhook.rawBody, headers, config.tolerance_seconds)
+    if (verification.error) {
+      return finish('rejected', 401, verification.error)
+    }
+
+    let payload: any
+    try {
+      payload = parsePayload(webhook.rawBody, headers['content-type'])
+    } catch {
+      return finish('rejected', 400, 'Payload is not valid JSON')
+    }
+
+    if (Array.isArray(config.events) && config.events.length > 0 && !config.events.includes(delivery.event)) {
+      return finish('ignored', 200, `Event ${delivery.event || '(none)'} is not handled by this trigger`)
+    }
+
+    const replayKeys = [
+      `signature:${verification.signature}`,
+      ...(delivery.external_id ? [`delivery:${delivery.external_id}`] : [])
+    ]
+    const replayTtlMs = scheme === 'github' ? GITHUB_DELIVERY_REPLAY_TTL_MS : DELIVERY_REPLAY_TTL_MS
+    const claimed: string[] = []
+    for (const replayKey of replayKeys) {
+      if (!await this.store.claimDelivery(webhook.triggerId, replayKey, replayTtlMs)) {
+        await this.releaseDeliveries(webhook.triggerId, claimed)
+        return finish('duplicate', 200, 'Delivery was already received')
+      }
+      claimed.push(replayKey)
+    }
+
+    try {
+      const execution = await this.engine.startWorkflow(workflow.id, {
+        ...(config.input || {}),
+        ...this.mapInput(workflow, config.input_mapping, { payload, headers, query: webhook.query || {}, event: delivery.event }, log),
+        workspace_id: config.workspace_id,
+        user_id: config.user_id,
+        conversation_id: `webhook_${webhook.triggerId}`,
+        trigger: { type: 'webhook', trigger_id: webhook.triggerId, delivery_id: delivery.id, event: delivery.event }
+      })
+
+      delivery.execution_id = execution.id
+      log.info(`[Webhooks] Trigger ${webhook.triggerId} started ${workflow.id} (${execution.id})`)
+      return finish('accepted', 202)
+    } catch (error) {
+      await this.releaseDeliveries(webhook.triggerId, claimed)
+      if (error instanceof WorkflowSchemaError) {
+        return finish('rejected', 422, `${error.message}: ${error.errors.join('; ')}`)
+      }
+      log.error({ err: error }, `[Webhooks] Trigger ${webhook.triggerId} failed to start ${workflow.id}`)
+      return finish('failed', 500, error instanceof Error ? error.message : 'Failed to start workflow')
+    }
+  }
+
+  private async releaseDeliveries(triggerId: string, replayKeys: string[]): Promise<void> {
+    for (const replayKey of replayKeys) {
+      await this.store.releaseDelivery(triggerId, replayKey)
+    }
+  }
+
+  async getDeliveries(triggerId: string, limit = 50): Promise<WebhookDelivery[]> {
+    return this.store.list(triggerId, limit)
+  }
+
+  /**
+   * Registered webhook triggers, without their secrets
+   */
+  listTriggers(): Array<{ id: string; workflow_id: string; workspace_id: string; signature: string; events?: string[] }> {
+    return this.engine.getAvailableWorkflows().flatMap(workflow => workflow.triggers
+      .filter(trigger => trigger.type === 'webhook')
+      .map(trigger => ({
+        id: trigger.config.id,
+        workflow_id: workflow.id,
+        workspace_id: trigger.config.workspace_id,
+        signature: trigger.config.signature || 'generic',
+        events: trigger.config.events
+      }))
+    )
+  }
+
+  private verifySignature(
+    scheme: string,
+    secret: string,
+    rawBody: string,
+    headers: Record<string, string>,
+    toleranceSeconds = DEFAULT_TIMESTAMP_TOLERANCE_SECONDS
+  ): { signature: string; error?: undefined } | { signature?: undefined; error: string } {
+    if (scheme === 'github') {
+      const provided = headers['x-hub-signature-256']
+      if (!provided) return { error: 'Missing X-Hub-Signature-256 header' }
+
+      return signatureMatches(provided, hmac(secret, rawBody))
+        ? { signature: provided }
+        : { error: 'Signature mismatch' }
+    }
+
+    const provided = headers['x-watson-signature']
+    const timestamp = headers['x-watson-timestamp']
+    if (!provided || !timestamp) return { error: 'Missing X-Watson-Signature or X-Watson-Timestamp header' }
+
+    const sentAt = Number(timestamp)
+    if (!Number.isFinite(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > toleranceSeconds) {
+      return { error: 'Timestamp outside the allowed window' }
+    }
+
+    return signatureMatches(provided, hmac(secret, `${timestamp}.${rawBody}`))
+      ? { signature: provided }
+      : { error: 'Signature mismatch' }
+  }
+
+  /**
+   * Build workflow input from `input_mapping` ({ field: 'payload.path' }),
+   * resolved against { payload, headers, query, event }. Without a mapping
+   * the whole payload is passed as `input.payload`.
+   */
+  private mapInput(
+    workflow: WorkflowDefinition,
+    mapping: Record<string, string> | undefined,
+    source: any,
+    log: WebhookLogger
+  ): any {
+    if (!mapping) {
+      return { payload: source.payload, event: source.event }
+    }
+
+    const input: Record<string, any> = {}
+    for (const [field, path] of Object.entries(mapping)) {
+      const value = path.split('.').reduce((current, key) => current?.[key], source)
+      if (value === undefined) {
+        log.warn(`[Webhooks] ${workflow.id}: mapped field ${field} not found at ${path}`)
+        continue
+      }
+      input[field] = value
+    }
+    return input
+  }
+}
+
+function hmac(secret: string, data: string): string {
+  return `sha256=${createHmac('sha256', secret).update(data, 'utf8').digest('hex')}`
+}
+
+function signatureMatches(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided)
+  const b = Buffer.from(expected)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+function normalizeHeaders(headers: InboundWebhook['headers']): Record<string, string> {
+  const normalized: Record<string, string> = {}
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) {
+      normalized[name.toLowerCase()] = Array.isArray(value) ? value[0] : value
+    }
+  }
+  return normalized
+}
+
+/**
+ * JSON bodies are parsed; GitHub's form encoding carries JSON in `payload`
+ */
+function parsePayload(rawBody: string, contentType = ''): any {
+  if (!rawBody) return {}
+
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    const form = Object.fromEntries(new URLSearchParams(rawBody))
+    return form.payload ? JSON.parse(form.payload) : form
+  }
+
+  if (contentType.includes('json') || /^\s*[{[]/.test(rawBody)) {
+    return JSON.parse(rawBody)
+  }
+
+  return rawBody
+}